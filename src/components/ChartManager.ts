@@ -0,0 +1,222 @@
+import { RealTimeChart } from './RealTimeChart.ts';
+import { SpectrumChart } from './SpectrumChart.ts';
+import { ChartPanelConfig, MonitorData, SpectrumReference } from '../core/Scene.ts';
+import { THEME } from '../config.ts';
+
+// 类型定义
+interface SpectrumEntry {
+  chart: SpectrumChart;
+  source: string; // 数据来源的时间图表面板 ID
+}
+
+// 每推送多少帧数据重新计算一次频谱
+const SPECTRUM_INTERVAL = 15;
+
+/**
+ * 图表面板管理器
+ * 根据场景的 getChartConfig() 在容器中动态创建任意数量的 RealTimeChart，
+ * 并把 MonitorData.channels 中的数据分发到对应的图表。
+ * 频谱面板 (mode 为 'spectrum') 不接收数据，而是定期对来源图表的曲线做 FFT。
+ */
+export class ChartManager {
+  private container: HTMLElement | null;
+  private charts: Map<string, RealTimeChart>;
+  // 每个面板的画布 (组合导出时直接绘制)
+  private canvases: Map<string, HTMLCanvasElement>;
+  private spectra: Map<string, SpectrumEntry>;
+  private spectrumReferences: SpectrumReference[];
+  // 距上次计算频谱后推送的帧数
+  private pushesSinceSpectrum: number;
+  private panels: ChartPanelConfig[];
+  // 所有图表共用的时间窗口 (秒)
+  private windowSec: number;
+
+  /**
+   * @param {string} containerId - 图表容器的 ID
+   */
+  constructor(containerId: string) {
+    this.container = document.getElementById(containerId);
+    this.charts = new Map();
+    this.canvases = new Map();
+    this.spectra = new Map();
+    this.spectrumReferences = [];
+    this.pushesSinceSpectrum = 0;
+    this.panels = [];
+    this.windowSec = 30;
+
+    if (!this.container) {
+      console.warn(`Chart container #${containerId} not found`);
+    }
+
+    this.configure(null);
+  }
+
+  /**
+   * 按面板配置重建图表 (旧图表被移除，数据清空)
+   * 没有面板时保留一个空图表显示"不涉及曲线"。
+   * @param {ChartPanelConfig[] | null} panels - 图表面板配置
+   */
+  configure(panels: ChartPanelConfig[] | null): void {
+    this.charts.forEach(chart => chart.destroy());
+    this.charts.clear();
+    this.spectra.forEach(entry => entry.chart.destroy());
+    this.spectra.clear();
+    this.canvases.clear();
+    this.pushesSinceSpectrum = 0;
+    this.panels = panels ? [...panels] : [];
+
+    if (!this.container) return;
+
+    if (this.panels.length === 0) {
+      this.createChart('empty', '', []);
+      return;
+    }
+
+    this.panels.forEach(panel => {
+      if (panel.mode === 'spectrum') {
+        this.createSpectrum(panel);
+        return;
+      }
+      const xy = panel.mode === 'xy';
+      const chart = this.createChart(
+        panel.id,
+        panel.label,
+        panel.colors || THEME.colors.chart.series,
+        xy ? 200 : 100
+      );
+      chart.setUnit(panel.unit || '');
+      if (xy) {
+        chart.setMode('xy');
+        chart.setXAxis(panel.xLabel || '', panel.xUnit || '');
+        if (panel.trail) chart.setTrail(panel.trail);
+        chart.setEqualScale(!!panel.equalScale);
+      }
+      chart.setSeriesNames(panel.series);
+    });
+  }
+
+  /**
+   * @param {number} height - 画布高度 (XY 图表需要更高的画布)
+   */
+  private createChart(
+    id: string,
+    label: string,
+    colors: string[],
+    height: number = 100
+  ): RealTimeChart {
+    const canvas = this.createCanvas(id, height);
+    const chart = new RealTimeChart(canvas, label, colors);
+    chart.setTimeWindow(this.windowSec);
+    this.charts.set(id, chart);
+    return chart;
+  }
+
+  /**
+   * 创建频谱面板，系列名沿用来源面板的系列
+   */
+  private createSpectrum(panel: ChartPanelConfig): void {
+    const source = panel.source || '';
+    const sourcePanel = this.panels.find(p => p.id === source);
+    const chart = new SpectrumChart(
+      this.createCanvas(panel.id, 140),
+      panel.label,
+      panel.colors || (sourcePanel && sourcePanel.colors) || THEME.colors.chart.series
+    );
+    chart.setSeriesNames(sourcePanel ? sourcePanel.series : panel.series);
+    chart.setReferences(this.spectrumReferences);
+    this.spectra.set(panel.id, { chart, source });
+  }
+
+  private createCanvas(id: string, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.id = `chart-${id}`;
+    canvas.width = 400;
+    canvas.height = height;
+    this.container!.appendChild(canvas);
+    this.canvases.set(id, canvas);
+    return canvas;
+  }
+
+  /**
+   * 获取指定面板的图表
+   */
+  getChart(id: string): RealTimeChart | undefined {
+    return this.charts.get(id);
+  }
+
+  /**
+   * 获取指定面板的频谱图
+   */
+  getSpectrum(id: string): SpectrumChart | undefined {
+    const entry = this.spectra.get(id);
+    return entry ? entry.chart : undefined;
+  }
+
+  /**
+   * 获取指定面板的画布 (时间图表、XY 图表或频谱图)
+   */
+  getCanvas(id: string): HTMLCanvasElement | undefined {
+    return this.canvases.get(id);
+  }
+
+  getCharts(): RealTimeChart[] {
+    return [...this.charts.values()];
+  }
+
+  getPanels(): ChartPanelConfig[] {
+    return [...this.panels];
+  }
+
+  /**
+   * 把一帧监控数据推送到对应的图表
+   */
+  push(data: MonitorData): void {
+    Object.keys(data.channels).forEach(id => {
+      const chart = this.charts.get(id);
+      if (chart) chart.push(data.t, ...data.channels[id]!);
+    });
+
+    this.pushesSinceSpectrum++;
+    if (this.pushesSinceSpectrum >= SPECTRUM_INTERVAL) this.updateSpectra();
+  }
+
+  /**
+   * 设置频谱图的理论频率参考线 (场景的 getSpectrumReferences())
+   */
+  setSpectrumReferences(references: SpectrumReference[]): void {
+    this.spectrumReferences = references;
+    this.spectra.forEach(entry => entry.chart.setReferences(references));
+  }
+
+  /**
+   * 按来源图表当前可见的数据重新计算所有频谱
+   */
+  updateSpectra(): void {
+    this.pushesSinceSpectrum = 0;
+    this.spectra.forEach(entry => {
+      const source = this.charts.get(entry.source);
+      if (source) entry.chart.update(source.getData());
+    });
+  }
+
+  clear(): void {
+    this.charts.forEach(chart => chart.clear());
+    this.spectra.forEach(entry => entry.chart.clear());
+    this.pushesSinceSpectrum = 0;
+  }
+
+  setTimeWindow(seconds: number): void {
+    this.windowSec = seconds;
+    this.charts.forEach(chart => chart.setTimeWindow(seconds));
+  }
+
+  setPlayhead(t: number | null): void {
+    this.charts.forEach(chart => chart.setPlayhead(t));
+    this.updateSpectra();
+  }
+
+  truncateAfter(t: number): void {
+    this.charts.forEach(chart => chart.truncateAfter(t));
+    this.updateSpectra();
+  }
+}
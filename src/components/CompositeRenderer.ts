@@ -0,0 +1,236 @@
+import { THEME } from '../config.ts';
+import { ChartManager } from './ChartManager.ts';
+import { rasterizeElement } from '../utils/rasterize.ts';
+
+// 类型定义
+export interface CompositeOptions {
+  charts: string[]; // 要包含的图表面板 ID
+  formulas: boolean; // 包含公式面板
+  legend: boolean; // 包含图例
+}
+
+interface LegendItem {
+  color: string;
+  label: string;
+  type?: string; // 'line' | 'arrow' | 'dot' | 'circle'
+  dashed?: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 页面与图表的背景色 (与 style.css 一致)
+const PAGE_BG = '#111111';
+const CHART_BG = '#0b0b0b';
+// 右侧栏占输出宽度的比例
+const SIDEBAR_RATIO = 0.32;
+
+/**
+ * 组合画面
+ * 把模拟画面、选中的图表、公式与图例排版到一张画布上 (左侧模拟，右侧公式与图表，底部图例)，
+ * 用于截图或录制课件视频。图表直接复制页面上的画布；KaTeX 公式是 HTML，需先用 prepare() 转换为图像。
+ */
+export class CompositeRenderer {
+  private charts: ChartManager;
+  private formulaContainer: HTMLElement | null;
+  // 公式面板的图像 (prepare 时生成，录制期间公式不变)
+  private formulaImage: HTMLCanvasElement | null;
+  private legend: LegendItem[];
+  options: CompositeOptions;
+
+  /**
+   * @param {ChartManager} charts - 图表面板管理器
+   * @param {string} formulaContainerId - 公式面板容器的 ID
+   */
+  constructor(charts: ChartManager, formulaContainerId: string) {
+    this.charts = charts;
+    this.formulaContainer = document.getElementById(formulaContainerId);
+    this.formulaImage = null;
+    this.legend = [];
+    this.options = { charts: [], formulas: true, legend: true };
+  }
+
+  /**
+   * 设置图例 (场景的 getLegendConfig())
+   */
+  setLegend(items: LegendItem[]): void {
+    this.legend = items || [];
+  }
+
+  /**
+   * 当前可选的图表面板
+   */
+  getChartPanels(): { id: string; label: string }[] {
+    return this.charts.getPanels().map(panel => ({ id: panel.id, label: panel.label }));
+  }
+
+  /**
+   * 导出前的准备：把公式面板转换为图像
+   * @param {number} pixelRatio - 公式图像的像素比 (按输出分辨率选择，避免放大后模糊)
+   */
+  async prepare(pixelRatio: number = 2): Promise<void> {
+    this.formulaImage = null;
+    if (!this.options.formulas || !this.formulaContainer) return;
+    this.formulaImage = await rasterizeElement(this.formulaContainer, pixelRatio);
+  }
+
+  /**
+   * 按当前状态绘制组合画面
+   * @param {CanvasRenderingContext2D} ctx - 目标上下文
+   * @param {number} width - 输出宽度 (像素)
+   * @param {number} height - 输出高度 (像素)
+   * @param {Function} drawSimulation - 在 (0, 0)–(w, h) 区域绘制模拟画面
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    drawSimulation: (ctx: CanvasRenderingContext2D, width: number, height: number) => void
+  ): void {
+    const padding = Math.round(height * 0.015);
+    const chartCanvases = this.getChartCanvases();
+    const formula = this.options.formulas ? this.formulaImage : null;
+    const hasSidebar = chartCanvases.length > 0 || !!formula;
+    const legendHeight =
+      this.options.legend && this.legend.length > 0 ? Math.round(height * 0.06) : 0;
+
+    ctx.save();
+    ctx.fillStyle = PAGE_BG;
+    ctx.fillRect(0, 0, width, height);
+
+    const sidebarWidth = hasSidebar ? Math.round(width * SIDEBAR_RATIO) : 0;
+    const simulation: Rect = {
+      x: padding,
+      y: padding,
+      width: width - sidebarWidth - padding * (hasSidebar ? 3 : 2),
+      height: height - legendHeight - padding * 2,
+    };
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(simulation.x, simulation.y, simulation.width, simulation.height);
+    ctx.clip();
+    ctx.translate(simulation.x, simulation.y);
+    drawSimulation(ctx, simulation.width, simulation.height);
+    ctx.restore();
+
+    if (hasSidebar) {
+      this.drawSidebar(ctx, formula, chartCanvases, {
+        x: width - sidebarWidth - padding,
+        y: padding,
+        width: sidebarWidth,
+        height: simulation.height,
+      });
+    }
+
+    if (legendHeight > 0) {
+      this.drawLegend(ctx, {
+        x: padding,
+        y: height - legendHeight - padding,
+        width: width - padding * 2,
+        height: legendHeight,
+      });
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 选中且存在于页面上的图表画布 (按面板顺序)
+   */
+  private getChartCanvases(): HTMLCanvasElement[] {
+    return this.charts
+      .getPanels()
+      .filter(panel => this.options.charts.includes(panel.id))
+      .map(panel => this.charts.getCanvas(panel.id))
+      .filter((canvas): canvas is HTMLCanvasElement => !!canvas);
+  }
+
+  /**
+   * 右侧栏：公式在上 (最多占一半高度)，图表按原始宽高比依次排列并平分剩余高度
+   */
+  private drawSidebar(
+    ctx: CanvasRenderingContext2D,
+    formula: HTMLCanvasElement | null,
+    charts: HTMLCanvasElement[],
+    rect: Rect
+  ): void {
+    const gap = Math.round(rect.height * 0.02);
+    let y = rect.y;
+
+    if (formula) {
+      const maxHeight = charts.length > 0 ? rect.height / 2 : rect.height;
+      const scale = Math.min(rect.width / formula.width, maxHeight / formula.height);
+      const w = formula.width * scale;
+      const h = formula.height * scale;
+      ctx.fillStyle = THEME.colors.ui.panelBg;
+      ctx.fillRect(rect.x, y, rect.width, h);
+      ctx.drawImage(formula, rect.x + (rect.width - w) / 2, y, w, h);
+      y += h + gap;
+    }
+
+    if (charts.length === 0) return;
+    const slot = (rect.y + rect.height - y - gap * (charts.length - 1)) / charts.length;
+    charts.forEach(canvas => {
+      const scale = Math.min(rect.width / canvas.width, slot / canvas.height);
+      const w = canvas.width * scale;
+      const h = canvas.height * scale;
+      const x = rect.x + (rect.width - w) / 2;
+      ctx.fillStyle = CHART_BG;
+      ctx.fillRect(x, y, w, h);
+      ctx.drawImage(canvas, x, y, w, h);
+      y += h + gap;
+    });
+  }
+
+  /**
+   * 底部图例：与控制面板的图例样式一致 (线段 / 箭头为短横线，点为实心圆，圆为空心圆)
+   */
+  private drawLegend(ctx: CanvasRenderingContext2D, rect: Rect): void {
+    const fontSize = Math.round(rect.height * 0.45);
+    const swatch = fontSize * 2;
+    const centerY = rect.y + rect.height / 2;
+    let x = rect.x;
+
+    ctx.fillStyle = THEME.colors.ui.panelBg;
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.font = `${fontSize}px system-ui, sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    x += fontSize;
+
+    this.legend.forEach(item => {
+      ctx.strokeStyle = item.color;
+      ctx.fillStyle = item.color;
+      if (item.type === 'dot' || item.type === 'circle') {
+        const r = fontSize / 2;
+        ctx.beginPath();
+        ctx.arc(x + r, centerY, r, 0, Math.PI * 2);
+        if (item.type === 'dot') {
+          ctx.fill();
+        } else {
+          ctx.lineWidth = Math.max(1, fontSize / 8);
+          ctx.stroke();
+        }
+        x += fontSize;
+      } else {
+        ctx.lineWidth = Math.max(2, fontSize / 5);
+        ctx.setLineDash(item.dashed ? [fontSize / 3, fontSize / 4] : []);
+        ctx.beginPath();
+        ctx.moveTo(x, centerY);
+        ctx.lineTo(x + swatch, centerY);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        x += swatch;
+      }
+
+      x += fontSize / 2;
+      ctx.fillStyle = THEME.colors.ui.textMain;
+      ctx.fillText(item.label, x, centerY);
+      x += ctx.measureText(item.label).width + fontSize * 1.5;
+    });
+  }
+}
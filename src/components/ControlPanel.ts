@@ -1,11 +1,20 @@
 import { THEME } from '../config.ts';
 import { EventBus } from '../core/EventBus.ts';
+import { Permalink } from '../core/Permalink.ts';
+import { PresetStore } from '../core/PresetStore.ts';
+import { DataLogger } from '../core/DataLogger.ts';
+import { OfflineRenderer } from '../core/OfflineRenderer.ts';
+import { VideoExporter } from '../core/VideoExporter.ts';
+import { Camera } from '../core/Camera.ts';
+import { MeasurementOverlay, MEASUREMENT_LAYERS } from '../core/MeasurementOverlay.ts';
+import { CompositeRenderer } from './CompositeRenderer.ts';
+import { downloadBlob, downloadText, timestampedFilename } from '../utils/download.ts';
 
 /**
  * 控件配置接口
  */
 interface ControlConfig {
-  type: 'range' | 'boolean' | 'color' | 'select' | 'action';
+  type: 'range' | 'boolean' | 'color' | 'select' | 'action' | 'readout';
   key: string;
   label: string;
   min?: number;
@@ -15,6 +24,10 @@ interface ControlConfig {
   options?: Array<{ value: any; label: string }>;
   onClick?: () => void;
   description?: string;
+  // readout 类型的取值函数、单位与小数位数
+  getValue?: () => number | string | null;
+  unit?: string;
+  precision?: number;
 }
 
 /**
@@ -34,8 +47,35 @@ interface Engine {
   togglePause(): void;
   reset(): void;
   setChartWindow(seconds: number): void;
+  bookmarks: Array<{ id: number; label: string }>;
+  addBookmark(label?: string): { id: number; label: string } | null;
+  jumpToBookmark(id: number): boolean;
+  currentScene: any;
+  logger: DataLogger;
+  running: boolean;
+  pause(): void;
+  resetTime(): void;
+  timeScale: number;
+  setTimeScale(scale: number): void;
+  stepFrame(): void;
+  stepSeconds(seconds: number): void;
+  physicsTime: number;
+  timelineEnd: number;
+  history: { startTime: number | null };
+  seek(physicsTime: number): boolean;
+  canvas: HTMLCanvasElement;
+  renderer: { getType(): string };
+  fixedDeltaTime: number;
+  advanceFrame(steps: number): void;
+  redraw(): void;
+  drawOverlay(ctx: CanvasRenderingContext2D, width: number, height: number): void;
+  measurement: MeasurementOverlay;
 }
 
+// 截图画布的尺寸上限 (浏览器对单边长度与总像素数有限制，超出时 getContext 或 toBlob 失败)
+const MAX_SNAPSHOT_SIDE = 16384;
+const MAX_SNAPSHOT_PIXELS = 8192 * 8192;
+
 /**
  * 基于配置对象生成 UI 控件。
  */
@@ -44,6 +84,21 @@ export class ControlPanel extends EventBus {
   engine: Engine;
   controls: Map<string, any>;
   sceneKey: string;
+  // 当前场景的参数与控件配置 (用于生成分享链接)
+  private params: any;
+  private config: ControlConfig[];
+
+  // 时间线控件 (由 updateTimeline 每帧同步)
+  private pauseBtn: HTMLButtonElement | null;
+  private timelineInput: HTMLInputElement | null;
+  private timelineLabel: HTMLSpanElement | null;
+  // 数据记录状态文字 (由 updateLoggerStatus 每帧同步)
+  private loggerStatus: HTMLSpanElement | null;
+  // 离线逐帧渲染 (GIF 与视频导出共用，切换场景时取消进行中的导出)
+  private offlineRenderer: OfflineRenderer;
+  private videoExporter: VideoExporter;
+  // 组合画面 (模拟 + 图表 + 公式 + 图例)，由 setCompositeRenderer 提供
+  private composite: CompositeRenderer | null;
 
   constructor(containerId: string, engine: Engine) {
     super();
@@ -51,17 +106,57 @@ export class ControlPanel extends EventBus {
     this.engine = engine;
     this.controls = new Map();
     this.sceneKey = 'scene';
+    this.params = {};
+    this.config = [];
+    this.pauseBtn = null;
+    this.timelineInput = null;
+    this.timelineLabel = null;
+    this.loggerStatus = null;
+    this.offlineRenderer = new OfflineRenderer(engine);
+    this.videoExporter = new VideoExporter(this.offlineRenderer);
+    this.composite = null;
 
     if (!this.container) {
       console.warn(`Control panel container #${containerId} not found`);
     }
   }
 
+  /**
+   * 设置组合画面渲染器，导出区域随之提供"组合画面"选项
+   */
+  setCompositeRenderer(composite: CompositeRenderer): void {
+    this.composite = composite;
+  }
+
   clear() {
     if (this.container) this.container.innerHTML = '';
     this.controls.clear();
   }
 
+  /**
+   * 按当前参数值刷新控件的显示
+   * 只改动值有变化的控件，主循环每帧调用，使场景自行修改的参数 (例如点击开关) 与只读数值保持同步。
+   */
+  refreshControls(): void {
+    this.controls.forEach(refresh => refresh());
+  }
+
+  /**
+   * 注册控件的刷新函数：参数值与上次显示的值不同时才调用 update
+   * @param params - 参数对象
+   * @param key - 参数名
+   * @param update - 按新值更新控件
+   */
+  private bindControl(params: any, key: string, update: (value: any) => void): void {
+    let shown = params[key];
+    this.controls.set(key, () => {
+      const value = params[key];
+      if (value === shown) return;
+      shown = value;
+      update(value);
+    });
+  }
+
   /**
    * 将控件绑定到场景的参数。
    * @param {Object} params - 要修改的参数对象
@@ -79,8 +174,11 @@ export class ControlPanel extends EventBus {
   setup(params: any, config: ControlConfig[], legend: LegendConfig[] = [], sceneKey: string = 'scene'): void {
     this.clear();
     if (!this.container) return;
+    if (this.offlineRenderer.rendering) this.offlineRenderer.cancel();
 
     this.sceneKey = sceneKey;
+    this.params = params;
+    this.config = config;
 
     // 创建顶部栏容器
     const topBar = document.createElement('div');
@@ -107,6 +205,24 @@ export class ControlPanel extends EventBus {
     // 2.5 添加图表时间窗口控制
     this.addChartControls(topBar);
 
+    // 2.6 添加书签控件
+    this.addBookmarkControls(topBar);
+
+    // 2.62 添加视角控件 (跟随物体、复位视角)
+    this.addCameraControls(topBar);
+
+    // 2.63 添加测量叠加层开关 (标尺、网格、坐标轴、比例尺)
+    this.addMeasurementControls(topBar);
+
+    // 2.65 添加分享链接
+    this.addShareControls(topBar);
+
+    // 2.7 添加时间线 (时间回溯)
+    this.addTimelineControls(topBar);
+
+    // 2.8 添加参数预设
+    this.addPresetControls(this.container);
+
     // 3. 添加参数控件
     config.forEach(item => {
       const wrapper = document.createElement('div');
@@ -131,6 +247,8 @@ export class ControlPanel extends EventBus {
         this.createSelectControl(controlRow, params, item);
       } else if (item.type === 'action') {
         this.createActionControl(controlRow, item);
+      } else if (item.type === 'readout') {
+        this.createReadoutControl(controlRow, item);
       }
 
       if (item.description) {
@@ -145,6 +263,12 @@ export class ControlPanel extends EventBus {
 
       this.container.appendChild(wrapper);
     });
+
+    // 4. 添加数据记录
+    this.addLoggerControls(this.container);
+
+    // 5. 添加视频导出
+    this.addVideoExportControls(this.container);
   }
 
   addLegend(parent: HTMLElement, legendItems: LegendConfig[]): void {
@@ -215,6 +339,7 @@ export class ControlPanel extends EventBus {
       this.engine.toggle();
       pauseBtn.textContent = this.engine.running ? 'Pause' : 'Resume';
     };
+    this.pauseBtn = pauseBtn;
 
     const resetBtn = document.createElement('button');
     resetBtn.textContent = '重新开始';
@@ -272,9 +397,75 @@ export class ControlPanel extends EventBus {
     wrapper.appendChild(resetBtn);
     wrapper.appendChild(recordBtn);
     wrapper.appendChild(record10sBtn);
+    this.addSpeedControls(wrapper);
     parent.appendChild(wrapper);
   }
 
+  /**
+   * 添加速度控件：时间倍率 (慢放/快进)、单步与前进 N 秒
+   */
+  addSpeedControls(parent: HTMLElement): void {
+    const inputStyle = (el: HTMLElement) => {
+      el.style.padding = '2px 5px';
+      el.style.background = THEME.colors.ui.inputBg;
+      el.style.color = THEME.colors.ui.textMain;
+      el.style.border = `1px solid ${THEME.colors.ui.border}`;
+      el.style.borderRadius = '3px';
+    };
+
+    const speedSelect = document.createElement('select');
+    inputStyle(speedSelect);
+    speedSelect.style.cursor = 'pointer';
+    speedSelect.title = '时间倍率 (慢放 / 快进)';
+    [0.1, 0.25, 0.5, 1, 2, 5, 10].forEach(scale => {
+      const option = document.createElement('option');
+      option.value = String(scale);
+      option.textContent = `${scale}×`;
+      if (scale === this.engine.timeScale) option.selected = true;
+      speedSelect.appendChild(option);
+    });
+    speedSelect.onchange = () => {
+      this.engine.setTimeScale(parseFloat(speedSelect.value));
+    };
+
+    // 单步与前进 N 秒都会暂停模拟
+    const markPaused = () => {
+      if (this.pauseBtn) this.pauseBtn.textContent = 'Resume';
+    };
+
+    const stepBtn = document.createElement('button');
+    stepBtn.textContent = '单步';
+    stepBtn.title = '暂停并前进一帧 (1/60 s)';
+    stepBtn.onclick = () => {
+      this.engine.stepFrame();
+      markPaused();
+    };
+
+    const secondsInput = document.createElement('input');
+    secondsInput.type = 'number';
+    secondsInput.min = '0.1';
+    secondsInput.max = '60';
+    secondsInput.step = '0.1';
+    secondsInput.value = '1';
+    secondsInput.style.width = '4rem';
+    inputStyle(secondsInput);
+
+    const stepSecondsBtn = document.createElement('button');
+    stepSecondsBtn.textContent = '前进 (s)';
+    stepSecondsBtn.title = '暂停并前进指定的物理时间';
+    stepSecondsBtn.onclick = () => {
+      const seconds = Math.min(parseFloat(secondsInput.value), 60);
+      if (!(seconds > 0)) return;
+      this.engine.stepSeconds(seconds);
+      markPaused();
+    };
+
+    parent.appendChild(speedSelect);
+    parent.appendChild(stepBtn);
+    parent.appendChild(secondsInput);
+    parent.appendChild(stepSecondsBtn);
+  }
+
   addChartControls(parent: HTMLElement): void {
     const wrapper = document.createElement('div');
     wrapper.className = 'chart-controls';
@@ -306,15 +497,910 @@ export class ControlPanel extends EventBus {
 
     select.onchange = e => {
       const val = parseInt(e.target.value);
-      if (window.velChart) window.velChart.setTimeWindow(val);
-      if (window.accChart) window.accChart.setTimeWindow(val);
+      if (window.charts) window.charts.setTimeWindow(val);
+    };
+
+    wrapper.appendChild(label);
+    wrapper.appendChild(select);
+    parent.appendChild(wrapper);
+  }
+
+  addBookmarkControls(parent: HTMLElement): void {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'bookmark-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.fontSize = '0.85rem';
+
+    const addBtn = document.createElement('button');
+    addBtn.textContent = '添加书签';
+    addBtn.title = '记录当前时刻的物理状态，之后可随时跳回';
+
+    const select = document.createElement('select');
+    select.style.padding = '2px 5px';
+    select.style.background = THEME.colors.ui.inputBg;
+    select.style.color = THEME.colors.ui.textMain;
+    select.style.border = `1px solid ${THEME.colors.ui.border}`;
+    select.style.borderRadius = '3px';
+    select.style.cursor = 'pointer';
+
+    // 根据引擎中的书签刷新下拉框
+    const refreshOptions = () => {
+      select.innerHTML = '';
+      const placeholder = document.createElement('option');
+      placeholder.value = '';
+      placeholder.textContent = this.engine.bookmarks.length ? '跳转到书签...' : '暂无书签';
+      select.appendChild(placeholder);
+
+      this.engine.bookmarks.forEach(bookmark => {
+        const option = document.createElement('option');
+        option.value = String(bookmark.id);
+        option.textContent = bookmark.label;
+        select.appendChild(option);
+      });
+      select.disabled = this.engine.bookmarks.length === 0;
+    };
+
+    addBtn.onclick = () => {
+      if (this.engine.addBookmark()) refreshOptions();
+    };
+
+    select.onchange = () => {
+      const id = parseInt(select.value);
+      if (!isNaN(id)) this.engine.jumpToBookmark(id);
+      select.value = '';
+    };
+
+    refreshOptions();
+
+    wrapper.appendChild(addBtn);
+    wrapper.appendChild(select);
+    parent.appendChild(wrapper);
+  }
+
+  /**
+   * 添加视角控件：跟随物体与复位视角 (只对启用相机的场景显示)
+   * 滚轮缩放、拖动平移与双击复位由场景的 Camera 直接处理。
+   */
+  addCameraControls(parent: HTMLElement): void {
+    const scene = this.engine.currentScene;
+    if (!scene || !scene.camera || !scene.camera.isEnabled()) return;
+    const camera: Camera = scene.camera;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'camera-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.fontSize = '0.85rem';
+
+    const label = document.createElement('span');
+    label.textContent = '视角:';
+    label.style.color = THEME.colors.ui.textSub;
+
+    const select = document.createElement('select');
+    select.title = '滚轮缩放，拖动空白处平移';
+    select.style.padding = '2px 5px';
+    select.style.background = THEME.colors.ui.inputBg;
+    select.style.color = THEME.colors.ui.textMain;
+    select.style.border = `1px solid ${THEME.colors.ui.border}`;
+    select.style.borderRadius = '3px';
+    select.style.cursor = 'pointer';
+
+    const options = [{ id: '', label: '固定' }].concat(
+      camera.getFollowTargets().map(target => ({ id: target.id, label: `跟随${target.label}` }))
+    );
+    options.forEach(item => {
+      const option = document.createElement('option');
+      option.value = item.id;
+      option.textContent = item.label;
+      select.appendChild(option);
+    });
+    select.value = camera.getFollow() || '';
+    select.disabled = options.length === 1;
+
+    select.onchange = () => {
+      camera.setFollow(select.value || null);
     };
 
+    const resetBtn = document.createElement('button');
+    resetBtn.textContent = '复位视角';
+    resetBtn.title = '清除缩放与平移 (也可双击画布空白处)';
+    resetBtn.onclick = () => camera.reset();
+
     wrapper.appendChild(label);
     wrapper.appendChild(select);
+    wrapper.appendChild(resetBtn);
     parent.appendChild(wrapper);
   }
 
+  /**
+   * 添加测量叠加层开关 (只对声明了测量配置的场景显示，初始状态为场景的默认值)
+   */
+  addMeasurementControls(parent: HTMLElement): void {
+    const measurement = this.engine.measurement;
+    if (!measurement.isAvailable()) return;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'measurement-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.fontSize = '0.85rem';
+
+    const label = document.createElement('span');
+    label.textContent = '测量:';
+    label.style.color = THEME.colors.ui.textSub;
+    wrapper.appendChild(label);
+
+    MEASUREMENT_LAYERS.forEach(layer => {
+      const item = document.createElement('label');
+      item.style.display = 'flex';
+      item.style.alignItems = 'center';
+      item.style.cursor = 'pointer';
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = measurement.isEnabled(layer.key);
+      checkbox.style.marginRight = '0.25rem';
+      checkbox.onchange = () => {
+        measurement.setEnabled(layer.key, checkbox.checked);
+        // 暂停时立即显示变化
+        if (!this.engine.running) this.engine.redraw();
+      };
+
+      item.appendChild(checkbox);
+      item.appendChild(document.createTextNode(layer.label));
+      wrapper.appendChild(item);
+    });
+
+    parent.appendChild(wrapper);
+  }
+
+  /**
+   * 添加参数预设：内置预设来自场景的 getPresets()，用户预设保存在 localStorage。
+   * 选择预设后写入参数、刷新控件并重新开始模拟。
+   */
+  addPresetControls(parent: HTMLElement): void {
+    const scene = this.engine.currentScene;
+    const builtIn = scene && scene.getPresets ? scene.getPresets() : [];
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'preset-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.marginBottom = '0.8rem';
+    wrapper.style.fontSize = '0.9rem';
+
+    const label = document.createElement('label');
+    label.textContent = '预设: ';
+    label.style.minWidth = '120px';
+
+    const select = document.createElement('select');
+    select.style.padding = '2px 5px';
+    select.style.background = THEME.colors.ui.inputBg;
+    select.style.color = THEME.colors.ui.textMain;
+    select.style.border = `1px solid ${THEME.colors.ui.border}`;
+    select.style.borderRadius = '3px';
+    select.style.cursor = 'pointer';
+
+    const saveBtn = document.createElement('button');
+    saveBtn.textContent = '保存';
+    saveBtn.title = '把当前参数保存为我的预设';
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.textContent = '删除';
+    deleteBtn.title = '删除选中的我的预设';
+
+    // 选项值: "builtin:<序号>" 或 "user:<名称>"
+    const refreshOptions = (selected: string = '') => {
+      const userPresets = PresetStore.load(this.sceneKey);
+      select.innerHTML = '';
+
+      const placeholder = document.createElement('option');
+      placeholder.value = '';
+      placeholder.textContent = builtIn.length || userPresets.length ? '选择预设...' : '暂无预设';
+      select.appendChild(placeholder);
+
+      type Item = { value: string; label: string; title?: string };
+      const addGroup = (title: string, items: Item[]) => {
+        if (items.length === 0) return;
+        const group = document.createElement('optgroup');
+        group.label = title;
+        items.forEach(item => {
+          const option = document.createElement('option');
+          option.value = item.value;
+          option.textContent = item.label;
+          if (item.title) option.title = item.title;
+          group.appendChild(option);
+        });
+        select.appendChild(group);
+      };
+
+      addGroup(
+        '内置预设',
+        builtIn.map((p: any, i: number) => ({
+          value: `builtin:${i}`,
+          label: p.name,
+          title: p.description,
+        }))
+      );
+      addGroup('我的预设', userPresets.map(p => ({ value: `user:${p.name}`, label: p.name })));
+
+      select.value = selected;
+      deleteBtn.disabled = !select.value.startsWith('user:');
+    };
+
+    select.onchange = () => {
+      const value = select.value;
+      deleteBtn.disabled = !value.startsWith('user:');
+      if (!value) return;
+
+      let preset = null;
+      if (value.startsWith('builtin:')) {
+        preset = builtIn[parseInt(value.slice('builtin:'.length))];
+      } else {
+        const name = value.slice('user:'.length);
+        preset = PresetStore.load(this.sceneKey).find(p => p.name === name);
+      }
+      if (preset) this.applyPreset(preset.params);
+    };
+
+    saveBtn.onclick = () => {
+      const name = window.prompt('预设名称:');
+      if (!name || !name.trim()) return;
+
+      // 只保存有对应控件的参数，恢复时可以逐项校验
+      const params: Record<string, any> = {};
+      this.config.forEach(item => {
+        if (item.type === 'action' || item.type === 'readout') return;
+        if (item.key && this.params[item.key] !== undefined) {
+          params[item.key] = this.params[item.key];
+        }
+      });
+
+      if (PresetStore.save(this.sceneKey, { name: name.trim(), params })) {
+        refreshOptions(`user:${name.trim()}`);
+      }
+    };
+
+    deleteBtn.onclick = () => {
+      if (!select.value.startsWith('user:')) return;
+      PresetStore.remove(this.sceneKey, select.value.slice('user:'.length));
+      refreshOptions();
+    };
+
+    refreshOptions();
+
+    wrapper.appendChild(label);
+    wrapper.appendChild(select);
+    wrapper.appendChild(saveBtn);
+    wrapper.appendChild(deleteBtn);
+    parent.appendChild(wrapper);
+  }
+
+  /**
+   * 把预设中的参数写入当前场景 (按控件配置校验)，刷新控件并重新开始模拟
+   * @param values 预设参数
+   */
+  applyPreset(values: Record<string, any>): void {
+    const scene = this.engine.currentScene;
+    if (!scene) return;
+
+    const applied = Permalink.apply(scene, this.config, values);
+    Object.keys(applied).forEach(key => {
+      this.emit('parameter-change', { key, value: applied[key] });
+    });
+    this.engine.resetTime();
+    this.refreshControls();
+  }
+
+  /**
+   * 添加"复制链接"按钮：把当前参数 (可选当前时间) 编码进 URL 并复制到剪贴板
+   */
+  addShareControls(parent: HTMLElement): void {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'share-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.fontSize = '0.85rem';
+
+    const copyBtn = document.createElement('button');
+    copyBtn.textContent = '复制链接';
+    copyBtn.title = '生成包含当前参数的分享链接';
+
+    const timeLabel = document.createElement('label');
+    timeLabel.style.display = 'flex';
+    timeLabel.style.alignItems = 'center';
+    timeLabel.style.gap = '0.2rem';
+    timeLabel.style.color = THEME.colors.ui.textSub;
+    timeLabel.style.cursor = 'pointer';
+
+    const timeCheckbox = document.createElement('input');
+    timeCheckbox.type = 'checkbox';
+    timeLabel.appendChild(timeCheckbox);
+    timeLabel.appendChild(document.createTextNode('含当前时间'));
+
+    copyBtn.onclick = async () => {
+      const time = timeCheckbox.checked ? this.engine.physicsTime : undefined;
+      const hash = Permalink.encode(this.sceneKey, this.params, this.config, time);
+      const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+
+      try {
+        await navigator.clipboard.writeText(url);
+        copyBtn.textContent = '已复制 ✓';
+        setTimeout(() => {
+          copyBtn.textContent = '复制链接';
+        }, 1500);
+      } catch (err) {
+        // 剪贴板不可用 (例如非安全上下文) 时让用户手动复制
+        window.prompt('复制以下链接:', url);
+      }
+    };
+
+    wrapper.appendChild(copyBtn);
+    wrapper.appendChild(timeLabel);
+    parent.appendChild(wrapper);
+  }
+
+  /**
+   * 添加数据记录控件：开始/停止记录、采样率、导出 CSV 与统计摘要表
+   */
+  addLoggerControls(parent: HTMLElement): void {
+    const logger = this.engine.logger;
+
+    const section = document.createElement('div');
+    section.className = 'logger-controls';
+    section.style.marginTop = '1rem';
+    section.style.paddingTop = '0.5rem';
+    section.style.borderTop = `1px solid ${THEME.colors.ui.border}`;
+    section.style.fontSize = '0.85rem';
+
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.alignItems = 'center';
+    row.style.flexWrap = 'wrap';
+    row.style.gap = '0.5rem';
+
+    const title = document.createElement('span');
+    title.textContent = '数据记录';
+    title.style.color = THEME.colors.ui.textSub;
+
+    const recordBtn = document.createElement('button');
+    const updateRecordBtn = () => {
+      recordBtn.textContent = logger.recording ? '停止记录' : '开始记录';
+      recordBtn.style.background = logger.recording ? '#cc0000' : '';
+    };
+
+    const rateSelect = document.createElement('select');
+    rateSelect.style.padding = '2px 5px';
+    rateSelect.style.background = THEME.colors.ui.inputBg;
+    rateSelect.style.color = THEME.colors.ui.textMain;
+    rateSelect.style.border = `1px solid ${THEME.colors.ui.border}`;
+    rateSelect.style.borderRadius = '3px';
+    rateSelect.title = '采样率';
+    [1, 5, 10, 30, 60].forEach(rate => {
+      const option = document.createElement('option');
+      option.value = String(rate);
+      option.textContent = `${rate} Hz`;
+      if (rate === logger.sampleRate) option.selected = true;
+      rateSelect.appendChild(option);
+    });
+    rateSelect.onchange = () => logger.setSampleRate(parseFloat(rateSelect.value));
+
+    const status = document.createElement('span');
+    status.style.fontFamily = 'monospace';
+    status.style.color = THEME.colors.ui.textSub;
+    this.loggerStatus = status;
+
+    const exportBtn = document.createElement('button');
+    exportBtn.textContent = '导出 CSV';
+    exportBtn.onclick = () => {
+      if (logger.length === 0) return;
+      const filename = timestampedFilename(`${this.sceneKey}-log`, 'csv');
+      downloadText(logger.toCSV(), filename, 'text/csv');
+    };
+
+    const summaryBtn = document.createElement('button');
+    summaryBtn.textContent = '统计';
+    summaryBtn.title = '显示每个通道的最小值、最大值、平均值与周期估计';
+
+    const clearBtn = document.createElement('button');
+    clearBtn.textContent = '清空';
+
+    const summary = document.createElement('div');
+    summary.style.marginTop = '0.5rem';
+    summary.style.overflowX = 'auto';
+    summary.style.display = 'none';
+
+    const renderSummary = () => {
+      summary.innerHTML = '';
+      const rows = logger.getSummary();
+      if (rows.length === 0) {
+        summary.textContent = '暂无数据';
+        return;
+      }
+
+      const format = (v: number | null) =>
+        v === null || !isFinite(v)
+          ? '—'
+          : Math.abs(v) >= 1e5
+            ? v.toExponential(3)
+            : v.toPrecision(4);
+
+      const table = document.createElement('table');
+      table.style.borderCollapse = 'collapse';
+      table.style.width = '100%';
+      table.style.fontFamily = 'monospace';
+
+      const addRow = (cells: string[], header: boolean) => {
+        const tr = document.createElement('tr');
+        cells.forEach((text, i) => {
+          const cell = document.createElement(header ? 'th' : 'td');
+          cell.textContent = text;
+          cell.style.padding = '2px 6px';
+          cell.style.borderBottom = `1px solid ${THEME.colors.ui.border}`;
+          cell.style.textAlign = i === 0 ? 'left' : 'right';
+          tr.appendChild(cell);
+        });
+        table.appendChild(tr);
+      };
+
+      addRow(['通道', '样本数', '最小值', '最大值', '平均值', '周期 (s)'], true);
+      rows.forEach(item => {
+        addRow(
+          [
+            item.name,
+            String(item.count),
+            format(item.min),
+            format(item.max),
+            format(item.mean),
+            format(item.period),
+          ],
+          false
+        );
+      });
+      summary.appendChild(table);
+    };
+
+    recordBtn.onclick = () => {
+      if (logger.recording) {
+        logger.stop();
+        // 停止后自动展示统计结果
+        renderSummary();
+        summary.style.display = 'block';
+      } else {
+        logger.start();
+      }
+      updateRecordBtn();
+    };
+
+    summaryBtn.onclick = () => {
+      const visible = summary.style.display !== 'none';
+      if (!visible) renderSummary();
+      summary.style.display = visible ? 'none' : 'block';
+    };
+
+    clearBtn.onclick = () => {
+      logger.clear();
+      summary.innerHTML = '';
+      summary.style.display = 'none';
+      this.updateLoggerStatus();
+    };
+
+    updateRecordBtn();
+    this.updateLoggerStatus();
+
+    row.appendChild(title);
+    row.appendChild(recordBtn);
+    row.appendChild(rateSelect);
+    row.appendChild(status);
+    row.appendChild(exportBtn);
+    row.appendChild(summaryBtn);
+    row.appendChild(clearBtn);
+    section.appendChild(row);
+    section.appendChild(summary);
+    parent.appendChild(section);
+  }
+
+  /**
+   * 同步数据记录的状态文字
+   */
+  updateLoggerStatus(): void {
+    if (!this.loggerStatus) return;
+    const logger = this.engine.logger;
+    const samples = logger.getSamples();
+    const duration = samples.length > 1 ? samples[samples.length - 1]!.t - samples[0]!.t : 0;
+    this.loggerStatus.textContent = `${samples.length} 个样本 / ${duration.toFixed(1)} s`;
+  }
+
+  /**
+   * 添加导出区域：视频 (选择分辨率、帧率与时长，逐帧推进模拟录制 WebM，录制中可取消)
+   * 与截图 (按缩放倍数重新绘制当前画面为 PNG，2D 场景还可导出 SVG 矢量图)。
+   * 勾选"组合画面"时视频与 PNG 截图包含选中的图表、公式与图例。
+   */
+  addVideoExportControls(parent: HTMLElement): void {
+    const exporter = this.videoExporter;
+
+    const section = document.createElement('div');
+    section.className = 'video-export-controls';
+    section.style.marginTop = '1rem';
+    section.style.paddingTop = '0.5rem';
+    section.style.borderTop = `1px solid ${THEME.colors.ui.border}`;
+    section.style.fontSize = '0.85rem';
+
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.alignItems = 'center';
+    row.style.flexWrap = 'wrap';
+    row.style.gap = '0.5rem';
+
+    const title = document.createElement('span');
+    title.textContent = '视频';
+    title.style.color = THEME.colors.ui.textSub;
+
+    const inputStyle = (el: HTMLElement) => {
+      el.style.padding = '2px 5px';
+      el.style.background = THEME.colors.ui.inputBg;
+      el.style.color = THEME.colors.ui.textMain;
+      el.style.border = `1px solid ${THEME.colors.ui.border}`;
+      el.style.borderRadius = '3px';
+    };
+
+    // 分辨率按输出高度选择，宽度保持模拟画布的宽高比；0 表示画布原始尺寸
+    const resolutionSelect = document.createElement('select');
+    inputStyle(resolutionSelect);
+    resolutionSelect.title = '分辨率';
+    [
+      { value: 0, label: '原始尺寸' },
+      { value: 720, label: '720p' },
+      { value: 1080, label: '1080p' },
+      { value: 1440, label: '1440p' },
+      { value: 2160, label: '4K' },
+    ].forEach(item => {
+      const option = document.createElement('option');
+      option.value = String(item.value);
+      option.textContent = item.label;
+      if (item.value === 1080) option.selected = true;
+      resolutionSelect.appendChild(option);
+    });
+
+    const fpsSelect = document.createElement('select');
+    inputStyle(fpsSelect);
+    fpsSelect.title = '帧率';
+    [24, 30, 60].forEach(fps => {
+      const option = document.createElement('option');
+      option.value = String(fps);
+      option.textContent = `${fps} fps`;
+      if (fps === 30) option.selected = true;
+      fpsSelect.appendChild(option);
+    });
+
+    // 默认时长取场景建议的录制时长 (例如一个周期)
+    const durationInput = document.createElement('input');
+    durationInput.type = 'number';
+    durationInput.min = '0.5';
+    durationInput.max = '120';
+    durationInput.step = '0.5';
+    durationInput.style.width = '4rem';
+    durationInput.title = '录制的物理时长 (s)';
+    inputStyle(durationInput);
+    const scene = this.engine.currentScene;
+    const suggested = scene && scene.getRecordingDuration ? scene.getRecordingDuration() : null;
+    durationInput.value = String(suggested ? Number(suggested.toFixed(1)) : 10);
+
+    const durationLabel = document.createElement('span');
+    durationLabel.textContent = 's';
+    durationLabel.style.color = THEME.colors.ui.textSub;
+
+    const restartLabel = document.createElement('label');
+    restartLabel.style.display = 'flex';
+    restartLabel.style.alignItems = 'center';
+    restartLabel.style.gap = '0.2rem';
+    restartLabel.style.cursor = 'pointer';
+    const restartInput = document.createElement('input');
+    restartInput.type = 'checkbox';
+    restartInput.checked = true;
+    restartLabel.appendChild(restartInput);
+    restartLabel.appendChild(document.createTextNode('从头录制'));
+
+    const exportBtn = document.createElement('button');
+    const idleText = '导出 WebM';
+    exportBtn.textContent = idleText;
+
+    const resetBtn = () => {
+      exportBtn.textContent = idleText;
+      exportBtn.style.background = '';
+    };
+
+    // 截图按场景逻辑尺寸的倍数重新绘制 (不受窗口大小与 devicePixelRatio 影响)
+    const snapshotRow = document.createElement('div');
+    snapshotRow.style.display = 'flex';
+    snapshotRow.style.alignItems = 'center';
+    snapshotRow.style.flexWrap = 'wrap';
+    snapshotRow.style.gap = '0.5rem';
+    snapshotRow.style.marginTop = '0.5rem';
+
+    const snapshotTitle = document.createElement('span');
+    snapshotTitle.textContent = '截图';
+    snapshotTitle.style.color = THEME.colors.ui.textSub;
+
+    const scaleSelect = document.createElement('select');
+    inputStyle(scaleSelect);
+    scaleSelect.title = '缩放倍数 (相对画面的逻辑尺寸)';
+    [1, 2, 3, 4, 6, 8].forEach(scale => {
+      const option = document.createElement('option');
+      option.value = String(scale);
+      option.textContent = `${scale}×`;
+      if (scale === 4) option.selected = true;
+      scaleSelect.appendChild(option);
+    });
+
+    const snapshotBtn = document.createElement('button');
+    snapshotBtn.textContent = 'PNG';
+    snapshotBtn.title = '按所选倍数重新绘制当前画面';
+
+    const svgBtn = document.createElement('button');
+    svgBtn.textContent = 'SVG';
+    svgBtn.title = '导出当前画面的矢量图 (仅 2D 场景)';
+    svgBtn.disabled = this.engine.renderer.getType() !== 'canvas2d';
+
+    // 组合画面选项：图表逐个勾选，公式与图例各一个开关
+    const composite = this.composite;
+    const compositeInput = document.createElement('input');
+    compositeInput.type = 'checkbox';
+    const compositeOptions = document.createElement('div');
+    compositeOptions.style.display = 'none';
+    compositeOptions.style.flexWrap = 'wrap';
+    compositeOptions.style.gap = '0.5rem';
+    compositeOptions.style.marginTop = '0.5rem';
+
+    const createCheckbox = (text: string, checked: boolean, onChange: (v: boolean) => void) => {
+      const label = document.createElement('label');
+      label.style.display = 'flex';
+      label.style.alignItems = 'center';
+      label.style.gap = '0.2rem';
+      label.style.cursor = 'pointer';
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.checked = checked;
+      input.onchange = () => onChange(input.checked);
+      label.appendChild(input);
+      label.appendChild(document.createTextNode(text));
+      return label;
+    };
+
+    // 按当前图表面板重建选项 (默认全部选中)
+    const renderCompositeOptions = () => {
+      if (!composite) return;
+      compositeOptions.innerHTML = '';
+      const options = composite.options;
+      const panels = composite.getChartPanels();
+      options.charts = panels.map(panel => panel.id);
+      panels.forEach(panel => {
+        compositeOptions.appendChild(
+          createCheckbox(panel.label, true, checked => {
+            options.charts = checked
+              ? [...options.charts, panel.id]
+              : options.charts.filter(id => id !== panel.id);
+          })
+        );
+      });
+      compositeOptions.appendChild(
+        createCheckbox('公式', options.formulas, checked => (options.formulas = checked))
+      );
+      compositeOptions.appendChild(
+        createCheckbox('图例', options.legend, checked => (options.legend = checked))
+      );
+    };
+
+    compositeInput.onchange = () => {
+      if (compositeInput.checked) renderCompositeOptions();
+      compositeOptions.style.display = compositeInput.checked ? 'flex' : 'none';
+    };
+
+    const useComposite = () => !!composite && compositeInput.checked;
+
+    // 视频尺寸：组合画面为 16:9，否则保持模拟画布的宽高比；编码器要求宽高为偶数
+    const getOutputSize = () => {
+      const canvas = this.engine.canvas;
+      const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+      const height = even(parseInt(resolutionSelect.value) || canvas.height);
+      const aspect = useComposite() ? 16 / 9 : canvas.width / canvas.height;
+      return { width: even(height * aspect), height };
+    };
+
+    // 截图尺寸：逻辑尺寸 × 缩放倍数 (组合画面保持高度，宽度为 16:9)，超出浏览器画布上限时缩小倍数
+    const getSnapshotSize = () => {
+      const view = this.offlineRenderer.getViewSize();
+      const baseWidth = useComposite() ? (view.height * 16) / 9 : view.width;
+      const limit = Math.min(
+        MAX_SNAPSHOT_SIDE / Math.max(baseWidth, view.height),
+        Math.sqrt(MAX_SNAPSHOT_PIXELS / (baseWidth * view.height))
+      );
+      const scale = Math.min(parseInt(scaleSelect.value) || 1, limit);
+      return { width: Math.floor(baseWidth * scale), height: Math.floor(view.height * scale) };
+    };
+
+    // 每帧的绘制方式 (组合画面先把公式转换为图像)
+    const prepareDraw = async (height: number) => {
+      if (!useComposite()) return undefined;
+      await composite!.prepare(Math.max(2, height / 540));
+      return (ctx: CanvasRenderingContext2D, w: number, h: number) =>
+        composite!.draw(ctx, w, h, (c, cw, ch) => this.offlineRenderer.drawFrame(c, cw, ch));
+    };
+
+    exporter.onProgress = progress => {
+      const p = Math.round(progress * 100);
+      exportBtn.textContent = `取消 (${p}%)`;
+      exportBtn.style.background = `linear-gradient(to right, #cc0000 ${p}%, #444 ${p}%)`;
+    };
+
+    exportBtn.onclick = async () => {
+      if (exporter.exporting) {
+        exporter.cancel();
+        return;
+      }
+
+      const duration = Math.min(parseFloat(durationInput.value), 120);
+      if (!(duration > 0)) return;
+
+      const { width, height } = getOutputSize();
+      try {
+        const draw = await prepareDraw(height);
+        const blob = await exporter.export({
+          duration,
+          fps: parseInt(fpsSelect.value),
+          width,
+          height,
+          restart: restartInput.checked,
+          ...(draw ? { draw } : {}),
+        });
+        if (blob) downloadBlob(blob, timestampedFilename(this.sceneKey, 'webm'));
+      } catch (e) {
+        console.error('Video export failed:', e);
+        alert(`视频导出失败：${e instanceof Error ? e.message : e}`);
+      } finally {
+        resetBtn();
+        // 导出结束后模拟保持暂停
+        if (this.pauseBtn) this.pauseBtn.textContent = 'Resume';
+      }
+    };
+
+    snapshotBtn.onclick = async () => {
+      if (!this.engine.currentScene || exporter.exporting) return;
+      const { width, height } = getSnapshotSize();
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error(`无法创建 ${width}×${height} 的画布`);
+
+        const draw = await prepareDraw(height);
+        if (draw) draw(ctx, width, height);
+        else this.offlineRenderer.drawFrame(ctx, width, height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error(`无法编码 ${width}×${height} 的 PNG，请选择较小的倍数`);
+        downloadBlob(blob, timestampedFilename(this.sceneKey, 'png'));
+      } catch (e) {
+        console.error('Snapshot export failed:', e);
+        alert(`截图导出失败：${e instanceof Error ? e.message : e}`);
+      }
+    };
+
+    svgBtn.onclick = () => {
+      if (exporter.exporting) return;
+      const svg = this.offlineRenderer.renderSvg();
+      if (svg) downloadText(svg, timestampedFilename(this.sceneKey, 'svg'), 'image/svg+xml');
+    };
+
+    row.appendChild(title);
+    if (VideoExporter.isSupported()) {
+      row.appendChild(resolutionSelect);
+      row.appendChild(fpsSelect);
+      row.appendChild(durationInput);
+      row.appendChild(durationLabel);
+      row.appendChild(restartLabel);
+      row.appendChild(exportBtn);
+    } else {
+      const note = document.createElement('span');
+      note.textContent = '当前浏览器不支持画布录制';
+      note.style.color = THEME.colors.ui.textSub;
+      row.appendChild(note);
+    }
+    snapshotRow.appendChild(snapshotTitle);
+    snapshotRow.appendChild(scaleSelect);
+    snapshotRow.appendChild(snapshotBtn);
+    snapshotRow.appendChild(svgBtn);
+    if (composite) {
+      const compositeLabel = document.createElement('label');
+      compositeLabel.style.display = 'flex';
+      compositeLabel.style.alignItems = 'center';
+      compositeLabel.style.gap = '0.2rem';
+      compositeLabel.style.cursor = 'pointer';
+      compositeLabel.title = '把选中的图表、公式与图例与模拟画面排版到同一画面 (16:9)';
+      compositeLabel.appendChild(compositeInput);
+      compositeLabel.appendChild(document.createTextNode('组合画面'));
+      snapshotRow.appendChild(compositeLabel);
+    }
+    section.appendChild(row);
+    section.appendChild(snapshotRow);
+    section.appendChild(compositeOptions);
+    parent.appendChild(section);
+  }
+
+  /**
+   * 添加时间线滑块：拖动时暂停模拟并回溯到历史中的任意时刻，
+   * 点击 Resume 后从该时刻继续运行 (之后的历史被丢弃)。
+   */
+  addTimelineControls(parent: HTMLElement): void {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'timeline-controls';
+    wrapper.style.display = 'flex';
+    wrapper.style.alignItems = 'center';
+    wrapper.style.gap = '0.5rem';
+    wrapper.style.fontSize = '0.85rem';
+    wrapper.style.flex = '1 1 100%';
+
+    const title = document.createElement('span');
+    title.textContent = '时间线';
+    title.style.color = THEME.colors.ui.textSub;
+
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.min = '0';
+    input.max = '0';
+    input.step = String(1 / 60);
+    input.value = '0';
+    input.style.flex = '1';
+    input.title = '拖动以回溯到之前的时刻 (会暂停模拟)';
+
+    const label = document.createElement('span');
+    label.style.fontFamily = 'monospace';
+    label.style.minWidth = '6rem';
+    label.style.textAlign = 'right';
+
+    input.oninput = () => {
+      if (this.engine.running) {
+        this.engine.pause();
+        if (this.pauseBtn) this.pauseBtn.textContent = 'Resume';
+      }
+      this.engine.seek(parseFloat(input.value));
+    };
+
+    this.timelineInput = input;
+    this.timelineLabel = label;
+    this.updateTimeline();
+
+    wrapper.appendChild(title);
+    wrapper.appendChild(input);
+    wrapper.appendChild(label);
+    parent.appendChild(wrapper);
+  }
+
+  /**
+   * 根据引擎的历史范围与当前物理时间同步时间线滑块
+   */
+  updateTimeline(): void {
+    if (!this.timelineInput || !this.timelineLabel) return;
+
+    const start = this.engine.history.startTime ?? 0;
+    const end = Math.max(this.engine.timelineEnd, start);
+    this.timelineInput.min = String(start);
+    this.timelineInput.max = String(end);
+    this.timelineInput.disabled = end <= start;
+    // 拖动过程中不覆盖用户正在操作的值
+    if (document.activeElement !== this.timelineInput) {
+      this.timelineInput.value = String(this.engine.physicsTime);
+    }
+    this.timelineLabel.textContent = `${this.engine.physicsTime.toFixed(2)} / ${end.toFixed(2)} s`;
+  }
+
   async recordGif(duration: number, btn: HTMLButtonElement): Promise<void> {
     if (!window.GIF) {
       alert('GIF library not loaded. Please check internet connection.');
@@ -362,28 +1448,12 @@ export class ControlPanel extends EventBus {
       btn.style.background = `linear-gradient(to right, #cc0000 ${p}%, #444 ${p}%)`;
     };
 
-    // Reset simulation
-    this.engine.resetTime();
-    if (this.engine.currentScene && this.engine.currentScene.resetSimulation) {
-      this.engine.currentScene.resetSimulation();
-    }
-
-    // Force render initial state (t=0)
-    this.engine.ctx.save();
-    this.engine.ctx.setTransform(1, 0, 0, 1, 0, 0);
-    this.engine.ctx.clearRect(0, 0, canvas.width, canvas.height);
-    this.engine.ctx.restore();
-    if (this.engine.currentScene) {
-      this.engine.currentScene.render(this.engine.ctx);
-    }
-
-    if (!this.engine.running) this.engine.start();
+    // 输出尺寸取画布的逻辑尺寸 (与 devicePixelRatio 无关)
+    const scene = this.engine.currentScene;
+    const width = Math.round((scene && scene.width) || canvas.clientWidth);
+    const height = Math.round((scene && scene.height) || canvas.clientHeight);
 
     // Configure GIF encoder
-    const scale = 1.0;
-    const width = canvas.width * scale;
-    const height = canvas.height * scale;
-
     const gif = new window.GIF({
       workers: 2,
       quality: 1,
@@ -404,20 +1474,15 @@ export class ControlPanel extends EventBus {
     const captureInterval = duration / targetFrames; // e.g. 2000ms / 20 = 100ms
     const gifDelay = captureInterval / playbackSpeedup; // e.g. 100ms / 1.5 = 66ms
 
-    const totalFrames = targetFrames;
-    let frameCount = 0;
-
     console.log(
       `Starting GIF recording: ${duration.toFixed(0)}ms, ${targetFrames} frames, interval ${captureInterval.toFixed(0)}ms`
     );
 
-    // Create temp canvas
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    const tempCtx = tempCanvas.getContext('2d');
-    tempCtx.imageSmoothingEnabled = true;
-    tempCtx.imageSmoothingQuality = 'high';
+    // 离线渲染的帧画布
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+    const frameCtx = frameCanvas.getContext('2d');
 
     // Encoding progress
     gif.on('progress', p => {
@@ -459,35 +1524,35 @@ export class ControlPanel extends EventBus {
       URL.revokeObjectURL(url);
     };
 
-    const capture = () => {
-      if (frameCount >= totalFrames) {
-        clearInterval(captureFrame);
-        console.log('Recording finished, encoding...');
-        updateBtn(0, 'Encoding...'); // Reset bar for encoding phase
-        gif.render();
-        return;
+    // 离线逐帧渲染：从头开始，每帧推进 captureInterval 对应的物理步数后同步绘制，
+    // 不启动实时循环，因此输出与掉帧、标签页节流无关
+    const completed = await this.offlineRenderer.render(
+      frameCanvas,
+      { duration: duration / 1000, fps: recordingFps, restart: true },
+      frame => {
+        updateBtn(frame.index / frame.total, 'Recording...');
+        gif.addFrame(frameCtx, {
+          copy: true,
+          delay: gifDelay,
+          dispose: 2,
+        });
       }
+    );
+    if (this.pauseBtn) this.pauseBtn.textContent = 'Resume';
 
-      // Update UI for recording
-      const recProgress = frameCount / totalFrames;
-      updateBtn(recProgress, 'Recording...');
-
-      tempCtx.fillStyle = '#000000';
-      tempCtx.fillRect(0, 0, width, height);
-      tempCtx.drawImage(canvas, 0, 0, width, height);
-
-      gif.addFrame(tempCtx, {
-        copy: true,
-        delay: gifDelay,
-        dispose: 2,
-      });
-
-      frameCount++;
-    };
+    if (!completed) {
+      if (btn) {
+        btn.textContent = originalText;
+        btn.style.background = originalBackground;
+        btn.style.width = '';
+        btn.disabled = false;
+      }
+      return;
+    }
 
-    // Capture first frame immediately
-    capture();
-    const captureFrame = setInterval(capture, captureInterval);
+    console.log('Recording finished, encoding...');
+    updateBtn(0, 'Encoding...'); // Reset bar for encoding phase
+    gif.render();
   }
 
   async recordCanvas(duration: number): Promise<void> {
@@ -663,6 +1728,12 @@ export class ControlPanel extends EventBus {
       }
     };
 
+    // 参数被外部修改 (例如应用预设、在画布上拖动物体) 时同步控件显示
+    this.bindControl(params, config.key, value => {
+      input.value = value;
+      valSpan.textContent = value.toFixed(2);
+    });
+
     parent.appendChild(label);
     parent.appendChild(valSpan);
     parent.appendChild(input);
@@ -686,6 +1757,10 @@ export class ControlPanel extends EventBus {
       if (config.onChange) config.onChange(e.target.checked);
     };
 
+    this.bindControl(params, config.key, value => {
+      input.checked = value;
+    });
+
     label.appendChild(input);
     label.appendChild(document.createTextNode(config.label));
     parent.appendChild(label);
@@ -714,6 +1789,10 @@ export class ControlPanel extends EventBus {
       if (config.onChange) config.onChange(e.target.value);
     };
 
+    this.bindControl(params, config.key, value => {
+      input.value = value;
+    });
+
     parent.appendChild(label);
     parent.appendChild(input);
   }
@@ -751,6 +1830,10 @@ export class ControlPanel extends EventBus {
       if (config.onChange) config.onChange(val);
     };
 
+    this.bindControl(params, config.key, value => {
+      select.value = String(value);
+    });
+
     parent.appendChild(label);
     parent.appendChild(select);
   }
@@ -761,4 +1844,39 @@ export class ControlPanel extends EventBus {
     btn.onclick = config.onClick;
     parent.appendChild(btn);
   }
+
+  /**
+   * 只读数值：显示场景的派生量 (getValue 返回 null 时显示 "—")
+   */
+  createReadoutControl(parent: HTMLElement, config: ControlConfig): void {
+    const label = document.createElement('label');
+    label.textContent = `${config.label}: `;
+    label.style.fontSize = '0.9rem';
+    label.style.minWidth = '120px';
+
+    const valSpan = document.createElement('span');
+    valSpan.style.fontFamily = 'monospace';
+    valSpan.style.color = THEME.colors.ui.textSub;
+
+    const format = (): string => {
+      const value = config.getValue ? config.getValue() : null;
+      // 无值或无意义 (NaN) 时显示 "—"，无穷大保留符号
+      if (value === null || value === undefined || Number.isNaN(value)) return '—';
+      let text = String(value);
+      if (typeof value === 'number') {
+        text = isFinite(value) ? value.toFixed(config.precision ?? 2) : value > 0 ? '∞' : '-∞';
+      }
+      return config.unit ? `${text} ${config.unit}` : text;
+    };
+
+    // 派生量随模拟变化，每次刷新都重新读取 (文字不变时不改动 DOM)
+    valSpan.textContent = format();
+    this.controls.set(config.key, () => {
+      const text = format();
+      if (valSpan.textContent !== text) valSpan.textContent = text;
+    });
+
+    parent.appendChild(label);
+    parent.appendChild(valSpan);
+  }
 }
@@ -0,0 +1,160 @@
+import { THEME } from '../config.ts';
+import { EnergyBreakdown } from '../core/Scene.ts';
+
+// 类型定义
+interface EnergyBar {
+  label: string;
+  value: number;
+  color: string;
+}
+
+/**
+ * 能量面板
+ * 以柱状图实时显示场景报告的能量分解：动能、重力势能、弹性势能、耗散功及其总和。
+ * 总和保持不变说明能量守恒；有阻尼或碰撞时，机械能逐渐转化为耗散功。
+ */
+export class EnergyPanel {
+  private container: HTMLElement | null;
+  private canvas: HTMLCanvasElement | null;
+  private ctx: CanvasRenderingContext2D | null;
+
+  /**
+   * @param {string} containerId - 面板容器的 ID
+   */
+  constructor(containerId: string) {
+    this.container = document.getElementById(containerId);
+    this.canvas = null;
+    this.ctx = null;
+
+    if (!this.container) {
+      console.warn(`Energy container #${containerId} not found`);
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 400;
+    canvas.height = 150;
+    canvas.style.width = '100%';
+    this.container.appendChild(canvas);
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d');
+  }
+
+  /**
+   * 刷新面板；场景不报告能量时隐藏面板
+   * @param {EnergyBreakdown | null} energy - 场景的 getEnergyBreakdown() 结果
+   */
+  update(energy: EnergyBreakdown | null): void {
+    if (!this.container) return;
+
+    if (!energy) {
+      this.container.style.display = 'none';
+      return;
+    }
+
+    this.container.style.display = '';
+    this.draw(energy);
+  }
+
+  /**
+   * 按能量分解生成柱子 (场景未报告的分量不显示)
+   */
+  private getBars(energy: EnergyBreakdown): EnergyBar[] {
+    const bars: EnergyBar[] = [
+      { label: '动能', value: energy.kinetic, color: THEME.colors.vectors.velocity },
+    ];
+    if (energy.gravitational !== undefined) {
+      bars.push({
+        label: '重力势能',
+        value: energy.gravitational,
+        color: THEME.colors.vectors.gravity,
+      });
+    }
+    if (energy.elastic !== undefined) {
+      bars.push({ label: '弹性势能', value: energy.elastic, color: THEME.colors.vectors.force });
+    }
+    if (energy.dissipated !== undefined) {
+      bars.push({ label: '耗散', value: energy.dissipated, color: THEME.colors.vectors.damping });
+    }
+
+    const total = bars.reduce((sum, bar) => sum + bar.value, 0);
+    bars.push({ label: '总和', value: total, color: THEME.colors.ui.textMain });
+    return bars;
+  }
+
+  /**
+   * 数值格式化 (过大或过小时使用科学计数法)
+   */
+  private format(value: number): string {
+    const abs = Math.abs(value);
+    if (abs !== 0 && (abs >= 1e4 || abs < 1e-2)) return value.toExponential(2);
+    return value.toFixed(2);
+  }
+
+  private draw(energy: EnergyBreakdown): void {
+    if (!this.ctx) return;
+    const ctx = this.ctx;
+    const { width, height } = this.canvas!;
+    ctx.clearRect(0, 0, width, height);
+
+    const bars = this.getBars(energy);
+    const unit = energy.unit ? ` ${energy.unit}` : '';
+
+    // 顶部说明：机械能与耗散比例
+    const mechanical = energy.kinetic + (energy.gravitational ?? 0) + (energy.elastic ?? 0);
+    const dissipated = energy.dissipated ?? 0;
+    let summary = `机械能 ${this.format(mechanical)}${unit}`;
+    if (energy.dissipated !== undefined && mechanical + dissipated !== 0) {
+      const percent = (dissipated / Math.abs(mechanical + dissipated)) * 100;
+      summary += `，已耗散 ${percent.toFixed(1)}%`;
+    }
+    ctx.fillStyle = THEME.colors.ui.textMain;
+    ctx.font = THEME.fonts.label;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(summary, 5, 5);
+
+    // 绘图区域 (上方留出说明，下方留出分量名称；有负值时再留出负值标注)
+    const hasNegative = bars.some(bar => bar.value < 0);
+    const top = 35;
+    const bottom = height - (hasNegative ? 32 : 20);
+    const maxAbs = Math.max(1e-9, ...bars.map(bar => Math.abs(bar.value)));
+    // 有负值 (如引力势能) 时零线居中
+    const zeroY = hasNegative ? (top + bottom) / 2 : bottom;
+    const scale = (hasNegative ? (bottom - top) / 2 : bottom - top) / maxAbs;
+
+    const slot = width / bars.length;
+    const barWidth = slot * 0.5;
+
+    bars.forEach((bar, i) => {
+      const x = slot * i + (slot - barWidth) / 2;
+      const barHeight = bar.value * scale;
+
+      ctx.fillStyle = bar.color;
+      ctx.fillRect(x, zeroY - Math.max(barHeight, 0), barWidth, Math.abs(barHeight));
+
+      // 数值
+      ctx.fillStyle = THEME.colors.chart.text;
+      ctx.font = '10px system-ui';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = bar.value >= 0 ? 'bottom' : 'top';
+      ctx.fillText(
+        this.format(bar.value),
+        x + barWidth / 2,
+        zeroY - barHeight - (bar.value >= 0 ? 2 : -2)
+      );
+
+      // 名称
+      ctx.textBaseline = 'top';
+      ctx.fillText(bar.label, x + barWidth / 2, height - 15);
+    });
+
+    // 零线
+    ctx.strokeStyle = THEME.colors.chart.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, zeroY);
+    ctx.lineTo(width, zeroY);
+    ctx.stroke();
+  }
+}
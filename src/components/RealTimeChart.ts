@@ -1,20 +1,75 @@
 import { THEME } from '../config.ts';
+import { buildCSV, downloadText, timestampedFilename } from '../utils/download.ts';
 
 interface DataPoint {
   t: number;
   values: number[];
 }
 
+/**
+ * 图表模式：'time' 为数值-时间曲线；'xy' 为相图/参数轨迹，每个系列对应一对 [x, y]
+ */
+export type ChartMode = 'time' | 'xy';
+
+/**
+ * Y 轴缩放模式：'grow' 按历史最大绝对值只增不减；'fit' 适应当前可见数据 (可缩小)；'manual' 由滚轮/拖动手动设定
+ */
+export type YScaleMode = 'grow' | 'fit' | 'manual';
+
+const Y_SCALE_LABELS: Record<YScaleMode, string> = {
+  grow: 'Y: 自动',
+  fit: 'Y: 适应可见',
+  manual: 'Y: 手动',
+};
+
+// 绘图区占画布高度的比例 (上下各留 5% 边距)
+const PLOT_MARGIN = 0.05;
+
+interface TimeView {
+  tStart: number;
+  tEnd: number;
+  yMin: number;
+  yMax: number;
+  // 最早/最新的可见数据时间 (平移范围)
+  oldestT: number;
+  newestT: number;
+}
+
+/**
+ * 导出的图表数据 (JSON 格式)
+ */
+export interface ChartExport {
+  mode: ChartMode;
+  label: string;
+  unit: string;
+  // XY 模式的 X 轴标签与单位
+  xLabel?: string;
+  xUnit?: string;
+  series: string[];
+  points: DataPoint[];
+}
+
 /**
  * 使用环形缓冲区（Ring Buffer）实现的实时图表组件。
  * 自动处理渲染，确保坐标轴和标签始终可见。
+ * XY 模式下每个系列的数据为交错的 [x0, y0, x1, y1, ...]，绘制为随时间淡出的轨迹。
  */
 export class RealTimeChart {
   private canvas: HTMLCanvasElement | null;
   private ctx: CanvasRenderingContext2D | null;
   private label: string;
+  private unit: string;
   private colors: string[];
   private seriesNames: string[];
+  private mode: ChartMode;
+
+  // XY 模式的 X 轴标签与单位
+  private xLabel: string;
+  private xUnit: string;
+  // XY 模式的轨迹保留时长 (秒)，越早的点越透明
+  private trailSec: number;
+  // XY 模式下两轴使用相同比例 (轨道等几何轨迹不变形)
+  private equalScale: boolean;
 
   // 环形缓冲区
   private capacity: number;
@@ -27,19 +82,50 @@ export class RealTimeChart {
 
   // 记录历史最大绝对值，用于 Y 轴缩放 (只增不减，保持视觉稳定性)
   private maxAbs: number;
+  // XY 模式下 X 轴的历史最大绝对值
+  private maxAbsX: number;
+
+  // 回放位置 (时间回溯时只显示该时刻之前的数据，null 表示显示全部)
+  private playhead: number | null;
+
+  // 图表与导出按钮的外层容器 (由 createToolbar 创建)
+  private wrapper: HTMLElement | null;
+
+  // 视图控制：滚轮缩放、拖动平移
+  // 由 setTimeWindow 设定的时间窗口，双击复位时恢复
+  private baseWindowSec: number;
+  // 视图右端时间，null 表示跟随最新数据；平移到历史后视图冻结，不再随新数据滚动
+  private viewEnd: number | null;
+  private yScaleMode: YScaleMode;
+  // 手动模式下的 Y 轴范围
+  private yRange: { min: number; max: number } | null;
+  private yModeSelect: HTMLSelectElement | null;
+  // 十字光标所在的画布 X 坐标 (null 表示不显示)
+  private cursorX: number | null;
+  // 拖动起点 (画布坐标与当时的视图)
+  private drag: { x: number; y: number; view: TimeView } | null;
+  // 最近一次绘制的视图，用于把鼠标位置换算为时间和数值
+  private lastView: TimeView | null;
 
   /**
-   * @param {string} canvasId - Canvas 元素的 ID
+   * @param {string | HTMLCanvasElement} canvas - Canvas 元素或其 ID
    * @param {string} label - Y 轴标签
    * @param {string[]} colors - 每个数据系列的颜色数组
    * @param {number} capacity - 保留的最大数据点数量（默认 3600，即 60fps 下的 60秒）
    */
-  constructor(canvasId: string, label: string, colors: string[] = THEME.colors.chart.series, capacity: number = 3600) {
-    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+  constructor(canvas: string | HTMLCanvasElement, label: string, colors: string[] = THEME.colors.chart.series, capacity: number = 3600) {
+    this.canvas = typeof canvas === 'string' ? (document.getElementById(canvas) as HTMLCanvasElement) : canvas;
     this.ctx = this.canvas ? this.canvas.getContext('2d') : null;
     this.label = label;
+    this.unit = '';
+    this.wrapper = null;
     this.colors = colors;
     this.seriesNames = [];
+    this.mode = 'time';
+    this.xLabel = '';
+    this.xUnit = '';
+    this.trailSec = 10;
+    this.equalScale = false;
 
     // 环形缓冲区
     this.capacity = capacity;
@@ -49,18 +135,91 @@ export class RealTimeChart {
 
     // 时间窗口大小 (秒)
     this.windowSec = 30;
+    this.baseWindowSec = 30;
+    this.viewEnd = null;
+    this.yScaleMode = 'grow';
+    this.yRange = null;
+    this.yModeSelect = null;
+    this.cursorX = null;
+    this.drag = null;
+    this.lastView = null;
 
     // 记录历史最大绝对值，用于 Y 轴缩放 (只增不减，保持视觉稳定性)
     this.maxAbs = 0.1;
+    this.maxAbsX = 0.1;
+
+    this.playhead = null;
 
     if (!this.canvas) {
-      console.warn(`Chart canvas #${canvasId} not found`);
+      console.warn(`Chart canvas #${canvas} not found`);
     } else {
+      this.createToolbar();
+      this.attachInteractions();
       // 初始绘制
       this.draw();
     }
   }
 
+  /**
+   * 在图表下方添加导出按钮
+   */
+  private createToolbar(): void {
+    const canvas = this.canvas!;
+    const parent = canvas.parentNode;
+    if (!parent) return;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'chart-wrapper';
+    wrapper.style.width = '100%';
+    parent.insertBefore(wrapper, canvas);
+    wrapper.appendChild(canvas);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'chart-toolbar';
+    toolbar.style.display = 'flex';
+    toolbar.style.justifyContent = 'flex-end';
+    toolbar.style.gap = '0.3rem';
+    toolbar.style.marginTop = '-0.3rem';
+    toolbar.style.marginBottom = '0.3rem';
+
+    // Y 轴缩放模式
+    const yModeSelect = document.createElement('select');
+    yModeSelect.title = 'Y 轴缩放模式 (Shift+滚轮缩放 Y 轴会切换为手动)';
+    yModeSelect.style.fontSize = '0.7rem';
+    (Object.keys(Y_SCALE_LABELS) as YScaleMode[]).forEach(mode => {
+      const option = document.createElement('option');
+      option.value = mode;
+      option.textContent = Y_SCALE_LABELS[mode];
+      yModeSelect.appendChild(option);
+    });
+    yModeSelect.value = this.yScaleMode;
+    yModeSelect.onchange = () => this.setYScaleMode(yModeSelect.value as YScaleMode);
+    toolbar.appendChild(yModeSelect);
+    this.yModeSelect = yModeSelect;
+
+    (['csv', 'json'] as const).forEach(format => {
+      const btn = document.createElement('button');
+      btn.textContent = `⬇ ${format.toUpperCase()}`;
+      btn.title = `导出图表数据为 ${format.toUpperCase()}`;
+      btn.style.fontSize = '0.7rem';
+      btn.style.padding = '0.1rem 0.4rem';
+      btn.onclick = () => this.download(format);
+      toolbar.appendChild(btn);
+    });
+
+    wrapper.appendChild(toolbar);
+    this.wrapper = wrapper;
+  }
+
+  /**
+   * 从页面中移除图表 (动态创建的图表面板被替换时调用)
+   */
+  destroy(): void {
+    const element = this.wrapper || this.canvas;
+    if (element && element.parentNode) element.parentNode.removeChild(element);
+    this.ctx = null;
+  }
+
   setSeriesNames(names: string[]): void {
     this.seriesNames = names;
     this.draw();
@@ -76,8 +235,75 @@ export class RealTimeChart {
     this.draw();
   }
 
+  /**
+   * 设置单位 (显示在标签后的括号中，并用于导出的表头)
+   */
+  setUnit(unit: string): void {
+    this.unit = unit;
+    this.draw();
+  }
+
   setTimeWindow(seconds: number): void {
     this.windowSec = seconds;
+    this.baseWindowSec = seconds;
+    this.draw();
+  }
+
+  /**
+   * 设置 Y 轴缩放模式 (切换到手动模式时沿用当前显示的范围)
+   */
+  setYScaleMode(mode: YScaleMode): void {
+    if (mode === 'manual' && !this.yRange && this.lastView) {
+      this.yRange = { min: this.lastView.yMin, max: this.lastView.yMax };
+    }
+    if (mode !== 'manual') this.yRange = null;
+    this.yScaleMode = mode;
+    if (this.yModeSelect) this.yModeSelect.value = mode;
+    this.draw();
+  }
+
+  /**
+   * 复位视图：恢复时间窗口并重新跟随最新数据，手动 Y 轴恢复为自动
+   */
+  resetView(): void {
+    this.windowSec = this.baseWindowSec;
+    this.viewEnd = null;
+    if (this.yScaleMode === 'manual') {
+      this.setYScaleMode('grow');
+    } else {
+      this.draw();
+    }
+  }
+
+  /**
+   * 切换图表模式 (切换后清空数据，两种模式的数据格式不同)
+   */
+  setMode(mode: ChartMode): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.clear();
+  }
+
+  /**
+   * 设置 XY 模式的 X 轴标签与单位 (Y 轴使用 setLabel / setUnit)
+   */
+  setXAxis(label: string, unit: string = ''): void {
+    this.xLabel = label;
+    this.xUnit = unit;
+    this.draw();
+  }
+
+  /**
+   * 设置 XY 模式的轨迹保留时长
+   * @param {number} seconds - 轨迹长度 (秒)，更早的点不再绘制
+   */
+  setTrail(seconds: number): void {
+    this.trailSec = Math.max(0.1, seconds);
+    this.draw();
+  }
+
+  setEqualScale(enabled: boolean): void {
+    this.equalScale = enabled;
     this.draw();
   }
 
@@ -91,12 +317,15 @@ export class RealTimeChart {
     this.head = (this.head + 1) % this.capacity;
     if (this.count < this.capacity) this.count++;
 
-    // 更新历史最大值
-    for (const v of values) {
-      if (typeof v === 'number' && !isNaN(v)) {
+    // 更新历史最大值 (XY 模式下偶数位为 X、奇数位为 Y)
+    values.forEach((v, i) => {
+      if (typeof v !== 'number' || isNaN(v)) return;
+      if (this.mode === 'xy' && i % 2 === 0) {
+        this.maxAbsX = Math.max(this.maxAbsX, Math.abs(v));
+      } else {
         this.maxAbs = Math.max(this.maxAbs, Math.abs(v));
       }
-    }
+    });
 
     this.draw();
   }
@@ -105,9 +334,165 @@ export class RealTimeChart {
     this.head = 0;
     this.count = 0;
     this.maxAbs = 0.1;
+    this.maxAbsX = 0.1;
+    this.playhead = null;
+    this.viewEnd = null;
     this.draw();
   }
 
+  /**
+   * 设置回放位置：只显示 t <= playhead 的数据，之后的数据保留以便向前拖动时恢复。
+   * @param {number | null} t - 回放时刻，null 表示显示全部数据
+   */
+  setPlayhead(t: number | null): void {
+    this.playhead = t;
+    this.draw();
+  }
+
+  /**
+   * 删除时间晚于 t 的数据点 (从回溯位置继续运行时调用)
+   * @param {number} t - 保留数据的最晚时刻
+   */
+  truncateAfter(t: number): void {
+    while (this.count > 0) {
+      const newestIdx = (this.head - 1 + this.capacity) % this.capacity;
+      if (this.buffer[newestIdx]!.t <= t + 1e-9) break;
+      this.buffer[newestIdx] = null;
+      this.head = newestIdx;
+      this.count--;
+    }
+    this.draw();
+  }
+
+  /**
+   * 获取单位：优先使用 setUnit 设置的单位，否则从标签中解析，例如 "速度 (px/s)" -> "px/s"
+   */
+  getUnit(): string {
+    if (this.unit) return this.unit;
+    const match = this.label.match(/\(([^()]*)\)\s*$/);
+    return match ? match[1]!.trim() : '';
+  }
+
+  /**
+   * 显示用的完整标签 (带单位)
+   */
+  getDisplayLabel(): string {
+    return this.unit ? `${this.label} (${this.unit})` : this.label;
+  }
+
+  /**
+   * X 轴标签 (时间模式为 "t (s)")
+   */
+  private getXDisplayLabel(): string {
+    if (this.mode === 'time') return 't (s)';
+    return this.xUnit ? `${this.xLabel} (${this.xUnit})` : this.xLabel;
+  }
+
+  /**
+   * 获取缓冲区中的数据 (按时间升序；回溯预览时只包含回放位置之前的数据)
+   */
+  getData(): DataPoint[] {
+    const visibleCount = this.getVisibleCount();
+    const points: DataPoint[] = [];
+    for (let i = 0; i < visibleCount; i++) {
+      const idx = (this.head - this.count + i + this.capacity) % this.capacity;
+      const item = this.buffer[idx]!;
+      points.push({ t: item.t, values: [...item.values] });
+    }
+    return points;
+  }
+
+  /**
+   * 导出列名：优先使用 setSeriesNames 设置的系列名，缺失时按序号命名
+   */
+  private getExportSeriesNames(points: DataPoint[]): string[] {
+    const valuesPerSeries = this.mode === 'xy' ? 2 : 1;
+    const columns = points.reduce(
+      (n, p) => Math.max(n, Math.ceil(p.values.length / valuesPerSeries)),
+      this.seriesNames.length
+    );
+    const names: string[] = [];
+    for (let i = 0; i < columns; i++) {
+      names.push(this.seriesNames[i] || `系列 ${i + 1}`);
+    }
+    return names;
+  }
+
+  /**
+   * 导出的数据列名 (带单位)；XY 模式下每个系列导出 X、Y 两列
+   */
+  private getExportColumns(points: DataPoint[]): string[] {
+    const withUnit = (name: string, unit: string) => (unit ? `${name} (${unit})` : name);
+    const names = this.getExportSeriesNames(points);
+    const unit = this.getUnit();
+    if (this.mode === 'xy') {
+      return names.flatMap(name => [
+        withUnit(`${name} ${this.xLabel || 'x'}`, this.xUnit),
+        withUnit(`${name} ${this.label || 'y'}`, unit),
+      ]);
+    }
+    return names.map(name => withUnit(name, unit));
+  }
+
+  /**
+   * 导出为 CSV 文本 (第一列为时间，其余每列一个系列，表头带单位)
+   */
+  toCSV(): string {
+    const points = this.getData();
+    const columns = this.getExportColumns(points);
+    const header = ['t (s)', ...columns];
+    const rows = points.map(p => [p.t, ...columns.map((_, i) => p.values[i] ?? NaN)]);
+    return buildCSV(header, rows);
+  }
+
+  /**
+   * 导出为 JSON 对象
+   */
+  toJSON(): ChartExport {
+    const points = this.getData();
+    const data: ChartExport = {
+      mode: this.mode,
+      label: this.getDisplayLabel(),
+      unit: this.getUnit(),
+      series: this.getExportSeriesNames(points),
+      points,
+    };
+    if (this.mode === 'xy') {
+      data.xLabel = this.xLabel;
+      data.xUnit = this.xUnit;
+    }
+    return data;
+  }
+
+  /**
+   * 下载图表数据
+   * @param {'csv' | 'json'} format - 文件格式
+   */
+  download(format: 'csv' | 'json'): void {
+    const base = this.label.replace(/\s*\([^()]*\)\s*$/, '') || 'chart';
+    if (format === 'csv') {
+      downloadText(this.toCSV(), timestampedFilename(base, 'csv'), 'text/csv');
+    } else {
+      const json = JSON.stringify(this.toJSON(), null, 2);
+      downloadText(json, timestampedFilename(base, 'json'), 'application/json');
+    }
+  }
+
+  /**
+   * 可见数据点数量 (回放位置之后的数据不显示)
+   */
+  private getVisibleCount(): number {
+    let visibleCount = this.count;
+    if (this.playhead !== null) {
+      while (visibleCount > 0) {
+        const idx = (this.head - this.count + visibleCount - 1 + this.capacity) % this.capacity;
+        if (this.buffer[idx]!.t <= this.playhead + 1e-9) break;
+        visibleCount--;
+      }
+    }
+    return visibleCount;
+  }
+
   /**
    * 渲染图表。
    */
@@ -131,6 +516,11 @@ export class RealTimeChart {
     // 1. 绘制背景网格
     this.drawGrid(width, height);
 
+    if (this.mode === 'xy') {
+      this.drawXY(width, height);
+      return;
+    }
+
     // 2. 绘制坐标轴
     this.ctx.strokeStyle = THEME.colors.chart.axis;
     this.ctx.lineWidth = 1;
@@ -148,46 +538,35 @@ export class RealTimeChart {
     this.ctx.font = THEME.fonts.label;
     this.ctx.textAlign = 'left';
     this.ctx.textBaseline = 'top';
-    this.ctx.fillText(this.label, 5, 5);
+    this.ctx.fillText(this.getDisplayLabel(), 5, 5);
 
     // 4. 绘制 X 轴标签
     this.ctx.fillStyle = THEME.colors.chart.text;
     this.ctx.font = '10px system-ui';
     this.ctx.textAlign = 'right';
     this.ctx.textBaseline = 'bottom';
-    this.ctx.fillText('t (s)', width - 5, height - 5);
-
-    // 确定 X 轴比例
-    const newestIdx = (this.head - 1 + this.capacity) % this.capacity;
-    const newestT = this.count > 0 ? this.buffer[newestIdx]!.t : 0;
-    const windowSec = this.windowSec;
-
-    let xToPix: (t: number) => number;
-    let tStart: number, tEnd: number;
-
-    // 滚动机制:
-    if (newestT <= windowSec) {
-      // 1. 静态阶段 (t < windowSec): X 轴范围固定为 [0, windowSec]
-      xToPix = (t: number) => t * (width / windowSec);
-      tStart = 0;
-      tEnd = windowSec;
-    } else {
-      // 2. 滚动阶段 (t > windowSec): X 轴随时间向左滚动
-      xToPix = (t: number) => width - (newestT - t) * (width / windowSec);
-      tStart = newestT - windowSec;
-      tEnd = newestT;
-    }
+    this.ctx.fillText(this.getXDisplayLabel(), width - 5, height - 5);
+
+    // 可见数据点数量 (回放位置之后的数据不显示)
+    const visibleCount = this.getVisibleCount();
+
+    // 确定视图范围 (跟随最新数据，或停留在平移/缩放后的位置)
+    const view = this.computeTimeView(visibleCount);
+    this.lastView = view;
+    const { tStart, tEnd } = view;
+    const xToPix = (t: number) => (t - tStart) * (width / this.windowSec);
 
-    // 绘制 X 轴刻度 (每 5 秒一个刻度)
-    const step = 5;
+    // 绘制 X 轴刻度 (刻度间隔随时间窗口缩放)
+    const step = this.getTickStep();
     // 计算第一个刻度的时间：向上取整到 step 的倍数
-    const firstTick = Math.ceil(tStart / step) * step;
+    const firstTick = Math.ceil(tStart / step - 1e-9);
 
     this.ctx.textAlign = 'center';
     this.ctx.textBaseline = 'top';
     this.ctx.fillStyle = THEME.colors.chart.text;
 
-    for (let t = firstTick; t <= tEnd; t += step) {
+    for (let k = firstTick; k * step <= tEnd + 1e-9; k++) {
+      const t = k * step;
       const x = xToPix(t);
       // 绘制刻度线
       this.ctx.beginPath();
@@ -196,62 +575,51 @@ export class RealTimeChart {
       this.ctx.stroke();
 
       // 绘制刻度值
-      this.ctx.fillText(t.toString(), x, height + 2);
+      this.ctx.fillText(Number(t.toFixed(2)).toString(), x, height + 2);
     }
 
     // 5. 绘制图例
-    if (this.seriesNames && this.seriesNames.length > 0) {
-      const legendX = width - 10;
-      let legendY = 10;
-      this.ctx.textAlign = 'right';
-      this.ctx.textBaseline = 'top';
-      this.ctx.font = '10px system-ui';
-
-      this.seriesNames.forEach((name, i) => {
-        if (i >= this.colors.length) return;
-        const color = this.colors[i];
-
-        // 颜色块
-        this.ctx.fillStyle = color;
-        this.ctx.fillRect(legendX - 60, legendY + 2, 10, 6);
+    this.drawLegend(width);
 
-        // 文字
-        this.ctx.fillStyle = THEME.colors.chart.text;
-        this.ctx.fillText(name, legendX, legendY);
-
-        legendY += 12;
-      });
+    // 平移到历史时提示视图已冻结
+    if (this.viewEnd !== null) {
+      this.ctx.fillStyle = THEME.colors.chart.text;
+      this.ctx.font = '10px system-ui';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText('⏸ 已冻结 (双击恢复)', width / 2, 5);
     }
 
     // 如果没有数据，就此结束
-    if (this.count < 2) return;
+    if (visibleCount < 2) return;
 
     // 6. 绘制数据曲线
-    // 确定 Y 轴比例 (使用历史最大值，保持缩放稳定)
-    const padding = 1.2;
-    const yMax = this.maxAbs * padding;
-
-    // Y轴坐标转换
-    const yToPix = (y: number) => height / 2 - (y / yMax) * (height * 0.45);
+    const yToPix = (y: number) => this.valueToPix(y, view, height);
 
     // 绘制零线 (X轴中心线)
-    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-    this.ctx.lineWidth = 1;
-    this.ctx.setLineDash([2, 2]);
-    this.ctx.beginPath();
-    this.ctx.moveTo(0, yToPix(0));
-    this.ctx.lineTo(width, yToPix(0));
-    this.ctx.stroke();
-    this.ctx.setLineDash([]);
+    if (view.yMin < 0 && view.yMax > 0) {
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      this.ctx.lineWidth = 1;
+      this.ctx.setLineDash([2, 2]);
+      this.ctx.beginPath();
+      this.ctx.moveTo(0, yToPix(0));
+      this.ctx.lineTo(width, yToPix(0));
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
 
-    // 绘制0刻度值
-    this.ctx.fillStyle = THEME.colors.chart.text;
-    this.ctx.font = '10px system-ui';
-    this.ctx.textAlign = 'left';
-    this.ctx.textBaseline = 'bottom';
-    this.ctx.fillText('0', 2, yToPix(0) - 2);
+      // 绘制0刻度值
+      this.ctx.fillStyle = THEME.colors.chart.text;
+      this.ctx.font = '10px system-ui';
+      this.ctx.textAlign = 'left';
+      this.ctx.textBaseline = 'bottom';
+      this.ctx.fillText('0', 2, yToPix(0) - 2);
+    }
 
-    // 绘制每条曲线
+    // 绘制每条曲线 (限制在绘图区内)
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(0, 0, width, height);
+    this.ctx.clip();
     this.colors.forEach((color, seriesIdx) => {
       this.ctx!.strokeStyle = color;
       this.ctx!.lineWidth = 2;
@@ -259,12 +627,12 @@ export class RealTimeChart {
 
       let started = false;
 
-      for (let i = 0; i < this.count; i++) {
+      for (let i = 0; i < visibleCount; i++) {
         const idx = (this.head - this.count + i + this.capacity) % this.capacity;
         const item = this.buffer[idx];
 
         // 跳过时间窗口之外的点
-        if (item!.t < newestT - windowSec) continue;
+        if (item!.t < tStart || item!.t > tEnd) continue;
 
         if (!item!.values || seriesIdx >= item!.values.length) continue;
         const val = item!.values[seriesIdx];
@@ -282,6 +650,362 @@ export class RealTimeChart {
       }
       this.ctx!.stroke();
     });
+    this.ctx.restore();
+
+    // 7. 十字光标读数
+    if (this.cursorX !== null) {
+      this.drawCrosshair(width, height, view, visibleCount);
+    }
+  }
+
+  /**
+   * 计算当前视图的时间范围与 Y 轴范围
+   */
+  private computeTimeView(visibleCount: number): TimeView {
+    const oldestIdx = (this.head - this.count + this.capacity) % this.capacity;
+    const newestIdx = (this.head - this.count + visibleCount - 1 + this.capacity) % this.capacity;
+    const oldestT = visibleCount > 0 ? this.buffer[oldestIdx]!.t : 0;
+    const newestT = visibleCount > 0 ? this.buffer[newestIdx]!.t : 0;
+
+    // 滚动机制: 数据不足一个窗口时 X 轴固定为 [0, windowSec]，之后右端跟随最新数据 (或停在平移位置)
+    const end = this.viewEnd !== null ? Math.min(this.viewEnd, newestT) : newestT;
+    const tEnd = Math.max(end, this.windowSec);
+    const tStart = tEnd - this.windowSec;
+
+    const { min, max } = this.computeYRange(tStart, tEnd, visibleCount);
+    return { tStart, tEnd, yMin: min, yMax: max, oldestT, newestT };
+  }
+
+  /**
+   * 按缩放模式确定 Y 轴范围
+   */
+  private computeYRange(
+    tStart: number,
+    tEnd: number,
+    visibleCount: number
+  ): { min: number; max: number } {
+    if (this.yScaleMode === 'manual' && this.yRange) return this.yRange;
+
+    if (this.yScaleMode === 'fit') {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i < visibleCount; i++) {
+        const item = this.buffer[(this.head - this.count + i + this.capacity) % this.capacity]!;
+        if (item.t < tStart || item.t > tEnd) continue;
+        item.values.forEach((v, seriesIdx) => {
+          if (seriesIdx >= this.colors.length || typeof v !== 'number' || isNaN(v)) return;
+          min = Math.min(min, v);
+          max = Math.max(max, v);
+        });
+      }
+      if (min <= max) {
+        const span = max - min;
+        const pad = span > 0 ? span * 0.1 : Math.max(Math.abs(max) * 0.1, 1e-6);
+        return { min: min - pad, max: max + pad };
+      }
+    }
+
+    // 使用历史最大值，保持缩放稳定
+    const yMax = this.maxAbs * 1.2;
+    return { min: -yMax, max: yMax };
+  }
+
+  /**
+   * 数值到画布 Y 坐标 (上下各留 5% 边距)
+   */
+  private valueToPix(y: number, view: TimeView, height: number): number {
+    const plotHeight = height * (1 - 2 * PLOT_MARGIN);
+    return height * PLOT_MARGIN + ((view.yMax - y) / (view.yMax - view.yMin)) * plotHeight;
+  }
+
+  /**
+   * 画布 Y 坐标到数值
+   */
+  private pixToValue(py: number, view: TimeView, height: number): number {
+    const plotHeight = height * (1 - 2 * PLOT_MARGIN);
+    return view.yMax - ((py - height * PLOT_MARGIN) / plotHeight) * (view.yMax - view.yMin);
+  }
+
+  /**
+   * X 轴刻度间隔：约 6 个刻度，取 1/2/5 系列的整齐数值 (默认 30 s 窗口为 5 s)
+   */
+  private getTickStep(): number {
+    const raw = this.windowSec / 8;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const step = [1, 2, 5, 10].find(m => m * magnitude >= raw)!;
+    return step * magnitude;
+  }
+
+  /**
+   * 十字光标：在光标所在时间最近的数据点处画竖线，并列出每个系列的数值
+   */
+  private drawCrosshair(width: number, height: number, view: TimeView, visibleCount: number): void {
+    const ctx = this.ctx!;
+    const cursorT = view.tStart + (this.cursorX! / width) * this.windowSec;
+
+    // 查找时间最接近光标的可见数据点
+    let nearest: DataPoint | null = null;
+    for (let i = 0; i < visibleCount; i++) {
+      const item = this.buffer[(this.head - this.count + i + this.capacity) % this.capacity]!;
+      if (item.t < view.tStart || item.t > view.tEnd) continue;
+      if (!nearest || Math.abs(item.t - cursorT) < Math.abs(nearest.t - cursorT)) nearest = item;
+    }
+    if (!nearest) return;
+
+    const x = ((nearest.t - view.tStart) / this.windowSec) * width;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const unit = this.getUnit();
+    const lines: { text: string; color: string }[] = [
+      { text: `t = ${nearest.t.toFixed(3)} s`, color: THEME.colors.ui.textMain },
+    ];
+    this.colors.forEach((color, i) => {
+      const value = nearest!.values[i];
+      if (typeof value !== 'number' || isNaN(value)) return;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, this.valueToPix(value, view, height), 3, 0, Math.PI * 2);
+      ctx.fill();
+      const name = this.seriesNames[i] || `系列 ${i + 1}`;
+      lines.push({ text: `${name}: ${value.toPrecision(4)}${unit ? ' ' + unit : ''}`, color });
+    });
+
+    // 读数框 (靠近右边缘时放在光标左侧)
+    ctx.font = '10px system-ui';
+    const boxWidth = Math.max(...lines.map(line => ctx.measureText(line.text).width)) + 8;
+    const boxHeight = lines.length * 12 + 4;
+    const boxX = x + 8 + boxWidth > width ? x - 8 - boxWidth : x + 8;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(boxX, 4, boxWidth, boxHeight);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, i) => {
+      ctx.fillStyle = line.color;
+      ctx.fillText(line.text, boxX + 4, 6 + i * 12);
+    });
+    ctx.restore();
+  }
+
+  /**
+   * 鼠标交互：滚轮缩放时间轴 (Shift+滚轮缩放 Y 轴)，拖动平移到历史，悬停显示十字光标，双击复位
+   */
+  private attachInteractions(): void {
+    const canvas = this.canvas!;
+    if (!canvas.addEventListener) return;
+
+    canvas.addEventListener('wheel', e => this.handleWheel(e), { passive: false });
+    canvas.addEventListener('mousedown', e => {
+      if (this.mode !== 'time' || !this.lastView) return;
+      const p = this.toCanvasPoint(e);
+      this.drag = { x: p.x, y: p.y, view: this.lastView };
+    });
+    canvas.addEventListener('mousemove', e => this.handleMouseMove(e));
+    canvas.addEventListener('mouseup', () => {
+      this.drag = null;
+    });
+    canvas.addEventListener('mouseleave', () => {
+      this.drag = null;
+      this.cursorX = null;
+      this.draw();
+    });
+    canvas.addEventListener('dblclick', () => this.resetView());
+  }
+
+  /**
+   * 鼠标事件坐标转换为画布坐标 (画布按 CSS 宽度缩放显示)
+   */
+  private toCanvasPoint(e: MouseEvent): { x: number; y: number } {
+    const canvas = this.canvas!;
+    const rect = canvas.getBoundingClientRect();
+    const sx = rect.width > 0 ? canvas.width / rect.width : 1;
+    const sy = rect.height > 0 ? canvas.height / rect.height : 1;
+    return { x: (e.clientX - rect.left) * sx, y: (e.clientY - rect.top) * sy };
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    if (this.mode !== 'time' || !this.lastView) return;
+    e.preventDefault();
+
+    const { width, height } = this.canvas!;
+    const view = this.lastView;
+    const p = this.toCanvasPoint(e);
+    const factor = e.deltaY > 0 ? 1.2 : 1 / 1.2;
+
+    if (e.shiftKey) {
+      // 以光标处的数值为中心缩放 Y 轴
+      const anchor = this.pixToValue(p.y, view, height);
+      this.yRange = {
+        min: anchor - (anchor - view.yMin) * factor,
+        max: anchor + (view.yMax - anchor) * factor,
+      };
+      this.setYScaleMode('manual');
+      return;
+    }
+
+    // 以光标处的时间为中心缩放时间轴
+    const frac = Math.min(Math.max(p.x / width, 0), 1);
+    const anchorT = view.tStart + frac * this.windowSec;
+    const capacitySec = this.capacity / 60;
+    this.windowSec = Math.min(Math.max(this.windowSec * factor, 0.5), capacitySec);
+    const end = anchorT + (1 - frac) * this.windowSec;
+    this.viewEnd = end >= view.newestT ? null : end;
+    this.draw();
+  }
+
+  private handleMouseMove(e: MouseEvent): void {
+    const p = this.toCanvasPoint(e);
+    this.cursorX = this.mode === 'time' ? p.x : null;
+
+    if (this.drag) {
+      const { width, height } = this.canvas!;
+      const start = this.drag.view;
+
+      // 水平拖动：平移时间轴 (向右拖动查看更早的数据)
+      const shift = ((this.drag.x - p.x) / width) * this.windowSec;
+      const end = Math.max(start.tEnd + shift, start.oldestT);
+      this.viewEnd = end >= start.newestT ? null : end;
+
+      // 手动模式下垂直拖动平移 Y 轴
+      if (this.yScaleMode === 'manual') {
+        const delta =
+          ((p.y - this.drag.y) / (height * (1 - 2 * PLOT_MARGIN))) * (start.yMax - start.yMin);
+        this.yRange = { min: start.yMin + delta, max: start.yMax + delta };
+      }
+    }
+
+    this.draw();
+  }
+
+  /**
+   * 绘制右上角的系列图例
+   */
+  private drawLegend(width: number): void {
+    const ctx = this.ctx!;
+    const legendX = width - 10;
+    let legendY = 10;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'top';
+    ctx.font = '10px system-ui';
+
+    this.seriesNames.forEach((name, i) => {
+      if (i >= this.colors.length) return;
+      const color = this.colors[i]!;
+
+      // 颜色块
+      ctx.fillStyle = color;
+      ctx.fillRect(legendX - 60, legendY + 2, 10, 6);
+
+      // 文字
+      ctx.fillStyle = THEME.colors.chart.text;
+      ctx.fillText(name, legendX, legendY);
+
+      legendY += 12;
+    });
+  }
+
+  /**
+   * XY 模式渲染：原点居中的相图/轨迹，最近 trailSec 秒内的线段按时间淡出，末端画出当前点
+   */
+  private drawXY(width: number, height: number): void {
+    const ctx = this.ctx!;
+
+    // 确定比例 (使用历史最大值，保持缩放稳定)
+    const padding = 1.2;
+    const halfW = width * 0.45;
+    const halfH = height * 0.45;
+    let xMax = this.maxAbsX * padding;
+    let yMax = this.maxAbs * padding;
+    if (this.equalScale) {
+      const scale = Math.min(halfW / xMax, halfH / yMax);
+      xMax = halfW / scale;
+      yMax = halfH / scale;
+    }
+    const xToPix = (x: number) => width / 2 + (x / xMax) * halfW;
+    const yToPix = (y: number) => height / 2 - (y / yMax) * halfH;
+
+    // 过原点的坐标轴
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([2, 2]);
+    ctx.beginPath();
+    ctx.moveTo(0, yToPix(0));
+    ctx.lineTo(width, yToPix(0));
+    ctx.moveTo(xToPix(0), 0);
+    ctx.lineTo(xToPix(0), height);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Y 轴标签 (左上) 与 X 轴标签 (右下)
+    ctx.fillStyle = THEME.colors.ui.textMain;
+    ctx.font = THEME.fonts.label;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(this.getDisplayLabel(), 5, 5);
+
+    ctx.fillStyle = THEME.colors.chart.text;
+    ctx.font = '10px system-ui';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(this.getXDisplayLabel(), width - 5, height - 5);
+
+    this.drawLegend(width);
+
+    const visibleCount = this.getVisibleCount();
+    if (visibleCount < 2) return;
+
+    const newestIdx = (this.head - this.count + visibleCount - 1 + this.capacity) % this.capacity;
+    const newestT = this.buffer[newestIdx]!.t;
+
+    this.seriesNames.forEach((_, seriesIdx) => {
+      const color = this.colors[seriesIdx];
+      if (!color) return;
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+
+      let prev: { x: number; y: number } | null = null;
+      for (let i = 0; i < visibleCount; i++) {
+        const idx = (this.head - this.count + i + this.capacity) % this.capacity;
+        const item = this.buffer[idx]!;
+        const age = newestT - item.t;
+        if (age > this.trailSec) continue;
+
+        const xVal = item.values[seriesIdx * 2];
+        const yVal = item.values[seriesIdx * 2 + 1];
+        if (typeof xVal !== 'number' || typeof yVal !== 'number' || isNaN(xVal) || isNaN(yVal)) {
+          prev = null;
+          continue;
+        }
+
+        const point = { x: xToPix(xVal), y: yToPix(yVal) };
+        if (prev) {
+          // 线段透明度随时间线性衰减
+          ctx.globalAlpha = 1 - age / this.trailSec;
+          ctx.beginPath();
+          ctx.moveTo(prev.x, prev.y);
+          ctx.lineTo(point.x, point.y);
+          ctx.stroke();
+        }
+        prev = point;
+      }
+
+      // 当前点
+      if (prev) {
+        ctx.globalAlpha = 1;
+        ctx.beginPath();
+        ctx.arc(prev.x, prev.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    });
+    ctx.globalAlpha = 1;
   }
 
   drawGrid(w: number, h: number): void {
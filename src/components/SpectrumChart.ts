@@ -0,0 +1,261 @@
+import { THEME } from '../config.ts';
+import { SpectrumReference } from '../core/Scene.ts';
+import { Spectrum, SpectrumPeak, SpectrumResult } from '../utils/spectrum.ts';
+
+// 类型定义
+interface SamplePoint {
+  t: number;
+  values: number[];
+}
+
+/**
+ * 频谱图组件
+ * 对时间曲线做 FFT，绘制幅度谱，标出主峰频率并与理论频率参考线对比。
+ */
+export class SpectrumChart {
+  private canvas: HTMLCanvasElement | null;
+  private ctx: CanvasRenderingContext2D | null;
+  private label: string;
+  private colors: string[];
+  private seriesNames: string[];
+  // 每个系列的分析结果 (数据不足时为 null)
+  private results: (SpectrumResult | null)[];
+  private references: SpectrumReference[];
+
+  /**
+   * @param {HTMLCanvasElement} canvas - Canvas 元素
+   * @param {string} label - 图表标题
+   * @param {string[]} colors - 每个系列的颜色
+   */
+  constructor(
+    canvas: HTMLCanvasElement,
+    label: string,
+    colors: string[] = THEME.colors.chart.series
+  ) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d');
+    this.label = label;
+    this.colors = colors;
+    this.seriesNames = [];
+    this.results = [];
+    this.references = [];
+    this.draw();
+  }
+
+  setSeriesNames(names: string[]): void {
+    this.seriesNames = names;
+    this.draw();
+  }
+
+  /**
+   * 设置理论频率参考线 (内容不变时不重绘)
+   */
+  setReferences(references: SpectrumReference[]): void {
+    if (JSON.stringify(references) === JSON.stringify(this.references)) return;
+    this.references = references;
+    this.draw();
+  }
+
+  /**
+   * 根据时间曲线数据重新计算频谱
+   * @param {SamplePoint[]} points - 按时间升序的数据点，每个系列一个值
+   */
+  update(points: SamplePoint[]): void {
+    this.results = this.seriesNames.map((_, i) => {
+      const times: number[] = [];
+      const values: number[] = [];
+      points.forEach(p => {
+        const v = p.values[i];
+        if (typeof v !== 'number' || isNaN(v)) return;
+        times.push(p.t);
+        values.push(v);
+      });
+      return Spectrum.analyze(times, values);
+    });
+    this.draw();
+  }
+
+  /**
+   * 各系列的主峰 (按幅度降序)
+   */
+  getPeaks(): SpectrumPeak[][] {
+    return this.results.map(result => (result ? result.peaks : []));
+  }
+
+  clear(): void {
+    this.results = [];
+    this.draw();
+  }
+
+  /**
+   * 从页面中移除图表
+   */
+  destroy(): void {
+    if (this.canvas && this.canvas.parentNode) this.canvas.parentNode.removeChild(this.canvas);
+    this.ctx = null;
+  }
+
+  /**
+   * 频率轴上限：覆盖理论频率与主峰，至少 1 Hz，不超过奈奎斯特频率
+   */
+  private getMaxFrequency(): number {
+    const candidates = [1, ...this.references.map(ref => ref.frequency * 2.5)];
+    let nyquist = Infinity;
+    this.results.forEach(result => {
+      if (!result) return;
+      result.peaks.forEach(peak => candidates.push(peak.frequency * 2.5));
+      nyquist = Math.min(nyquist, result.frequencies[result.frequencies.length - 1]!);
+    });
+    return Math.min(Math.max(...candidates), nyquist);
+  }
+
+  /**
+   * 频率刻度间隔 (1/2/5 系列，约 5 个刻度)
+   */
+  private getTickStep(fMax: number): number {
+    const raw = fMax / 5;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    return [1, 2, 5, 10].find(m => m * magnitude >= raw)! * magnitude;
+  }
+
+  /**
+   * 主峰与最接近的理论频率的对比说明
+   */
+  private getSummary(): string {
+    const main = this.results[0] ? this.results[0].peaks[0] : undefined;
+    if (!main) return '';
+    let text = `主峰 ${main.frequency.toFixed(3)} Hz`;
+    if (this.references.length > 0) {
+      const nearest = this.references.reduce((best, ref) =>
+        Math.abs(ref.frequency - main.frequency) < Math.abs(best.frequency - main.frequency)
+          ? ref
+          : best
+      );
+      const deviation = ((main.frequency - nearest.frequency) / nearest.frequency) * 100;
+      text += `，${nearest.label} ${nearest.frequency.toFixed(3)} Hz (偏差 ${deviation.toFixed(1)}%)`;
+    }
+    return text;
+  }
+
+  draw(): void {
+    if (!this.ctx) return;
+    const ctx = this.ctx;
+    const { width, height } = this.canvas!;
+    ctx.clearRect(0, 0, width, height);
+
+    // 标题与说明
+    ctx.fillStyle = THEME.colors.ui.textMain;
+    ctx.font = THEME.fonts.label;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(this.label, 5, 5);
+
+    ctx.fillStyle = THEME.colors.chart.text;
+    ctx.font = '10px system-ui';
+    ctx.fillText(this.getSummary(), 5, 20);
+    ctx.textAlign = 'right';
+    ctx.fillText('f (Hz)', width - 5, 5);
+
+    const top = 35;
+    const bottom = height - 14;
+
+    // 坐标轴
+    ctx.strokeStyle = THEME.colors.chart.axis;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, top);
+    ctx.lineTo(0, bottom);
+    ctx.lineTo(width, bottom);
+    ctx.stroke();
+
+    if (!this.results.some(result => result)) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.font = '12px system-ui';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('数据不足，继续运行以计算频谱', width / 2, (top + bottom) / 2);
+      return;
+    }
+
+    const fMax = this.getMaxFrequency();
+    const xToPix = (f: number) => (f / fMax) * width;
+
+    // 频率刻度
+    const step = this.getTickStep(fMax);
+    ctx.fillStyle = THEME.colors.chart.text;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    for (let k = 1; k * step < fMax; k++) {
+      const x = xToPix(k * step);
+      ctx.beginPath();
+      ctx.moveTo(x, bottom);
+      ctx.lineTo(x, bottom - 4);
+      ctx.stroke();
+      ctx.fillText(Number((k * step).toFixed(3)).toString(), x, height - 1);
+    }
+
+    // 幅度比例 (显示范围内的最大值)
+    let magMax = 1e-12;
+    this.results.forEach(result => {
+      if (!result) return;
+      result.frequencies.forEach((f, k) => {
+        if (k > 0 && f <= fMax) magMax = Math.max(magMax, result.magnitudes[k]!);
+      });
+    });
+    const yToPix = (m: number) => bottom - (m / magMax) * (bottom - top) * 0.9;
+
+    // 理论频率参考线
+    ctx.save();
+    ctx.strokeStyle = THEME.colors.ui.textSub;
+    ctx.setLineDash([4, 3]);
+    this.references.forEach((ref, i) => {
+      if (ref.frequency > fMax) return;
+      const x = xToPix(ref.frequency);
+      ctx.beginPath();
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, bottom);
+      ctx.stroke();
+
+      const nearRight = x > width * 0.7;
+      ctx.fillStyle = THEME.colors.ui.textSub;
+      ctx.textAlign = nearRight ? 'right' : 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillText(
+        `${ref.label} ${ref.frequency.toFixed(3)} Hz`,
+        x + (nearRight ? -3 : 3),
+        top + i * 12
+      );
+    });
+    ctx.restore();
+
+    // 幅度谱曲线与主峰标记
+    this.results.forEach((result, seriesIdx) => {
+      const color = this.colors[seriesIdx];
+      if (!result || !color) return;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      result.frequencies.forEach((f, k) => {
+        if (f > fMax) return;
+        const x = xToPix(f);
+        const y = yToPix(result.magnitudes[k]!);
+        if (k === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+
+      const peak = result.peaks[0];
+      if (!peak || peak.frequency > fMax) return;
+      const x = xToPix(peak.frequency);
+      const y = yToPix(peak.magnitude);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${peak.frequency.toFixed(3)}`, x, y - 4);
+    });
+  }
+}
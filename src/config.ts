@@ -35,6 +35,7 @@ interface ObjectColors {
     dark: string;
   };
   referenceLine: string;
+  ghost: string;
   trail: {
     darkBg: string;
     lightBg: string;
@@ -141,6 +142,7 @@ export const THEME: Theme = {
         dark: '#666666',
       },
       referenceLine: '#2f7aea', // 参考线 (蓝色)
+      ghost: '#ff66cc', // 幽灵对照体 (粉色，半透明绘制)
       trail: {
         darkBg: '#00ffff', // 深色背景下的轨迹 (青色)
         lightBg: '#cc00cc', // 浅色背景下的轨迹 (洋红)
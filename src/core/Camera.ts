@@ -0,0 +1,176 @@
+import { Viewport, WorldPoint } from './Viewport';
+import { InteractionLayer } from './Interaction';
+
+// 类型定义
+/**
+ * 可跟随的物体
+ */
+export interface FollowTarget {
+  id: string;
+  label: string; // 显示在控制面板的"视角"下拉框中，例如 "炮弹"
+  getPosition: () => WorldPoint; // 当前物理坐标
+}
+
+/**
+ * 相机配置 (由 Scene.getCameraConfig() 提供)
+ */
+export interface CameraConfig {
+  follow?: FollowTarget[];
+}
+
+// 每个滚轮刻度 (像素) 的缩放指数
+const WHEEL_ZOOM_RATE = 0.0015;
+
+/**
+ * 场景相机
+ * 为按 Viewport 绘制的场景提供滚轮缩放 (以指针为中心)、拖动空白处平移、双击复位与跟随物体，
+ * 只改变 Viewport 的用户视角，场景代码无需修改。按下位置命中交互层目标 (例如可拖动的摆球) 时让给交互层处理。
+ * 场景通过 getCameraConfig() 启用，引擎在 setup 之后调用 enable()，切换场景时调用 detach()。
+ */
+export class Camera {
+  private canvas: HTMLCanvasElement;
+  private viewport: Viewport;
+  private interaction: InteractionLayer;
+  private config: CameraConfig | null;
+  private followId: string | null;
+  // 正在拖动平移：指针与上一次的位置 (屏幕像素)
+  private panning: { pointerId: number; x: number; y: number } | null;
+  // 视角变化后的回调 (引擎在暂停时据此重绘)
+  onChange: (() => void) | null;
+
+  constructor(canvas: HTMLCanvasElement, viewport: Viewport, interaction: InteractionLayer) {
+    this.canvas = canvas;
+    this.viewport = viewport;
+    this.interaction = interaction;
+    this.config = null;
+    this.followId = null;
+    this.panning = null;
+    this.onChange = null;
+    this.handleWheel = this.handleWheel.bind(this);
+    this.handlePointerDown = this.handlePointerDown.bind(this);
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handleDoubleClick = this.handleDoubleClick.bind(this);
+  }
+
+  /**
+   * 启用相机并挂接画布事件；config 为 null 时不启用 (按像素绘制的场景)
+   */
+  enable(config: CameraConfig | null): void {
+    this.detach();
+    if (!config) return;
+    this.config = config;
+    this.canvas.addEventListener('wheel', this.handleWheel, { passive: false });
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.addEventListener('pointermove', this.handlePointerMove);
+    this.canvas.addEventListener('pointerup', this.handlePointerUp);
+    this.canvas.addEventListener('pointercancel', this.handlePointerUp);
+    this.canvas.addEventListener('dblclick', this.handleDoubleClick);
+    // 触摸拖动时平移画面而不是滚动页面
+    this.canvas.style.touchAction = 'none';
+  }
+
+  /**
+   * 解除画布事件 (视口保持当前视角)
+   */
+  detach(): void {
+    if (!this.config) return;
+    this.canvas.removeEventListener('wheel', this.handleWheel);
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+    this.canvas.removeEventListener('pointerup', this.handlePointerUp);
+    this.canvas.removeEventListener('pointercancel', this.handlePointerUp);
+    this.canvas.removeEventListener('dblclick', this.handleDoubleClick);
+    this.canvas.style.touchAction = '';
+    this.config = null;
+    this.panning = null;
+  }
+
+  isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  getFollowTargets(): FollowTarget[] {
+    return (this.config && this.config.follow) || [];
+  }
+
+  getFollow(): string | null {
+    return this.followId;
+  }
+
+  /**
+   * 跟随物体 (传入 null 或未知 id 时固定视角)
+   */
+  setFollow(id: string | null): void {
+    const target = this.getFollowTargets().find(t => t.id === id) || null;
+    this.followId = target ? target.id : null;
+    this.viewport.setFollow(target ? target.getPosition : null);
+    this.notify();
+  }
+
+  /**
+   * 恢复场景的默认视角 (清除缩放与平移)
+   */
+  reset(): void {
+    this.viewport.resetView();
+    this.notify();
+  }
+
+  /**
+   * 绘制前调用：跟随模式下把视口中心移到目标的当前位置
+   */
+  update(): void {
+    if (this.viewport.isFollowing()) this.viewport.applyView();
+  }
+
+  private notify(): void {
+    if (this.onChange) this.onChange();
+  }
+
+  private getScreenPoint(e: MouseEvent): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    e.preventDefault();
+    // deltaMode 为 1 时按行滚动，换算为像素
+    const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    const { x, y } = this.getScreenPoint(e);
+    this.viewport.zoomAt(x, y, Math.exp(-delta * WHEEL_ZOOM_RATE));
+    this.notify();
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (this.panning || e.button !== 0) return;
+    const { x, y } = this.getScreenPoint(e);
+    // 按在可交互物体上时由交互层处理
+    if (this.interaction.hitTest(x, y)) return;
+    this.panning = { pointerId: e.pointerId, x, y };
+    this.canvas.setPointerCapture(e.pointerId);
+    this.canvas.style.cursor = 'grabbing';
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const panning = this.panning;
+    if (!panning || e.pointerId !== panning.pointerId) return;
+    const { x, y } = this.getScreenPoint(e);
+    this.viewport.panBy(x - panning.x, y - panning.y);
+    panning.x = x;
+    panning.y = y;
+    this.notify();
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    if (!this.panning || e.pointerId !== this.panning.pointerId) return;
+    this.panning = null;
+    this.canvas.releasePointerCapture(e.pointerId);
+    this.canvas.style.cursor = 'default';
+  }
+
+  private handleDoubleClick(e: MouseEvent): void {
+    const { x, y } = this.getScreenPoint(e);
+    if (this.interaction.hitTest(x, y)) return;
+    this.reset();
+  }
+}
@@ -0,0 +1,208 @@
+import { buildCSV } from '../utils/download';
+
+// 类型定义
+export interface LogSample {
+  t: number;
+  values: Record<string, number>;
+}
+
+export interface ChannelSummary {
+  name: string;
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  // 周期估计 (秒)，数据不呈周期性时为 null
+  period: number | null;
+}
+
+/**
+ * 全程数据记录器
+ * 按固定采样率记录场景发布的任意命名通道 (能量、角度、动量、距离等)，
+ * 不受图表环形缓冲区和时间窗口的限制，可导出 CSV 并给出每个通道的统计摘要。
+ */
+export class DataLogger {
+  recording: boolean;
+  // 采样率 (Hz)
+  sampleRate: number;
+  // 样本数上限，防止长时间记录耗尽内存
+  maxSamples: number;
+
+  private samples: LogSample[];
+  private channels: string[];
+  private nextSampleTime: number;
+
+  constructor(sampleRate: number = 30, maxSamples: number = 500000) {
+    this.recording = false;
+    this.sampleRate = sampleRate;
+    this.maxSamples = maxSamples;
+    this.samples = [];
+    this.channels = [];
+    this.nextSampleTime = 0;
+  }
+
+  get length(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * 已记录的通道名 (按首次出现的顺序)
+   */
+  getChannels(): string[] {
+    return [...this.channels];
+  }
+
+  getSamples(): LogSample[] {
+    return this.samples;
+  }
+
+  /**
+   * 设置采样率 (限制在 1–240 Hz)，从下一次采样开始生效
+   */
+  setSampleRate(rate: number): void {
+    if (!isFinite(rate) || rate <= 0) return;
+    this.sampleRate = Math.min(Math.max(rate, 1), 240);
+  }
+
+  start(): void {
+    this.recording = true;
+  }
+
+  stop(): void {
+    this.recording = false;
+  }
+
+  /**
+   * 清空数据 (保持记录状态不变)
+   */
+  clear(): void {
+    this.samples = [];
+    this.channels = [];
+    this.nextSampleTime = 0;
+  }
+
+  /**
+   * 给定时刻是否需要采样 (用于避免每个物理步都收集通道数据)
+   */
+  isDue(t: number): boolean {
+    return this.recording && t >= this.nextSampleTime - 1e-9;
+  }
+
+  /**
+   * 记录一个样本 (未到采样时刻时忽略)
+   * @param t 物理时间
+   * @param values 通道值
+   */
+  record(t: number, values: Record<string, number>): void {
+    if (!this.isDue(t)) return;
+    if (this.samples.length >= this.maxSamples) {
+      console.warn(`[DataLogger] 样本数已达上限 ${this.maxSamples}，停止记录`);
+      this.recording = false;
+      return;
+    }
+
+    Object.keys(values).forEach(name => {
+      if (!this.channels.includes(name)) this.channels.push(name);
+    });
+    this.samples.push({ t, values: { ...values } });
+
+    // 以 t 为基准推进，暂停、单步或快进都不会产生补采的样本
+    const interval = 1 / this.sampleRate;
+    this.nextSampleTime = Math.max(this.nextSampleTime + interval, t + interval * 0.5);
+  }
+
+  /**
+   * 删除晚于给定时间的样本 (时间回溯后从该时刻继续运行时调用)
+   */
+  truncateAfter(t: number): void {
+    while (this.samples.length > 0 && this.samples[this.samples.length - 1]!.t > t + 1e-9) {
+      this.samples.pop();
+    }
+    // 从保留的最后一个样本起按采样间隔继续，回溯到恰好是采样时刻时不会重复记录该时刻
+    const last = this.samples[this.samples.length - 1];
+    this.nextSampleTime = last ? last.t + 1 / this.sampleRate : t;
+  }
+
+  /**
+   * 导出为 CSV (第一列为时间，每个通道一列)
+   */
+  toCSV(): string {
+    const header = ['t (s)', ...this.channels];
+    const rows = this.samples.map(s => [s.t, ...this.channels.map(c => s.values[c] ?? NaN)]);
+    return buildCSV(header, rows);
+  }
+
+  /**
+   * 每个通道的统计摘要
+   */
+  getSummary(): ChannelSummary[] {
+    return this.channels.map(name => {
+      const times: number[] = [];
+      const values: number[] = [];
+      this.samples.forEach(s => {
+        const v = s.values[name];
+        if (typeof v === 'number' && isFinite(v)) {
+          times.push(s.t);
+          values.push(v);
+        }
+      });
+
+      if (values.length === 0) {
+        return { name, count: 0, min: NaN, max: NaN, mean: NaN, period: null };
+      }
+
+      let min = Infinity;
+      let max = -Infinity;
+      let sum = 0;
+      values.forEach(v => {
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+        sum += v;
+      });
+      const mean = sum / values.length;
+
+      return {
+        name,
+        count: values.length,
+        min,
+        max,
+        mean,
+        period: DataLogger.estimatePeriod(times, values, mean, max - min),
+      };
+    });
+  }
+
+  /**
+   * 用均值上穿点估计周期
+   * 相邻两次上穿均值的时间间隔取平均；至少需要 2 次上穿 (1 个完整周期)。
+   * 以振幅的 5% 作为迟滞，避免噪声或近似常数的通道产生伪周期。
+   */
+  static estimatePeriod(
+    times: number[],
+    values: number[],
+    mean: number,
+    range: number
+  ): number | null {
+    if (values.length < 4 || !(range > 1e-12)) return null;
+
+    const hysteresis = range * 0.05;
+    const crossings: number[] = [];
+    let armed = values[0]! < mean - hysteresis;
+
+    for (let i = 1; i < values.length; i++) {
+      const prev = values[i - 1]!;
+      const curr = values[i]!;
+      if (curr < mean - hysteresis) {
+        armed = true;
+      } else if (armed && prev < mean && curr >= mean) {
+        // 线性插值求穿越时刻
+        const frac = (mean - prev) / (curr - prev);
+        crossings.push(times[i - 1]! + frac * (times[i]! - times[i - 1]!));
+        armed = false;
+      }
+    }
+
+    if (crossings.length < 2) return null;
+    return (crossings[crossings.length - 1]! - crossings[0]!) / (crossings.length - 1);
+  }
+}
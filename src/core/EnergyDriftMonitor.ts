@@ -0,0 +1,94 @@
+import {
+  Integrator,
+  INTEGRATOR_LABELS,
+  SecondOrderMethod,
+  PhaseState,
+  AccelerationFieldFunction,
+} from './Integrator';
+
+/**
+ * 能量漂移监视器
+ * 从同一初始状态出发，用多种积分方法并行推进同一个二阶系统，
+ * 实时给出各方法的相对能量漂移 (E - E0) / |E0|，用于对比辛积分与非辛积分的长期表现。
+ */
+export class EnergyDriftMonitor {
+  methods: SecondOrderMethod[];
+  private acceleration: AccelerationFieldFunction;
+  private energy: (state: PhaseState) => number;
+  private states: PhaseState[];
+  private initialEnergy: number;
+
+  /**
+   * @param methods 参与对比的方法
+   * @param acceleration 加速度函数 (通常闭包读取场景当前参数)
+   * @param energy 总能量函数
+   */
+  constructor(
+    methods: SecondOrderMethod[],
+    acceleration: AccelerationFieldFunction,
+    energy: (state: PhaseState) => number
+  ) {
+    this.methods = methods;
+    this.acceleration = acceleration;
+    this.energy = energy;
+    this.states = [];
+    this.initialEnergy = 0;
+  }
+
+  /**
+   * 以给定初始状态重新开始所有方法的对比
+   */
+  reset(initial: PhaseState): void {
+    this.states = this.methods.map(() => ({ pos: { ...initial.pos }, vel: { ...initial.vel } }));
+    this.initialEnergy = this.energy(initial);
+  }
+
+  /**
+   * 所有方法各推进一步
+   */
+  step(t: number, dt: number): void {
+    this.states = this.states.map((state, i) =>
+      Integrator.stepSecondOrder(
+        this.methods[i] as SecondOrderMethod,
+        state,
+        t,
+        dt,
+        this.acceleration
+      )
+    );
+  }
+
+  /**
+   * 各方法当前的相对能量漂移 (与 methods 顺序一致)
+   */
+  getDrifts(): number[] {
+    const e0 = this.initialEnergy;
+    const scale = Math.abs(e0) > 1e-12 ? Math.abs(e0) : 1;
+    return this.states.map(state => (this.energy(state) - e0) / scale);
+  }
+
+  /**
+   * 导出各方法的当前状态与初始能量 (供场景快照使用)
+   */
+  getState(): { states: PhaseState[]; initialEnergy: number } {
+    return {
+      states: this.states.map(state => ({ pos: { ...state.pos }, vel: { ...state.vel } })),
+      initialEnergy: this.initialEnergy,
+    };
+  }
+
+  /**
+   * 恢复 getState 导出的状态
+   */
+  setState(snapshot: { states: PhaseState[]; initialEnergy: number }): void {
+    this.states = snapshot.states.map(state => ({ pos: { ...state.pos }, vel: { ...state.vel } }));
+    this.initialEnergy = snapshot.initialEnergy;
+  }
+
+  /**
+   * 各方法的显示名称 (用于图表系列名)
+   */
+  getSeriesNames(): string[] {
+    return this.methods.map(method => INTEGRATOR_LABELS[method]);
+  }
+}
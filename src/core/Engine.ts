@@ -1,6 +1,19 @@
-import { Scene } from './Scene';
+import { Scene, SceneState } from './Scene';
 import { Renderer } from './renderers/Renderer';
 import { RendererFactory } from './renderers/RendererFactory';
+import { TimeHistory } from './TimeHistory';
+import { DataLogger } from './DataLogger';
+import { MeasurementOverlay } from './MeasurementOverlay';
+
+/**
+ * 书签：某一时刻的物理时间与场景状态快照
+ */
+export interface Bookmark {
+  id: number;
+  label: string;
+  physicsTime: number;
+  state: SceneState;
+}
 
 /**
  * 主游戏循环和场景管理器。
@@ -24,10 +37,35 @@ export class Engine {
   fixedDeltaTime: number;
   // 物理模拟的总时间 (用于替代 elapsed)
   physicsTime: number;
+  // 时间倍率：每秒真实时间推进的物理时间 (0.1 为慢放，10 为快进)
+  timeScale: number;
 
   // 外部回调，用于在每帧更新后通知外部（例如更新图表）
   onUpdate: ((scene: Scene, physicsTime: number) => void) | null;
   onSceneLoaded: ((scene: Scene) => void) | null;
+  // 场景状态被恢复 (跳转书签) 后的回调，用于清理图表等外部状态
+  onStateRestored: ((scene: Scene, physicsTime: number) => void) | null;
+  // 时间线拖动 (回溯/前进) 后的回调，用于同步图表的回放位置
+  onSeek: ((scene: Scene, physicsTime: number) => void) | null;
+  // 从回溯位置继续运行、丢弃之后的历史时的回调，用于截断图表数据
+  onTimelineTruncated: ((scene: Scene, physicsTime: number) => void) | null;
+
+  // 当前场景的书签 (切换场景时清空)
+  bookmarks: Bookmark[];
+  private nextBookmarkId: number;
+
+  // 时间回溯用的状态历史 (每 historyInterval 个物理步记录一次)
+  history: TimeHistory;
+  historyInterval: number;
+  // 当前时间线已模拟到的最晚物理时间 (回溯后 physicsTime 会小于它)
+  timelineEnd: number;
+  // 自 physicsTime = 0 起的物理步数
+  private stepCount: number;
+
+  // 全程数据记录器 (按物理时间采样，重新开始或切换场景时清空)
+  logger: DataLogger;
+  // 测量叠加层 (按场景的测量配置绘制标尺、网格等)
+  measurement: MeasurementOverlay;
 
   // 处理大小调整
   resizeObserver: ResizeObserver;
@@ -61,10 +99,26 @@ export class Engine {
     this.fixedDeltaTime = 1 / 60;
     // 物理模拟的总时间 (用于替代 elapsed)
     this.physicsTime = 0;
+    this.timeScale = 1;
 
     // 外部回调，用于在每帧更新后通知外部（例如更新图表）
     this.onUpdate = null;
     this.onSceneLoaded = null;
+    this.onStateRestored = null;
+    this.onSeek = null;
+    this.onTimelineTruncated = null;
+
+    this.bookmarks = [];
+    this.nextBookmarkId = 1;
+
+    // 每 10 步 (1/6 s) 记录一次，最多保留 60 s
+    this.historyInterval = 10;
+    this.history = new TimeHistory(360);
+    this.timelineEnd = 0;
+    this.stepCount = 0;
+
+    this.logger = new DataLogger();
+    this.measurement = new MeasurementOverlay();
 
     // 绑定循环以保留 'this'
     this.loop = this.loop.bind(this);
@@ -103,10 +157,12 @@ export class Engine {
 
     if (this.currentScene) {
       console.info(`[Engine] loadScene: Tearing down previous scene: ${this.currentScene.constructor.name}`);
-      this.currentScene.teardown();
+      this.currentScene.dispose();
     }
 
     this.currentScene = sceneInstance;
+    // 书签只对创建它的场景有效
+    this.bookmarks = [];
     console.info(`[Engine] loadScene: Setting renderer and resizing scene`);
     // 设置渲染器
     this.currentScene.setRenderer(this.renderer);
@@ -114,6 +170,13 @@ export class Engine {
     this.currentScene.resize(this.canvas.clientWidth, this.canvas.clientHeight);
     console.info(`[Engine] loadScene: Calling scene.setup()`);
     this.currentScene.setup();
+    // 按 Viewport 绘制的场景启用平移缩放，暂停时视角变化立即重绘
+    this.currentScene.camera.enable(this.currentScene.getCameraConfig());
+    this.currentScene.camera.onChange = () => {
+      if (!this.running) this.redraw();
+    };
+    const measurement = this.currentScene.getMeasurementConfig();
+    this.measurement.configure(this.currentScene.viewport, measurement);
 
     // Notify external listeners that a scene has been loaded
     if (this.onSceneLoaded) {
@@ -191,6 +254,78 @@ export class Engine {
     else this.start();
   }
 
+  /**
+   * 设置时间倍率 (限制在 0.1× 到 10× 之间)
+   * 固定步长不变，倍率只改变每帧执行的物理步数，因此不影响积分精度与可重复性。
+   * @param scale 时间倍率
+   */
+  setTimeScale(scale: number): void {
+    if (!isFinite(scale)) return;
+    this.timeScale = Math.min(Math.max(scale, 0.1), 10);
+  }
+
+  /**
+   * 单步：暂停模拟并推进一个固定步长 (1/60 s)
+   */
+  stepFrame(): void {
+    this.stepSeconds(this.fixedDeltaTime);
+  }
+
+  /**
+   * 暂停模拟并立即推进给定的物理时间 (按固定步长逐步计算，结果与正常运行一致)
+   * @param seconds 要推进的物理时间 (秒)
+   */
+  stepSeconds(seconds: number): void {
+    const scene = this.currentScene;
+    if (!scene || !(seconds > 0)) return;
+
+    this.pause();
+    this.accumulatedTime = 0;
+    this.advanceSteps(Math.max(1, Math.round(seconds / this.fixedDeltaTime)));
+    this.renderFrame(1.0);
+  }
+
+  /**
+   * 同步推进给定数量的固定物理步 (不渲染；建议在暂停状态下使用)
+   * 每步通知一次 onUpdate，跳转较长时间时图表仍保留完整的波形
+   * @param steps 物理步数
+   */
+  advanceSteps(steps: number): void {
+    const scene = this.currentScene;
+    if (!scene) return;
+
+    for (let i = 0; i < steps; i++) {
+      this.stepSimulation();
+      if (this.onUpdate) {
+        this.onUpdate(scene, this.physicsTime);
+      }
+    }
+  }
+
+  /**
+   * 同步推进一个输出帧对应的物理步 (不渲染，供离线渲染逐帧调用)
+   * 推进结束后只通知一次 onUpdate，与正常运行时每个渲染帧通知一次相同，图表按输出帧采样
+   * @param steps 该帧的物理步数
+   */
+  advanceFrame(steps: number): void {
+    const scene = this.currentScene;
+    if (!scene) return;
+
+    for (let i = 0; i < steps; i++) {
+      this.stepSimulation();
+    }
+    if (this.onUpdate) {
+      this.onUpdate(scene, this.physicsTime);
+    }
+  }
+
+  /**
+   * 立即重绘当前帧 (暂停时用于刷新画面，例如录制视频的第一帧)
+   */
+  redraw(): void {
+    this.renderFrame(1.0);
+  }
+
   resetTime(): void {
     this.startTime = performance.now();
     this.lastFrameTime = this.startTime;
@@ -198,6 +333,108 @@ export class Engine {
     this.pauseStartTime = 0;
     this.accumulatedTime = 0;
     this.physicsTime = 0;
+    this.stepCount = 0;
+    this.timelineEnd = 0;
+    this.history.clear();
+    this.logger.clear();
+  }
+
+  /**
+   * 为当前时刻创建书签
+   * @param label 书签名称 (默认按物理时间生成)
+   * @returns 新书签，没有场景时返回 null
+   */
+  addBookmark(label?: string): Bookmark | null {
+    if (!this.currentScene) return null;
+
+    const bookmark: Bookmark = {
+      id: this.nextBookmarkId++,
+      label: label || `t = ${this.physicsTime.toFixed(2)} s`,
+      physicsTime: this.physicsTime,
+      state: this.currentScene.getState(),
+    };
+    this.bookmarks.push(bookmark);
+    return bookmark;
+  }
+
+  /**
+   * 跳转到书签记录的时刻
+   * @param id 书签 ID
+   * @returns 是否成功
+   */
+  jumpToBookmark(id: number): boolean {
+    const bookmark = this.bookmarks.find(b => b.id === id);
+    if (!bookmark) return false;
+    // 书签可能来自已被丢弃的时间线，历史从书签时刻重新开始记录
+    this.history.clear();
+    this.restoreState(bookmark.physicsTime, bookmark.state);
+    return true;
+  }
+
+  /**
+   * 删除书签
+   * @param id 书签 ID
+   */
+  removeBookmark(id: number): void {
+    this.bookmarks = this.bookmarks.filter(b => b.id !== id);
+  }
+
+  /**
+   * 将当前场景恢复到给定的物理时间与状态快照
+   * 即使处于暂停状态也会立即重绘一帧。
+   * @param physicsTime 快照对应的物理时间
+   * @param state 场景状态快照
+   */
+  restoreState(physicsTime: number, state: SceneState): void {
+    if (!this.currentScene) return;
+
+    this.currentScene.setState(state);
+    this.physicsTime = physicsTime;
+    this.stepCount = Math.round(physicsTime / this.fixedDeltaTime);
+    this.timelineEnd = physicsTime;
+    this.accumulatedTime = 0;
+    this.logger.truncateAfter(physicsTime);
+
+    if (this.onStateRestored) {
+      this.onStateRestored(this.currentScene, physicsTime);
+    }
+
+    this.renderFrame(1.0);
+  }
+
+  /**
+   * 拖动时间线到给定的物理时间
+   * 恢复不晚于目标时间的最近快照，再以固定步长确定性地补算到目标时间，
+   * 因此回溯后的状态与原先运行到该时刻的状态一致。建议在暂停状态下调用。
+   * @param physicsTime 目标物理时间 (会被限制在历史范围内)
+   * @returns 是否成功 (没有历史时返回 false)
+   */
+  seek(physicsTime: number): boolean {
+    const scene = this.currentScene;
+    const start = this.history.startTime;
+    if (!scene || start === null) return false;
+
+    const target = Math.min(Math.max(physicsTime, start), this.timelineEnd);
+    const entry = this.history.findAtOrBefore(target)!;
+
+    scene.setState(entry.state);
+    this.physicsTime = entry.physicsTime;
+    this.stepCount = Math.round(entry.physicsTime / this.fixedDeltaTime);
+    this.accumulatedTime = 0;
+
+    // 补算时不记录历史：这段时间内的快照已经存在
+    while (this.physicsTime + this.fixedDeltaTime / 2 <= target) {
+      scene.update(this.fixedDeltaTime, this.physicsTime);
+      this.physicsTime += this.fixedDeltaTime;
+      this.stepCount++;
+    }
+
+    if (this.onSeek) {
+      this.onSeek(scene, this.physicsTime);
+    }
+
+    this.renderFrame(1.0);
+    return true;
   }
 
   get elapsed(): number {
@@ -215,32 +452,20 @@ export class Engine {
     // 限制 dt 以防止标签页后台运行时出现巨大跳跃 (最大允许 0.25s 的跳跃)
     if (dt > 0.25) dt = 0.25;
 
-    this.accumulatedTime += dt;
+    this.accumulatedTime += dt * this.timeScale;
 
     if (this.currentScene) {
       // 核心：消耗累加的时间进行物理更新
       // 使用 while 循环确保物理模拟赶上渲染时间
       while (this.accumulatedTime >= this.fixedDeltaTime) {
-        this.currentScene.update(this.fixedDeltaTime, this.physicsTime);
-        this.physicsTime += this.fixedDeltaTime;
+        this.stepSimulation();
         this.accumulatedTime -= this.fixedDeltaTime;
       }
 
-      // 清除画布 (使用逻辑坐标，因为已经 scale 了)
-      // 注意：clearRect 受 scale 影响，所以这里清除的区域是逻辑像素区域
-      // 但为了保险起见，清除足够大的区域，或者重置 transform 后清除
-      this.ctx.save();
-      this.ctx.setTransform(1, 0, 0, 1, 0, 0); // 重置变换矩阵为单位矩阵
-      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height); // 使用物理像素清除
-      this.ctx.restore(); // 恢复之前的变换 (包括 dpr 缩放)
-
       // 渲染
       // 计算插值alpha用于平滑渲染
       const alpha = this.accumulatedTime / this.fixedDeltaTime;
-      this.currentScene.renderWithRenderer(this.renderer, alpha);
-
-      // 绘制标尺
-      this.drawRuler();
+      this.renderFrame(alpha);
 
       // 通知外部更新 (使用当前的物理时间)
       if (this.onUpdate) {
@@ -253,6 +478,63 @@ export class Engine {
     requestAnimationFrame(this.loop);
   }
 
+  /**
+   * 推进一个固定物理步长，并按间隔记录历史快照
+   */
+  private stepSimulation(): void {
+    const scene = this.currentScene;
+    if (!scene) return;
+
+    if (this.history.length === 0) {
+      // 记录起点，使时间线可以回到开始运行的时刻
+      this.history.record(this.physicsTime, scene.getState());
+    } else if (this.timelineEnd > this.physicsTime + this.fixedDeltaTime / 2) {
+      // 从回溯位置继续运行：之后的历史作废，开启新的时间线
+      this.history.truncateAfter(this.physicsTime);
+      this.logger.truncateAfter(this.physicsTime);
+      if (this.onTimelineTruncated) {
+        this.onTimelineTruncated(scene, this.physicsTime);
+      }
+    }
+
+    // 采样当前步开始时的状态 (只在到达采样时刻时收集通道数据)
+    if (this.logger.isDue(this.physicsTime)) {
+      this.logger.record(this.physicsTime, scene.getLogChannels(this.physicsTime));
+    }
+
+    scene.update(this.fixedDeltaTime, this.physicsTime);
+    this.physicsTime += this.fixedDeltaTime;
+    this.timelineEnd = this.physicsTime;
+    this.stepCount++;
+
+    if (this.stepCount % this.historyInterval === 0) {
+      this.history.record(this.physicsTime, scene.getState());
+    }
+  }
+
+  /**
+   * 清除画布并绘制当前场景与标尺
+   * @param alpha 插值因子 (0-1)
+   */
+  private renderFrame(alpha: number): void {
+    if (!this.currentScene) return;
+
+    // 清除画布 (使用逻辑坐标，因为已经 scale 了)
+    // 注意：clearRect 受 scale 影响，所以这里清除的区域是逻辑像素区域
+    // 但为了保险起见，清除足够大的区域，或者重置 transform 后清除
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0); // 重置变换矩阵为单位矩阵
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height); // 使用物理像素清除
+    this.ctx.restore(); // 恢复之前的变换 (包括 dpr 缩放)
+
+    this.currentScene.camera.update();
+    this.currentScene.renderWithRenderer(this.renderer, alpha);
+
+    // 绘制测量叠加层
+    this.overlayCtx.clearRect(0, 0, this.overlayCanvas.width, this.overlayCanvas.height);
+    this.drawOverlay(this.overlayCtx, this.overlayCanvas.width, this.overlayCanvas.height);
+  }
+
   handleResize(): void {
     const parent = this.canvas.parentElement;
     if (parent) {
@@ -364,36 +646,12 @@ export class Engine {
   }
 
   /**
-   * 绘制右侧标尺
+   * 绘制测量叠加层 (标尺、网格、坐标轴与比例尺；离线渲染时绘制到导出画布上)
+   * @param ctx 目标上下文
+   * @param width 区域宽度 (逻辑像素)
+   * @param height 区域高度 (逻辑像素)
    */
-  private drawRuler(): void {
-    const ctx = this.overlayCtx;
-    const width = this.overlayCanvas.width;
-    const height = this.overlayCanvas.height;
-
-    // 清空 overlay
-    ctx.clearRect(0, 0, width, height);
-
-    // 设置样式
-    ctx.strokeStyle = '#ffffff';
-    ctx.fillStyle = '#ffffff';
-    ctx.lineWidth = 1;
-    ctx.font = '12px Arial';
-    ctx.textAlign = 'left';
-
-    // 右侧标尺线
-    ctx.beginPath();
-    ctx.moveTo(width - 20, 0);
-    ctx.lineTo(width - 20, height);
-    ctx.stroke();
-
-    // 从上向下每100像素标注数字，顶部为0
-    for (let y = 0; y <= height; y += 100) {
-      ctx.beginPath();
-      ctx.moveTo(width - 15, y);
-      ctx.lineTo(width - 25, y);
-      ctx.stroke();
-      ctx.fillText(y.toString(), width - 35, y + 4);
-    }
+  drawOverlay(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    this.measurement.draw(ctx, width, height, this.canvas.style.backgroundColor);
   }
 }
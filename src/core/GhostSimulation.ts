@@ -0,0 +1,74 @@
+import {
+  Integrator,
+  INTEGRATOR_LABELS,
+  SecondOrderMethod,
+  PhaseState,
+  AccelerationFieldFunction,
+} from './Integrator';
+
+/**
+ * 幽灵对照模拟
+ * 与场景主模拟从同一状态出发，用另一种积分方法推进同一个二阶系统，
+ * 供场景半透明绘制"幽灵"物体并在图表中对比两者的能量曲线 (例如观察欧拉法的能量发散)。
+ */
+export class GhostSimulation {
+  method: SecondOrderMethod | null;
+  state: PhaseState | null;
+  private acceleration: AccelerationFieldFunction;
+  private energy: (state: PhaseState) => number;
+
+  /**
+   * @param acceleration 加速度函数 (通常闭包读取场景当前参数)
+   * @param energy 总能量函数
+   */
+  constructor(acceleration: AccelerationFieldFunction, energy: (state: PhaseState) => number) {
+    this.method = null;
+    this.state = null;
+    this.acceleration = acceleration;
+    this.energy = energy;
+  }
+
+  /**
+   * 幽灵是否处于开启状态
+   */
+  isActive(): boolean {
+    return this.method !== null && this.state !== null;
+  }
+
+  /**
+   * 设置幽灵使用的方法 ('none' 或 null 表示关闭)
+   */
+  setMethod(method: SecondOrderMethod | 'none' | null): void {
+    this.method = method === 'none' ? null : method;
+    if (!this.method) this.state = null;
+  }
+
+  /**
+   * 从给定状态重新开始 (通常为主模拟的当前状态)
+   */
+  reset(initial: PhaseState): void {
+    this.state = this.method ? { pos: { ...initial.pos }, vel: { ...initial.vel } } : null;
+  }
+
+  /**
+   * 推进一步
+   */
+  step(t: number, dt: number): void {
+    if (!this.method || !this.state) return;
+    this.state = Integrator.stepSecondOrder(this.method, this.state, t, dt, this.acceleration);
+  }
+
+  /**
+   * 当前能量 (未开启时返回 null)
+   */
+  getEnergy(): number | null {
+    return this.state ? this.energy(this.state) : null;
+  }
+
+  /**
+   * 幽灵的显示名称 (用于图表系列名)
+   */
+  getLabel(): string {
+    return this.method ? `${INTEGRATOR_LABELS[this.method]} (幽灵)` : '';
+  }
+}
@@ -0,0 +1,243 @@
+import { Scene, MonitorData } from './Scene';
+import { SceneRegistry, sceneRegistry } from './SceneRegistry';
+
+/**
+ * 无头模拟运行器
+ * 在没有浏览器、Canvas 与 requestAnimationFrame 的环境 (例如 Node) 中，
+ * 以与 Engine.loop 相同的固定步长语义批量推进场景的 update(dt, t)，
+ * 并收集每一步的 getMonitorData 输出，用于离线计算轨迹与校验物理。
+ *
+ * 注意：场景模块依赖 Vite 的 `?raw` 导入，在 Node 中需通过 vite-node 等加载器运行。
+ */
+
+// 类型定义
+type SceneClass = new (canvas: HTMLCanvasElement) => Scene;
+
+export interface HeadlessRunOptions {
+  steps: number; // 推进的物理步数
+  fixedDeltaTime?: number; // 固定时间步长 (默认与 Engine 一致：1/60 s)
+  width?: number; // 虚拟画布逻辑宽度 (部分场景按画布尺寸布局)
+  height?: number; // 虚拟画布逻辑高度
+  params?: Record<string, any>; // 覆盖场景默认参数 (在 setup 之前写入)
+  sampleInterval?: number; // 每隔多少步采样一次监控数据 (默认每步)
+}
+
+export interface HeadlessRunResult {
+  sceneKey: string | null;
+  fixedDeltaTime: number;
+  steps: number;
+  physicsTime: number;
+  params: Record<string, any>;
+  samples: MonitorData[];
+}
+
+/**
+ * 最小化的 2D 上下文替身。
+ * 无头模式不渲染，但部分场景会在构造或 resize 时创建离屏缓冲区。
+ */
+function createNullContext(): CanvasRenderingContext2D {
+  const target: Record<string | symbol, any> = {
+    createImageData: (w: number, h: number) => ({
+      width: w,
+      height: h,
+      data: new Uint8ClampedArray(Math.max(0, w * h * 4)),
+    }),
+    measureText: () => ({ width: 0 }),
+  };
+  return new Proxy(target, {
+    get: (obj, prop) => (prop in obj ? obj[prop] : () => undefined),
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * 虚拟画布，仅实现场景在生命周期中实际访问到的成员。
+ */
+export class HeadlessCanvas {
+  width: number;
+  height: number;
+  clientWidth: number;
+  clientHeight: number;
+  style: Record<string, string>;
+  private context: CanvasRenderingContext2D | null;
+
+  constructor(width: number = 800, height: number = 600) {
+    this.width = width;
+    this.height = height;
+    this.clientWidth = width;
+    this.clientHeight = height;
+    this.style = {};
+    this.context = null;
+  }
+
+  getContext(type: string): CanvasRenderingContext2D | null {
+    if (type !== '2d') return null;
+    if (!this.context) this.context = createNullContext();
+    return this.context;
+  }
+
+  getBoundingClientRect(): { left: number; top: number; width: number; height: number } {
+    return { left: 0, top: 0, width: this.clientWidth, height: this.clientHeight };
+  }
+
+  addEventListener(): void {
+    // 无头模式没有指针输入
+  }
+
+  removeEventListener(): void {
+    // 无头模式没有指针输入
+  }
+}
+
+/**
+ * 在非浏览器环境中补齐场景代码用到的全局对象。
+ * 浏览器中已存在的全局对象不会被覆盖。
+ */
+export function installHeadlessGlobals(): void {
+  const g = globalThis as any;
+
+  if (typeof g.window === 'undefined') {
+    g.window = g;
+  }
+
+  if (typeof g.document === 'undefined') {
+    g.document = {
+      createElement: (tag: string) => {
+        if (tag !== 'canvas') {
+          throw new Error(
+            `[HeadlessRunner] document.createElement("${tag}") is not available headless`
+          );
+        }
+        return new HeadlessCanvas(300, 150);
+      },
+    };
+  }
+
+  const createMemoryStorage = () => {
+    const store = new Map<string, string>();
+    return {
+      getItem: (key: string) => (store.has(key) ? store.get(key)! : null),
+      setItem: (key: string, value: string) => void store.set(key, String(value)),
+      removeItem: (key: string) => void store.delete(key),
+      clear: () => store.clear(),
+    };
+  };
+
+  if (typeof g.sessionStorage === 'undefined') g.sessionStorage = createMemoryStorage();
+  if (typeof g.localStorage === 'undefined') g.localStorage = createMemoryStorage();
+}
+
+/**
+ * 无头运行器
+ * 通过场景注册表按键名创建场景，或直接传入场景类运行。
+ */
+export class HeadlessRunner {
+  private registry: SceneRegistry;
+
+  constructor(registry: SceneRegistry = sceneRegistry) {
+    this.registry = registry;
+    installHeadlessGlobals();
+  }
+
+  /**
+   * 创建并初始化一个无头场景实例 (已调用 setup)
+   * @param SceneClass 场景类
+   * @param options 运行选项
+   */
+  createScene(SceneClass: SceneClass, options: Partial<HeadlessRunOptions> = {}): Scene {
+    const { width = 800, height = 600, params } = options;
+    const canvas = new HeadlessCanvas(width, height) as unknown as HTMLCanvasElement;
+    const scene = new SceneClass(canvas);
+
+    const sceneParams = (scene as any).params;
+    if (params && sceneParams) {
+      Object.assign(sceneParams, params);
+    }
+
+    scene.resize(width, height);
+    scene.setup();
+    return scene;
+  }
+
+  /**
+   * 以固定步长推进场景，并收集监控数据。
+   * 时间语义与 Engine.loop 保持一致：先 update(dt, physicsTime)，再累加 physicsTime，
+   * 最后以新的 physicsTime 调用 getMonitorData。
+   * @param scene 已初始化的场景实例
+   * @param options 运行选项
+   */
+  step(scene: Scene, options: HeadlessRunOptions): HeadlessRunResult {
+    const { steps, fixedDeltaTime = 1 / 60, sampleInterval = 1 } = options;
+    if (!Number.isInteger(steps) || steps < 0) {
+      throw new Error(`[HeadlessRunner] steps must be a non-negative integer, got ${steps}`);
+    }
+    if (!(fixedDeltaTime > 0)) {
+      throw new Error(`[HeadlessRunner] fixedDeltaTime must be positive, got ${fixedDeltaTime}`);
+    }
+
+    const samples: MonitorData[] = [];
+    let physicsTime = 0;
+
+    for (let i = 1; i <= steps; i++) {
+      scene.update(fixedDeltaTime, physicsTime);
+      // 与 Engine 相同，按步数累加而非乘法，保证时间序列逐位一致
+      physicsTime += fixedDeltaTime;
+
+      if (i % sampleInterval === 0) {
+        const data = scene.getMonitorData(physicsTime);
+        if (data) samples.push(data);
+      }
+    }
+
+    return {
+      sceneKey: null,
+      fixedDeltaTime,
+      steps,
+      physicsTime,
+      params: { ...((scene as any).params || {}) },
+      samples,
+    };
+  }
+
+  /**
+   * 运行指定场景类
+   * @param SceneClass 场景类
+   * @param options 运行选项
+   */
+  runClass(SceneClass: SceneClass, options: HeadlessRunOptions): HeadlessRunResult {
+    const scene = this.createScene(SceneClass, options);
+    try {
+      return this.step(scene, options);
+    } finally {
+      scene.dispose();
+    }
+  }
+
+  /**
+   * 通过注册表键名运行场景
+   * @param sceneKey 场景键名 (例如 'pendulum')
+   * @param options 运行选项
+   */
+  run(sceneKey: string, options: HeadlessRunOptions): HeadlessRunResult {
+    const SceneClass = this.registry.getSceneClass(sceneKey);
+    if (!SceneClass) {
+      throw new Error(`[HeadlessRunner] Scene class not found for key "${sceneKey}"`);
+    }
+    const result = this.runClass(SceneClass, options);
+    result.sceneKey = sceneKey;
+    return result;
+  }
+
+  /**
+   * 运行注册表中所有可模拟的场景 (跳过无场景类的页面条目，如图形组件库)
+   * @param options 运行选项
+   * @returns 以场景键名为索引的结果
+   */
+  runAll(options: HeadlessRunOptions): Map<string, HeadlessRunResult> {
+    const results = new Map<string, HeadlessRunResult>();
+    this.registry.getAll().forEach(entry => {
+      if (!entry.SceneClass) return;
+      results.set(entry.key, this.run(entry.key, options));
+    });
+    return results;
+  }
+}
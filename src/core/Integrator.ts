@@ -4,9 +4,9 @@
  */
 
 // 类型定义
-interface StateObject extends Record<string, number> {}
+export interface StateObject extends Record<string, number> {}
 
-interface DerivativesFunction {
+export interface DerivativesFunction {
   (state: StateObject, t: number): StateObject;
 }
 
@@ -19,6 +19,163 @@ interface SemiImplicitResult {
   vel: number;
 }
 
+/**
+ * 自适应步长积分的误差控制参数
+ */
+export interface AdaptiveOptions {
+  relTol?: number; // 相对误差容限 (默认 1e-6)
+  absTol?: number; // 绝对误差容限 (默认 1e-9)
+  initialStep?: number | undefined; // 初始试探步长 (默认取整个 dt，通常传入上次报告的 nextStep)
+  minStep?: number; // 最小步长，低于此值时强制接受并在报告中标记
+  maxStep?: number; // 最大步长
+  maxSteps?: number; // 单次调用允许的最大尝试次数，防止死循环
+  onReport?: (report: AdaptiveReport) => void; // 通过 Integrator.integrate 按名称调用时接收报告
+}
+
+/**
+ * 单次被拒绝的试探步
+ */
+export interface StepRejection {
+  t: number; // 试探步起点时间
+  h: number; // 试探步长
+  error: number; // 归一化误差 (> 1 即被拒绝)
+}
+
+/**
+ * 自适应积分报告
+ */
+export interface AdaptiveReport {
+  acceptedSteps: number;
+  rejectedSteps: number;
+  rejections: StepRejection[];
+  minStepUsed: number;
+  maxStepUsed: number;
+  maxError: number; // 已接受步的最大归一化误差 (<= 1 表示满足容限)
+  nextStep: number; // 建议下一次调用使用的初始步长
+  hitMinStep: boolean; // 是否达到最小步长 (强制接受误差超限的步，或误差非有限而停止)
+  completed: boolean; // 是否积分到 t + dt (超过 maxSteps 或误差非有限时为 false)
+}
+
+export interface AdaptiveResult<S = StateObject> {
+  state: S;
+  report: AdaptiveReport;
+}
+
+/**
+ * 数值状态：任意只包含数值字段的对象 (接口类型也可直接传入)
+ */
+type NumericState<S> = { [K in keyof S]: number };
+
+/**
+ * 可按名称切换的积分方法 (签名均为 (state, t, dt, derivatives))
+ */
+export type IntegratorMethod = 'euler' | 'rk4' | 'rk45';
+
+/**
+ * 辛积分方法 (作用于位置/速度分离的二阶系统，长时间运行能量不漂移)
+ */
+export type SymplecticMethod = 'semiImplicit' | 'verlet' | 'leapfrog' | 'yoshida4';
+
+/**
+ * 二阶系统 (x'' = a(x, v, t)) 可用的全部方法
+ */
+export type SecondOrderMethod = SymplecticMethod | IntegratorMethod;
+
+/**
+ * 相空间状态：位置与速度分别以相同的键存放 (例如 { x, y } 与 { x, y })
+ */
+export interface PhaseState {
+  pos: StateObject;
+  vel: StateObject;
+}
+
+/**
+ * 多维加速度函数，返回与位置同键的加速度
+ */
+export interface AccelerationFieldFunction {
+  (pos: StateObject, vel: StateObject, t: number): StateObject;
+}
+
+/**
+ * 方法显示名称 (控制面板与图表图例共用)
+ */
+export const INTEGRATOR_LABELS: Record<SecondOrderMethod, string> = {
+  euler: '欧拉法',
+  semiImplicit: '半隐式欧拉',
+  verlet: 'Velocity Verlet',
+  leapfrog: '蛙跳法 (Leapfrog)',
+  yoshida4: 'Yoshida 四阶',
+  rk4: 'RK4',
+  rk45: 'RK45 (自适应)',
+};
+
+/**
+ * 生成积分方法下拉框选项 (供场景 getControlConfig 的 select 控件使用)
+ * @param methods 场景支持的方法
+ */
+export function getIntegratorOptions(
+  methods: readonly SecondOrderMethod[]
+): { label: string; value: SecondOrderMethod }[] {
+  return methods.map(value => ({ label: INTEGRATOR_LABELS[value], value }));
+}
+
+// Yoshida 四阶系数
+const YOSHIDA_W1 = 1 / (2 - Math.cbrt(2));
+const YOSHIDA_W0 = -Math.cbrt(2) * YOSHIDA_W1;
+const YOSHIDA_C = [YOSHIDA_W1 / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, YOSHIDA_W1 / 2];
+const YOSHIDA_D = [YOSHIDA_W1, YOSHIDA_W0, YOSHIDA_W1];
+
+/**
+ * 计算 a + b * scale (按 a 的键)
+ */
+function addScaled(a: StateObject, b: StateObject, scale: number): StateObject {
+  const out: StateObject = {};
+  for (const key in a) {
+    out[key] = (a[key] as number) + ((b[key] as number) || 0) * scale;
+  }
+  return out;
+}
+
+// Dormand–Prince 5(4) Butcher 表
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A: number[][] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// 五阶解与四阶嵌入解之差 (b5 - b4)，用于误差估计
+const DP_E = [
+  71 / 57600,
+  0,
+  -71 / 16695,
+  71 / 1920,
+  -17253 / 339200,
+  22 / 525,
+  -1 / 40,
+];
+
+/**
+ * 计算 y + h * sum(coeffs[i] * ks[i])，只推进导数中存在的键
+ */
+function combine(state: StateObject, ks: StateObject[], coeffs: number[], h: number): StateObject {
+  const out: StateObject = {};
+  for (const key in state) {
+    let value = state[key] as number;
+    if (ks[0] && ks[0].hasOwnProperty(key)) {
+      for (let i = 0; i < coeffs.length; i++) {
+        const c = coeffs[i] as number;
+        if (c !== 0) value += h * c * ((ks[i] as StateObject)[key] as number);
+      }
+    }
+    out[key] = value;
+  }
+  return out;
+}
+
 export const Integrator = {
   /**
    * 欧拉法 (Euler Method)
@@ -123,4 +280,319 @@ export const Integrator = {
     const newPos = pos + newVel * dt;
     return { pos: newPos, vel: newVel };
   },
+  /**
+   * Dormand–Prince 5(4) 自适应步长法 (RK45)
+   * 在 [t, t + dt] 内自动划分子步，用嵌入的四阶解估计局部误差，
+   * 误差超出容限的试探步会被拒绝并以更小步长重试。
+   *
+   * @param {Object} state 当前状态
+   * @param {number} t 当前时间
+   * @param {number} dt 需要推进的总时长 (例如 Engine.fixedDeltaTime)
+   * @param {Function} derivatives 导数函数 (state, t) => rates
+   * @param {Object} options 误差控制参数
+   * @returns {Object} { state, report } 新状态与步长控制报告
+   */
+  dormandPrince<S extends NumericState<S>>(
+    initial: S,
+    t: number,
+    dt: number,
+    derivativesFn: (state: S, t: number) => Partial<NumericState<S>>,
+    options: AdaptiveOptions = {}
+  ): AdaptiveResult<S> {
+    const state = initial as unknown as StateObject;
+    const derivatives = derivativesFn as unknown as DerivativesFunction;
+    const relTol = options.relTol ?? 1e-6;
+    const absTol = options.absTol ?? 1e-9;
+    const maxStep = options.maxStep ?? Math.abs(dt);
+    const minStep = options.minStep ?? Math.abs(dt) * 1e-8;
+    const maxSteps = options.maxSteps ?? 10000;
+    const safety = 0.9;
+
+    const report: AdaptiveReport = {
+      acceptedSteps: 0,
+      rejectedSteps: 0,
+      rejections: [],
+      minStepUsed: Infinity,
+      maxStepUsed: 0,
+      maxError: 0,
+      nextStep: Math.abs(dt),
+      hitMinStep: false,
+      completed: dt === 0,
+    };
+
+    if (dt === 0) return { state: { ...initial }, report };
+
+    const direction = dt > 0 ? 1 : -1;
+    const tEnd = t + dt;
+    let h = Math.min(Math.abs(options.initialStep ?? dt), maxStep);
+    let y: StateObject = { ...state };
+    let tCur = t;
+    let k1 = derivatives(y, tCur);
+
+    for (let attempt = 0; attempt < maxSteps; attempt++) {
+      const remaining = Math.abs(tEnd - tCur);
+      if (remaining <= Math.abs(dt) * 1e-12) {
+        report.completed = true;
+        break;
+      }
+      const isLast = h >= remaining;
+      const hStep = (isLast ? remaining : h) * direction;
+
+      // 七级计算 (第七级在新点处求值，可作为下一步的 k1 复用 —— FSAL)
+      const ks: StateObject[] = [k1];
+      for (let stage = 1; stage < 7; stage++) {
+        const yStage = combine(y, ks, DP_A[stage] as number[], hStep);
+        ks.push(derivatives(yStage, tCur + (DP_C[stage] as number) * hStep));
+      }
+      const yNew = combine(y, ks.slice(0, 6), DP_A[6] as number[], hStep);
+
+      // 归一化 RMS 误差
+      let sum = 0;
+      let n = 0;
+      for (const key in y) {
+        if (!k1.hasOwnProperty(key)) continue;
+        let errKey = 0;
+        for (let i = 0; i < 7; i++) {
+          errKey += (DP_E[i] as number) * ((ks[i] as StateObject)[key] as number);
+        }
+        errKey *= hStep;
+        const scale =
+          absTol + relTol * Math.max(Math.abs(y[key] as number), Math.abs(yNew[key] as number));
+        sum += (errKey / scale) ** 2;
+        n++;
+      }
+      const error = n > 0 ? Math.sqrt(sum / n) : 0;
+      const absH = Math.abs(hStep);
+      const forced = absH <= minStep;
+
+      if (!isFinite(error)) {
+        // 误差为 NaN / Infinity (导数溢出或发散)：拒绝并大幅缩小步长，已是最小步长时停止积分
+        report.rejectedSteps++;
+        report.rejections.push({ t: tCur, h: absH, error });
+        if (forced) {
+          report.hitMinStep = true;
+          break;
+        }
+        h = Math.max(minStep, absH * 0.2);
+      } else if (error <= 1 || forced) {
+        // 接受该步 (误差超限但已是最小步长时强制接受)
+        if (error > 1) report.hitMinStep = true;
+        y = yNew;
+        tCur = isLast ? tEnd : tCur + hStep;
+        k1 = ks[6] as StateObject;
+        report.acceptedSteps++;
+        report.minStepUsed = Math.min(report.minStepUsed, absH);
+        report.maxStepUsed = Math.max(report.maxStepUsed, absH);
+        report.maxError = Math.max(report.maxError, error);
+
+        const growth = error === 0 ? 5 : Math.min(5, Math.max(0.2, safety * error ** -0.2));
+        // 末步被截断时保留原步长作为下一次的建议值
+        const base = isLast ? Math.max(absH, h) : absH;
+        h = Math.min(maxStep, base * growth);
+        report.nextStep = h;
+
+        if (isLast) {
+          report.completed = true;
+          break;
+        }
+      } else {
+        // 拒绝该步并缩小步长
+        report.rejectedSteps++;
+        report.rejections.push({ t: tCur, h: absH, error });
+        h = Math.max(minStep, absH * Math.max(0.1, safety * error ** -0.2));
+      }
+    }
+
+    if (!report.completed) {
+      const reason = report.hitMinStep
+        ? 'non-finite error at minimum step'
+        : `exceeded ${maxSteps} attempts`;
+      console.warn(`[Integrator] dormandPrince: ${reason}, stopped at t=${tCur} (target ${tEnd})`);
+    }
+    if (report.acceptedSteps === 0) report.minStepUsed = 0;
+
+    return { state: y as unknown as S, report };
+  },
+
+  /**
+   * RK45 (Dormand–Prince) 的简化接口，返回值与 euler / rk4 一致。
+   * 需要步长报告时请通过 options.onReport 接收，或直接调用 dormandPrince。
+   */
+  rk45<S extends NumericState<S>>(
+    state: S,
+    t: number,
+    dt: number,
+    derivatives: (state: S, t: number) => Partial<NumericState<S>>,
+    options: AdaptiveOptions = {}
+  ): S {
+    const { state: newState, report } = Integrator.dormandPrince(state, t, dt, derivatives, options);
+    if (options.onReport) options.onReport(report);
+    return newState;
+  },
+
+  /**
+   * 按名称调用积分方法，便于场景在运行时切换算法。
+   * @param {string} method 'euler' | 'rk4' | 'rk45'
+   * @param {Object} state 当前状态
+   * @param {number} t 当前时间
+   * @param {number} dt 时间步长
+   * @param {Function} derivatives 导数函数 (state, t) => rates
+   * @param {Object} options 仅自适应方法使用的误差控制参数
+   * @returns {Object} 新的状态对象
+   */
+  integrate<S extends NumericState<S>>(
+    method: IntegratorMethod,
+    state: S,
+    t: number,
+    dt: number,
+    derivatives: (state: S, t: number) => Partial<NumericState<S>>,
+    options: AdaptiveOptions = {}
+  ): S {
+    // euler / rk4 沿用非泛型签名
+    const s = state as unknown as StateObject;
+    const f = derivatives as unknown as DerivativesFunction;
+    switch (method) {
+      case 'euler':
+        return Integrator.euler(s, t, dt, f) as unknown as S;
+      case 'rk4':
+        return Integrator.rk4(s, t, dt, f) as unknown as S;
+      case 'rk45':
+        return Integrator.rk45(state, t, dt, derivatives, options);
+      default:
+        throw new Error(`[Integrator] Unknown integration method "${method}"`);
+    }
+  },
+  /**
+   * 速度 Verlet 法 (Velocity Verlet)
+   * 二阶辛积分，适合引力、弹簧等保守系统。
+   * x_{n+1} = x_n + v_n dt + a_n dt^2 / 2
+   * v_{n+1} = v_n + (a_n + a_{n+1}) dt / 2
+   * 注意：若加速度依赖速度 (阻尼)，a_{n+1} 使用预测速度 v_n + a_n dt 计算，此时不再严格辛。
+   *
+   * @param {Object} state 相空间状态 { pos, vel }
+   * @param {number} t 当前时间
+   * @param {number} dt 时间步长
+   * @param {Function} acceleration 加速度函数 (pos, vel, t) => acc
+   * @returns {Object} 新的相空间状态
+   */
+  velocityVerlet(state: PhaseState, t: number, dt: number, acceleration: AccelerationFieldFunction): PhaseState {
+    const { pos, vel } = state;
+    const a0 = acceleration(pos, vel, t);
+    const newPos: StateObject = {};
+    for (const key in pos) {
+      newPos[key] = (pos[key] as number) + (vel[key] as number) * dt + 0.5 * ((a0[key] as number) || 0) * dt * dt;
+    }
+    const a1 = acceleration(newPos, addScaled(vel, a0, dt), t + dt);
+    const newVel: StateObject = {};
+    for (const key in vel) {
+      newVel[key] = (vel[key] as number) + 0.5 * (((a0[key] as number) || 0) + ((a1[key] as number) || 0)) * dt;
+    }
+    return { pos: newPos, vel: newVel };
+  },
+
+  /**
+   * 蛙跳法 (Leapfrog, drift-kick-drift)
+   * 位置先走半步，在中点计算加速度更新速度，再走后半步。
+   * 与速度 Verlet 同为二阶辛积分，但每步只需一次加速度求值。
+   *
+   * @param {Object} state 相空间状态 { pos, vel }
+   * @param {number} t 当前时间
+   * @param {number} dt 时间步长
+   * @param {Function} acceleration 加速度函数 (pos, vel, t) => acc
+   * @returns {Object} 新的相空间状态
+   */
+  leapfrog(state: PhaseState, t: number, dt: number, acceleration: AccelerationFieldFunction): PhaseState {
+    const halfPos = addScaled(state.pos, state.vel, dt * 0.5);
+    const a = acceleration(halfPos, state.vel, t + dt * 0.5);
+    const newVel = addScaled(state.vel, a, dt);
+    const newPos = addScaled(halfPos, newVel, dt * 0.5);
+    return { pos: newPos, vel: newVel };
+  },
+
+  /**
+   * Yoshida 四阶辛积分 (Yoshida 1990)
+   * 由三次蛙跳组合而成 (其中一步时间为负)，误差 O(dt^4)，长期能量误差有界。
+   *
+   * @param {Object} state 相空间状态 { pos, vel }
+   * @param {number} t 当前时间
+   * @param {number} dt 时间步长
+   * @param {Function} acceleration 加速度函数 (pos, vel, t) => acc
+   * @returns {Object} 新的相空间状态
+   */
+  yoshida4(state: PhaseState, t: number, dt: number, acceleration: AccelerationFieldFunction): PhaseState {
+    let pos = state.pos;
+    let vel = state.vel;
+    let time = t;
+    for (let i = 0; i < 3; i++) {
+      const c = YOSHIDA_C[i] as number;
+      pos = addScaled(pos, vel, c * dt);
+      time += c * dt;
+      vel = addScaled(vel, acceleration(pos, vel, time), (YOSHIDA_D[i] as number) * dt);
+    }
+    pos = addScaled(pos, vel, (YOSHIDA_C[3] as number) * dt);
+    return { pos, vel };
+  },
+
+  /**
+   * 按名称推进二阶系统 x'' = a(x, v, t)。
+   * 辛方法直接作用于 { pos, vel }；euler / rk4 / rk45 会把状态展开为一阶系统后求解。
+   *
+   * @param {string} method 方法名称
+   * @param {Object} state 相空间状态 { pos, vel }
+   * @param {number} t 当前时间
+   * @param {number} dt 时间步长
+   * @param {Function} acceleration 加速度函数 (pos, vel, t) => acc
+   * @param {Object} options 仅自适应方法使用的误差控制参数
+   * @returns {Object} 新的相空间状态
+   */
+  stepSecondOrder(
+    method: SecondOrderMethod,
+    state: PhaseState,
+    t: number,
+    dt: number,
+    acceleration: AccelerationFieldFunction,
+    options: AdaptiveOptions = {}
+  ): PhaseState {
+    switch (method) {
+      case 'semiImplicit': {
+        const newVel = addScaled(state.vel, acceleration(state.pos, state.vel, t), dt);
+        return { pos: addScaled(state.pos, newVel, dt), vel: newVel };
+      }
+      case 'verlet':
+        return Integrator.velocityVerlet(state, t, dt, acceleration);
+      case 'leapfrog':
+        return Integrator.leapfrog(state, t, dt, acceleration);
+      case 'yoshida4':
+        return Integrator.yoshida4(state, t, dt, acceleration);
+      default: {
+        // 展开为一阶系统: 键 'p:x' 表示位置，'v:x' 表示速度
+        const keys = Object.keys(state.pos);
+        const flat: StateObject = {};
+        keys.forEach(key => {
+          flat[`p:${key}`] = state.pos[key] as number;
+          flat[`v:${key}`] = state.vel[key] as number;
+        });
+        const split = (s: StateObject): PhaseState => {
+          const pos: StateObject = {};
+          const vel: StateObject = {};
+          keys.forEach(key => {
+            pos[key] = s[`p:${key}`] as number;
+            vel[key] = s[`v:${key}`] as number;
+          });
+          return { pos, vel };
+        };
+        const derivatives = (s: StateObject, time: number): StateObject => {
+          const { pos, vel } = split(s);
+          const acc = acceleration(pos, vel, time);
+          const rates: StateObject = {};
+          keys.forEach(key => {
+            rates[`p:${key}`] = vel[key] as number;
+            rates[`v:${key}`] = (acc[key] as number) || 0;
+          });
+          return rates;
+        };
+        return split(Integrator.integrate(method, flat, t, dt, derivatives, options));
+      }
+    }
+  },
 };
@@ -0,0 +1,238 @@
+import { Viewport, ScreenPoint, WorldPoint } from './Viewport';
+
+// 类型定义
+/**
+ * 命中区域 (世界坐标，与场景的物理坐标一致)
+ * 矩形以 (x, y) 为中心。只有像素尺寸的物体 (例如固定半径的小球) 可用 radius: 0 加上 padding。
+ */
+export type HitShape =
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number };
+
+/**
+ * 指针信息：当前位置与按下时的位置 (拖动起点)
+ */
+export interface PointerInfo {
+  world: WorldPoint;
+  screen: ScreenPoint; // 画布坐标 (CSS 像素)
+  startWorld: WorldPoint;
+  startScreen: ScreenPoint;
+}
+
+/**
+ * 可交互目标
+ * 提供 onDrag* 的目标按下即开始拖动；只提供 onClick 的目标在按下并原地松开时触发点击。
+ */
+export interface HitTarget {
+  id: string;
+  // 命中区域；函数形式在每次命中测试时读取 (适合随模拟运动的物体)，返回 null 表示暂不可交互
+  shape: HitShape | null | (() => HitShape | null);
+  padding?: number; // 额外的命中容差 (像素)
+  cursor?: string; // 悬停时的光标 (默认：可拖动为 grab，可点击为 pointer)
+  onClick?: (pointer: PointerInfo) => void;
+  onDragStart?: (pointer: PointerInfo) => void;
+  onDrag?: (pointer: PointerInfo) => void;
+  onDragEnd?: (pointer: PointerInfo) => void;
+  onHover?: (hovering: boolean) => void;
+}
+
+// 按下后移动超过该距离 (像素) 不再视为点击
+const CLICK_TOLERANCE = 4;
+
+/**
+ * 场景交互层
+ * 场景以世界坐标注册命中区域，指针 (鼠标 / 触摸 / 手写笔) 事件经 Viewport.screenToWorld 转换后做命中测试，
+ * 统一处理悬停、点击、拖动与光标样式。注册第一个目标时挂接画布事件，场景卸载时由引擎调用 detach()。
+ * 后注册的目标位于上层，重叠时优先命中。
+ */
+export class InteractionLayer {
+  private canvas: HTMLCanvasElement;
+  private viewport: Viewport;
+  private targets: HitTarget[];
+  private attached: boolean;
+  private hovered: HitTarget | null;
+  // 当前按下的目标与按下时的位置
+  private active: { target: HitTarget; pointerId: number; start: PointerInfo } | null;
+
+  constructor(canvas: HTMLCanvasElement, viewport: Viewport) {
+    this.canvas = canvas;
+    this.viewport = viewport;
+    this.targets = [];
+    this.attached = false;
+    this.hovered = null;
+    this.active = null;
+    this.handlePointerDown = this.handlePointerDown.bind(this);
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handlePointerLeave = this.handlePointerLeave.bind(this);
+  }
+
+  /**
+   * 注册目标 (同 id 的目标被替换)
+   */
+  add(target: HitTarget): void {
+    this.remove(target.id);
+    this.targets.push(target);
+    this.attach();
+  }
+
+  /**
+   * 移除目标
+   */
+  remove(id: string): void {
+    this.targets = this.targets.filter(target => target.id !== id);
+    if (this.hovered && this.hovered.id === id) this.setHovered(null);
+  }
+
+  /**
+   * 是否正在拖动 (或按住) 某个目标；不传 id 时判断任意目标
+   */
+  isActive(id?: string): boolean {
+    return !!this.active && (id === undefined || this.active.target.id === id);
+  }
+
+  /**
+   * 解除画布事件并清空目标
+   */
+  detach(): void {
+    if (this.attached) {
+      this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+      this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+      this.canvas.removeEventListener('pointerup', this.handlePointerUp);
+      this.canvas.removeEventListener('pointercancel', this.handlePointerUp);
+      this.canvas.removeEventListener('pointerleave', this.handlePointerLeave);
+      this.canvas.style.touchAction = '';
+      this.canvas.style.cursor = 'default';
+      this.attached = false;
+    }
+    this.targets = [];
+    this.hovered = null;
+    this.active = null;
+  }
+
+  /**
+   * 屏幕坐标处最上层的目标
+   */
+  hitTest(sx: number, sy: number): HitTarget | null {
+    const world = this.viewport.screenToWorld(sx, sy);
+    for (let i = this.targets.length - 1; i >= 0; i--) {
+      const target = this.targets[i]!;
+      const shape = typeof target.shape === 'function' ? target.shape() : target.shape;
+      if (shape && this.contains(shape, world, this.viewport.toMeters(target.padding || 0))) {
+        return target;
+      }
+    }
+    return null;
+  }
+
+  private attach(): void {
+    if (this.attached) return;
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.addEventListener('pointermove', this.handlePointerMove);
+    this.canvas.addEventListener('pointerup', this.handlePointerUp);
+    this.canvas.addEventListener('pointercancel', this.handlePointerUp);
+    this.canvas.addEventListener('pointerleave', this.handlePointerLeave);
+    // 触摸拖动时不滚动页面
+    this.canvas.style.touchAction = 'none';
+    this.attached = true;
+  }
+
+  private contains(shape: HitShape, point: WorldPoint, padding: number): boolean {
+    if (shape.type === 'circle') {
+      return Math.hypot(point.x - shape.x, point.y - shape.y) <= shape.radius + padding;
+    }
+    return (
+      Math.abs(point.x - shape.x) <= shape.width / 2 + padding &&
+      Math.abs(point.y - shape.y) <= shape.height / 2 + padding
+    );
+  }
+
+  private getScreenPoint(e: PointerEvent): ScreenPoint {
+    const rect = this.canvas.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  private getPointerInfo(screen: ScreenPoint, start?: PointerInfo): PointerInfo {
+    const world = this.viewport.screenToWorld(screen.x, screen.y);
+    return {
+      world,
+      screen,
+      startWorld: start ? start.startWorld : world,
+      startScreen: start ? start.startScreen : screen,
+    };
+  }
+
+  private isDraggable(target: HitTarget): boolean {
+    return !!(target.onDragStart || target.onDrag || target.onDragEnd);
+  }
+
+  private updateCursor(): void {
+    if (this.active && this.isDraggable(this.active.target)) {
+      this.canvas.style.cursor = 'grabbing';
+    } else if (this.hovered) {
+      this.canvas.style.cursor =
+        this.hovered.cursor || (this.isDraggable(this.hovered) ? 'grab' : 'pointer');
+    } else {
+      this.canvas.style.cursor = 'default';
+    }
+  }
+
+  private setHovered(target: HitTarget | null): void {
+    if (target === this.hovered) return;
+    if (this.hovered && this.hovered.onHover) this.hovered.onHover(false);
+    this.hovered = target;
+    if (target && target.onHover) target.onHover(true);
+    this.updateCursor();
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (this.active) return;
+    const screen = this.getScreenPoint(e);
+    const target = this.hitTest(screen.x, screen.y);
+    if (!target) return;
+
+    const start = this.getPointerInfo(screen);
+    this.active = { target, pointerId: e.pointerId, start };
+    this.canvas.setPointerCapture(e.pointerId);
+    e.preventDefault();
+    if (target.onDragStart) target.onDragStart(start);
+    this.updateCursor();
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const screen = this.getScreenPoint(e);
+    const active = this.active;
+    if (!active) {
+      this.setHovered(this.hitTest(screen.x, screen.y));
+      return;
+    }
+    if (e.pointerId !== active.pointerId) return;
+    if (active.target.onDrag) active.target.onDrag(this.getPointerInfo(screen, active.start));
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const active = this.active;
+    if (!active || e.pointerId !== active.pointerId) return;
+    this.active = null;
+    this.canvas.releasePointerCapture(e.pointerId);
+
+    const screen = this.getScreenPoint(e);
+    const pointer = this.getPointerInfo(screen, active.start);
+    const target = active.target;
+    if (target.onDragEnd) target.onDragEnd(pointer);
+
+    // 原地松开 (且未取消) 视为点击
+    const moved = Math.hypot(screen.x - active.start.screen.x, screen.y - active.start.screen.y);
+    if (target.onClick && e.type === 'pointerup' && moved <= CLICK_TOLERANCE) {
+      target.onClick(pointer);
+    }
+
+    // 拖动结束后按当前位置更新悬停状态
+    this.setHovered(this.hitTest(screen.x, screen.y));
+    this.updateCursor();
+  }
+
+  private handlePointerLeave(): void {
+    if (!this.active) this.setHovered(null);
+  }
+}
@@ -0,0 +1,286 @@
+import { Viewport } from './Viewport';
+
+// 类型定义
+export type MeasurementLayer = 'ruler' | 'grid' | 'axes' | 'scaleBar';
+
+/**
+ * 测量叠加层配置 (由 Scene.getMeasurementConfig() 提供)
+ * 各图层的值为场景加载时的默认开关，用户可在控制面板中切换。
+ */
+export interface MeasurementConfig {
+  unit?: string; // 物理坐标的单位 (默认 "m"，空字符串表示无单位)
+  ruler?: boolean; // 右侧与底部标尺 (默认开启)
+  grid?: boolean; // 网格 (默认关闭)
+  axes?: boolean; // 坐标轴 x = 0 与 y = 0 (默认关闭)
+  scaleBar?: boolean; // 左下角比例尺 (默认开启)
+}
+
+// 控制面板中的图层开关
+export const MEASUREMENT_LAYERS: { key: MeasurementLayer; label: string }[] = [
+  { key: 'ruler', label: '标尺' },
+  { key: 'grid', label: '网格' },
+  { key: 'axes', label: '坐标轴' },
+  { key: 'scaleBar', label: '比例尺' },
+];
+
+// 刻度与网格线的最小间距、比例尺的目标长度 (像素)
+const TICK_SPACING = 80;
+const SCALE_BAR_LENGTH = 100;
+// 标尺到画面边缘的距离 (像素)
+const RULER_INSET = 20;
+
+/**
+ * 测量叠加层
+ * 按场景 Viewport 的比例 (像素/米) 在画面上绘制标尺、网格、坐标轴与比例尺，数值为物理坐标，
+ * 刻度取 1/2/5 系列并随缩放与平移变化。没有声明测量配置的场景 (直接按像素绘制) 不显示。
+ * 引擎在实时画面的叠加画布上绘制，离线渲染 (截图、视频、SVG) 使用同一方法。
+ */
+export class MeasurementOverlay {
+  private viewport: Viewport | null;
+  private unit: string;
+  private layers: Record<MeasurementLayer, boolean>;
+
+  constructor() {
+    this.viewport = null;
+    this.unit = 'm';
+    this.layers = { ruler: false, grid: false, axes: false, scaleBar: false };
+  }
+
+  /**
+   * 切换场景时按场景配置重置 (config 为 null 时不显示)
+   * @param {Viewport} viewport - 场景的视口
+   * @param {MeasurementConfig | null} config - 场景的测量配置
+   */
+  configure(viewport: Viewport, config: MeasurementConfig | null): void {
+    this.viewport = config ? viewport : null;
+    this.unit = config && config.unit !== undefined ? config.unit : 'm';
+    this.layers = {
+      ruler: !!config && config.ruler !== false,
+      grid: !!config && !!config.grid,
+      axes: !!config && !!config.axes,
+      scaleBar: !!config && config.scaleBar !== false,
+    };
+  }
+
+  /**
+   * 当前场景是否支持测量叠加层
+   */
+  isAvailable(): boolean {
+    return this.viewport !== null;
+  }
+
+  isEnabled(layer: MeasurementLayer): boolean {
+    return this.layers[layer];
+  }
+
+  setEnabled(layer: MeasurementLayer, enabled: boolean): void {
+    this.layers[layer] = enabled;
+  }
+
+  /**
+   * 绘制叠加层
+   * @param {CanvasRenderingContext2D} ctx - 目标上下文
+   * @param {number} width - 区域宽度 (逻辑像素，与场景尺寸一致)
+   * @param {number} height - 区域高度 (逻辑像素)
+   * @param {string} background - 画面背景色 (浅色背景上使用深色线条)
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    background: string = ''
+  ): void {
+    if (!this.viewport) return;
+    const color = isLightColor(background) ? '#000000' : '#ffffff';
+    const step = this.getStep(TICK_SPACING);
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 1;
+    ctx.font = '12px Arial';
+
+    if (this.layers.grid) this.drawGrid(ctx, width, height, step);
+    if (this.layers.axes) this.drawAxes(ctx, width, height);
+    if (this.layers.ruler) this.drawRulers(ctx, width, height, step);
+    if (this.layers.scaleBar) this.drawScaleBar(ctx, height);
+    ctx.restore();
+  }
+
+  /**
+   * 不小于给定像素长度的 1/2/5 系列物理长度
+   */
+  private getStep(pixels: number): number {
+    const raw = this.viewport!.toMeters(pixels);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    return [1, 2, 5, 10].find(m => m * magnitude >= raw)! * magnitude;
+  }
+
+  /**
+   * 按刻度间隔格式化数值 (小数位数与间隔一致，0 不显示为 "-0")
+   */
+  private format(value: number, step: number): string {
+    const decimals = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+    return Math.abs(value) < step / 2 ? '0' : value.toFixed(decimals);
+  }
+
+  private withUnit(text: string): string {
+    return this.unit ? `${text} ${this.unit}` : text;
+  }
+
+  /**
+   * 可见区域内的刻度值 (物理坐标)
+   */
+  private getTicks(min: number, max: number, step: number): number[] {
+    const ticks: number[] = [];
+    for (let k = Math.ceil(min / step); k * step <= max; k++) ticks.push(k * step);
+    return ticks;
+  }
+
+  private drawGrid(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    step: number
+  ): void {
+    const viewport = this.viewport!;
+    const topLeft = viewport.screenToWorld(0, 0);
+    const bottomRight = viewport.screenToWorld(width, height);
+
+    ctx.save();
+    ctx.globalAlpha = 0.12;
+    ctx.beginPath();
+    this.getTicks(topLeft.x, bottomRight.x, step).forEach(x => {
+      const sx = Math.round(viewport.worldToScreen(x, 0).x) + 0.5;
+      ctx.moveTo(sx, 0);
+      ctx.lineTo(sx, height);
+    });
+    this.getTicks(bottomRight.y, topLeft.y, step).forEach(y => {
+      const sy = Math.round(viewport.worldToScreen(0, y).y) + 0.5;
+      ctx.moveTo(0, sy);
+      ctx.lineTo(width, sy);
+    });
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * 坐标轴 x = 0 与 y = 0 (在画面内时绘制)，轴端标注方向与单位
+   */
+  private drawAxes(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const origin = this.viewport!.worldToScreen(0, 0);
+    const unit = this.unit ? ` (${this.unit})` : '';
+
+    ctx.save();
+    ctx.globalAlpha = 0.5;
+    ctx.beginPath();
+    if (origin.y >= 0 && origin.y <= height) {
+      ctx.moveTo(0, origin.y);
+      ctx.lineTo(width, origin.y);
+    }
+    if (origin.x >= 0 && origin.x <= width) {
+      ctx.moveTo(origin.x, 0);
+      ctx.lineTo(origin.x, height);
+    }
+    ctx.stroke();
+
+    ctx.globalAlpha = 0.8;
+    if (origin.y >= 0 && origin.y <= height) {
+      ctx.textAlign = 'right';
+      ctx.fillText(`x${unit}`, width - RULER_INSET - 40, origin.y - 6);
+    }
+    if (origin.x >= 0 && origin.x <= width) {
+      ctx.textAlign = 'left';
+      ctx.fillText(`y${unit}`, origin.x + 6, 14);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 右侧纵向标尺 (y 坐标) 与底部横向标尺 (x 坐标)
+   */
+  private drawRulers(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    step: number
+  ): void {
+    const viewport = this.viewport!;
+    const topLeft = viewport.screenToWorld(0, 0);
+    const bottomRight = viewport.screenToWorld(width, height);
+    const rightX = width - RULER_INSET;
+    const bottomY = height - RULER_INSET;
+
+    ctx.beginPath();
+    ctx.moveTo(rightX, 0);
+    ctx.lineTo(rightX, bottomY);
+    ctx.moveTo(0, bottomY);
+    ctx.lineTo(rightX, bottomY);
+    ctx.stroke();
+
+    // 纵向刻度，标注在标尺左侧；单位标在顶部
+    ctx.textAlign = 'right';
+    this.getTicks(bottomRight.y, topLeft.y, step).forEach(y => {
+      const sy = viewport.worldToScreen(0, y).y;
+      if (sy > bottomY - 10) return;
+      ctx.beginPath();
+      ctx.moveTo(rightX + 5, sy);
+      ctx.lineTo(rightX - 5, sy);
+      ctx.stroke();
+      ctx.fillText(this.format(y, step), rightX - 8, sy + 4);
+    });
+    if (this.unit) ctx.fillText(this.unit, rightX - 8, 14);
+
+    // 横向刻度，标注在标尺上方 (避开右下角)
+    ctx.textAlign = 'center';
+    this.getTicks(topLeft.x, bottomRight.x, step).forEach(x => {
+      const sx = viewport.worldToScreen(x, 0).x;
+      if (sx > rightX - 30) return;
+      ctx.beginPath();
+      ctx.moveTo(sx, bottomY + 5);
+      ctx.lineTo(sx, bottomY - 5);
+      ctx.stroke();
+      ctx.fillText(this.format(x, step), sx, bottomY - 8);
+    });
+  }
+
+  /**
+   * 左下角比例尺：一段整齐物理长度对应的线段
+   */
+  private drawScaleBar(ctx: CanvasRenderingContext2D, height: number): void {
+    const length = this.getStep(SCALE_BAR_LENGTH);
+    const pixels = this.viewport!.toPixels(length);
+    const x = RULER_INSET;
+    const y = height - RULER_INSET - 30;
+
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x, y - 5);
+    ctx.lineTo(x, y);
+    ctx.lineTo(x + pixels, y);
+    ctx.lineTo(x + pixels, y - 5);
+    ctx.stroke();
+    ctx.textAlign = 'center';
+    ctx.fillText(this.withUnit(this.format(length, length)), x + pixels / 2, y - 8);
+    ctx.restore();
+  }
+}
+
+/**
+ * CSS 颜色 (#rgb、#rrggbb 或 rgb()/rgba()) 是否为浅色；无法解析时视为深色
+ */
+function isLightColor(color: string): boolean {
+  let rgb: number[] | null = null;
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1]!.length === 3 ? hex[1]!.replace(/./g, c => c + c) : hex[1]!;
+    rgb = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16));
+  } else {
+    const match = color.match(/rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)/i);
+    if (match) rgb = [match[1], match[2], match[3]].map(Number);
+  }
+  if (!rgb) return false;
+  // 相对亮度 (ITU-R BT.601 权重)
+  return (0.299 * rgb[0]! + 0.587 * rgb[1]! + 0.114 * rgb[2]!) / 255 > 0.6;
+}
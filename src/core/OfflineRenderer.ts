@@ -0,0 +1,238 @@
+/**
+ * OfflineRenderer.ts
+ * 离线逐帧渲染：按输出帧推进精确的物理步数并同步绘制，供视频、GIF 等导出使用
+ */
+
+import { SvgContext } from '../utils/svg';
+
+// 类型定义
+export interface OfflineRenderOptions {
+  duration: number; // 物理时长 (s)
+  fps: number; // 输出帧率 (不超过物理步频 60，可为小数)
+  restart?: boolean; // 渲染前重新开始模拟
+  // 自定义每帧的绘制 (默认为 drawFrame；组合导出时在其中排版图表与公式)
+  draw?: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+}
+
+export interface OfflineFrame {
+  index: number; // 帧序号 (从 0 开始)
+  total: number; // 总帧数
+  physicsTime: number; // 该帧对应的物理时间 (s)
+}
+
+/**
+ * 离线渲染所需的引擎接口
+ */
+interface OfflineEngine {
+  canvas: HTMLCanvasElement;
+  currentScene: any;
+  renderer: { getType(): string };
+  fixedDeltaTime: number;
+  physicsTime: number;
+  pause(): void;
+  resetTime(): void;
+  advanceFrame(steps: number): void;
+  redraw(): void;
+  drawOverlay(ctx: CanvasRenderingContext2D, width: number, height: number): void;
+}
+
+/**
+ * 离线渲染器
+ * 与实时循环不同，这里不读取真实时间：引擎保持暂停，每个输出帧按累计时间取整推进整数个物理步，
+ * 再把场景以 alpha = 1 同步重绘到目标画布。2D 场景按逻辑尺寸 × 输出缩放直接调用 scene.render(ctx)，
+ * 不经过屏幕画布，因此结果与 devicePixelRatio、刷新率、掉帧和标签页节流无关；
+ * 只要场景参数与画布逻辑尺寸相同，多次运行得到的每一帧完全一致。
+ * 3D 场景由 WebGL 渲染器绘制后复制屏幕画布。
+ */
+export class OfflineRenderer {
+  private engine: OfflineEngine;
+  private cancelled: boolean;
+  private running: boolean;
+  // 2D 场景的中间画布 (场景可能整体清空画布，需与背景分开绘制)
+  private sceneCanvas: HTMLCanvasElement | null;
+
+  constructor(engine: OfflineEngine) {
+    this.engine = engine;
+    this.cancelled = false;
+    this.running = false;
+    this.sceneCanvas = null;
+  }
+
+  /**
+   * 第 frame 帧到下一帧之间的物理步数
+   * 按累计时间取整，帧率不能整除物理步频时 (如 24 fps) 也不会累积误差。
+   * @param {number} frame - 帧序号 (从 0 开始)
+   * @param {number} fps - 输出帧率
+   * @param {number} fixedDeltaTime - 物理步长 (s)
+   */
+  static getFrameSteps(frame: number, fps: number, fixedDeltaTime: number): number {
+    const stepsPerSecond = 1 / fixedDeltaTime;
+    return (
+      Math.round(((frame + 1) * stepsPerSecond) / fps) - Math.round((frame * stepsPerSecond) / fps)
+    );
+  }
+
+  /**
+   * 给定时长与帧率的总帧数 (至少 1 帧)
+   */
+  static getFrameCount(duration: number, fps: number): number {
+    return Math.max(1, Math.round(duration * fps));
+  }
+
+  get rendering(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 取消正在进行的渲染 (在当前帧处理完后停止)
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * 逐帧渲染到目标画布
+   * 每帧绘制完成后调用 onFrame，回调返回 Promise 时等待其完成 (例如编码器需要按帧间隔送入画面)。
+   * @param {HTMLCanvasElement} target - 输出画布 (尺寸即输出分辨率)
+   * @param {OfflineRenderOptions} options - 时长、帧率与是否从头开始
+   * @param {Function} onFrame - 每帧回调
+   * @returns {Promise<boolean>} 全部帧渲染完成时为 true，取消或没有场景时为 false
+   */
+  async render(
+    target: HTMLCanvasElement,
+    options: OfflineRenderOptions,
+    onFrame: (frame: OfflineFrame) => void | Promise<void>
+  ): Promise<boolean> {
+    const engine = this.engine;
+    const scene = engine.currentScene;
+    if (!scene || this.running) return false;
+
+    const ctx = target.getContext('2d')!;
+    const fps = Math.min(Math.max(options.fps, 0.1), 1 / engine.fixedDeltaTime);
+    const total = OfflineRenderer.getFrameCount(options.duration, fps);
+    const draw = options.draw || ((c, w, h) => this.drawFrame(c, w, h));
+
+    this.running = true;
+    this.cancelled = false;
+
+    engine.pause();
+    if (options.restart) {
+      engine.resetTime();
+      if (scene.resetSimulation) scene.resetSimulation();
+    }
+
+    try {
+      for (let index = 0; index < total; index++) {
+        if (this.cancelled) return false;
+
+        // 第 0 帧为起始状态，之后每帧推进整数个物理步
+        if (index > 0) {
+          engine.advanceFrame(OfflineRenderer.getFrameSteps(index - 1, fps, engine.fixedDeltaTime));
+        }
+
+        draw(ctx, target.width, target.height);
+        await onFrame({ index, total, physicsTime: engine.physicsTime });
+      }
+    } finally {
+      this.running = false;
+      // 屏幕画布停留在最后一帧
+      engine.redraw();
+    }
+    return !this.cancelled;
+  }
+
+  /**
+   * 当前场景的逻辑尺寸 (CSS 像素)，导出的缩放倍数以此为基准
+   */
+  getViewSize(): { width: number; height: number } {
+    const engine = this.engine;
+    const scene = engine.currentScene;
+    return {
+      width: (scene && scene.width) || engine.canvas.clientWidth || engine.canvas.width,
+      height: (scene && scene.height) || engine.canvas.clientHeight || engine.canvas.height,
+    };
+  }
+
+  /**
+   * 把当前状态同步绘制到目标上下文：背景、场景与测量叠加层按比例缩放并居中 (宽高比不同时两侧留黑)
+   * 绘制区域为当前坐标系下的 (0, 0)–(width, height)，组合导出时调用方先平移到子区域。
+   * @param {CanvasRenderingContext2D} ctx - 目标上下文
+   * @param {number} width - 目标宽度 (像素)
+   * @param {number} height - 目标高度 (像素)
+   */
+  drawFrame(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const engine = this.engine;
+    const scene = engine.currentScene;
+    const { width: viewWidth, height: viewHeight } = this.getViewSize();
+    const scale = Math.min(width / viewWidth, height / viewHeight);
+    const x = (width - viewWidth * scale) / 2;
+    const y = (height - viewHeight * scale) / 2;
+
+    ctx.save();
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    // 场景背景色由画布的 CSS 背景提供
+    ctx.fillStyle = engine.canvas.style.backgroundColor || '#000000';
+    ctx.fillRect(x, y, viewWidth * scale, viewHeight * scale);
+
+    if (scene && engine.renderer.getType() === 'canvas2d') {
+      ctx.drawImage(this.renderScene(scene, viewWidth, viewHeight, scale), x, y);
+    } else if (scene) {
+      engine.redraw();
+      ctx.drawImage(engine.canvas, x, y, viewWidth * scale, viewHeight * scale);
+    }
+
+    ctx.translate(x, y);
+    ctx.scale(scale, scale);
+    engine.drawOverlay(ctx, viewWidth, viewHeight);
+    ctx.restore();
+  }
+
+  /**
+   * 把当前状态导出为 SVG 矢量图 (背景、场景与测量叠加层)
+   * 场景的 render(ctx) 直接作用于 SvgContext，按逻辑尺寸输出，可任意缩放打印。
+   * @returns {string | null} SVG 文档；没有场景或为 3D 场景时返回 null
+   */
+  renderSvg(): string | null {
+    const engine = this.engine;
+    const scene = engine.currentScene;
+    if (!scene || engine.renderer.getType() !== 'canvas2d') return null;
+
+    const { width, height } = this.getViewSize();
+    const svg = new SvgContext(width, height, engine.canvas.style.backgroundColor || '#000000');
+    const ctx = svg as unknown as CanvasRenderingContext2D;
+    scene.camera.update();
+    scene.render(ctx, 1.0);
+    // 场景结束时的变换不一定复位，叠加层在单位变换下绘制
+    ctx.save();
+    ctx.resetTransform();
+    engine.drawOverlay(ctx, width, height);
+    ctx.restore();
+    return svg.toString();
+  }
+
+  /**
+   * 在中间画布上以给定缩放重绘 2D 场景
+   */
+  private renderScene(
+    scene: any,
+    viewWidth: number,
+    viewHeight: number,
+    scale: number
+  ): HTMLCanvasElement {
+    if (!this.sceneCanvas) this.sceneCanvas = document.createElement('canvas');
+    const canvas = this.sceneCanvas;
+    const width = Math.round(viewWidth * scale);
+    const height = Math.round(viewHeight * scale);
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, viewHeight);
+    // 跟随模式下先把视口移到目标的当前位置
+    scene.camera.update();
+    scene.render(ctx, 1.0);
+    return canvas;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Permalink.ts
+ * 分享链接：把场景键名、参数与可选的播放时间编码进 URL hash，
+ * 例如 #scene=double-pendulum&theta1=1.2&theta2=0.5&t=3.5
+ */
+import { ControlConfig } from './Scene';
+
+// 类型定义
+export interface PermalinkData {
+  sceneKey: string;
+  // 未经校验的原始参数值 (字符串)
+  values: Record<string, string>;
+  // 播放时间 (秒)，未指定时为 null
+  time: number | null;
+}
+
+// 保留的 hash 字段 (不会被当作场景参数)
+const SCENE_FIELD = 'scene';
+const TIME_FIELD = 't';
+
+// 通过链接恢复时允许的最长播放时间 (秒)，避免加载时长时间阻塞
+export const MAX_PERMALINK_TIME = 60;
+
+export const Permalink = {
+  /**
+   * 生成 hash 字符串
+   * 只编码有对应控件的参数 (操作按钮除外)，以便恢复时逐项校验。
+   * @param sceneKey 场景键名
+   * @param params 场景参数对象
+   * @param controls 场景的控件配置
+   * @param time 播放时间 (可选)
+   * @returns 以 '#' 开头的 hash
+   */
+  encode(
+    sceneKey: string,
+    params: Record<string, any>,
+    controls: ControlConfig[],
+    time?: number
+  ): string {
+    const search = new URLSearchParams();
+    search.set(SCENE_FIELD, sceneKey);
+
+    controls.forEach(control => {
+      if (control.type === 'action' || control.type === 'readout' || !control.key) return;
+      if (control.key === SCENE_FIELD || control.key === TIME_FIELD) return;
+      const value = params[control.key];
+      if (value === undefined || value === null) return;
+
+      if (control.type === 'boolean') {
+        search.set(control.key, value ? '1' : '0');
+      } else if (control.type === 'range' && typeof value === 'number') {
+        // 去掉浮点噪声，同时保留足够的精度
+        search.set(control.key, String(parseFloat(value.toPrecision(10))));
+      } else {
+        search.set(control.key, String(value));
+      }
+    });
+
+    if (time !== undefined && time > 0) {
+      search.set(TIME_FIELD, time.toFixed(3));
+    }
+
+    return `#${search.toString()}`;
+  },
+
+  /**
+   * 解析 hash 字符串
+   * @param hash window.location.hash
+   * @returns 解析结果，不是场景链接时返回 null
+   */
+  decode(hash: string): PermalinkData | null {
+    if (!hash.startsWith(`#${SCENE_FIELD}=`)) return null;
+
+    const search = new URLSearchParams(hash.slice(1));
+    const sceneKey = search.get(SCENE_FIELD) || '';
+    const values: Record<string, string> = {};
+    let time: number | null = null;
+
+    search.forEach((value, key) => {
+      if (key === SCENE_FIELD) return;
+      if (key === TIME_FIELD) {
+        const t = parseFloat(value);
+        if (isFinite(t) && t > 0) time = Math.min(t, MAX_PERMALINK_TIME);
+        return;
+      }
+      values[key] = value;
+    });
+
+    return { sceneKey, values, time };
+  },
+
+  /**
+   * 按控件配置校验参数值
+   * 数值被限制在控件的 [min, max] 范围内，下拉框只接受已有选项，无效或未知的参数被忽略。
+   * 既接受链接中的字符串，也接受预设中已是正确类型的值。
+   * @param controls 场景的控件配置
+   * @param values 原始参数值
+   * @returns 通过校验的参数 (已转换为正确类型)
+   */
+  validate(controls: ControlConfig[], values: Record<string, unknown>): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    Object.keys(values).forEach(key => {
+      const control = controls.find(
+        c => c.key === key && c.type !== 'action' && c.type !== 'readout'
+      );
+      const raw = String(values[key]);
+      if (!control) {
+        console.warn(`[Permalink] 忽略未知参数 "${key}"`);
+        return;
+      }
+
+      if (control.type === 'range') {
+        const num = parseFloat(raw);
+        if (!isFinite(num)) {
+          console.warn(`[Permalink] 参数 "${key}" 不是有效数字: ${raw}`);
+          return;
+        }
+        let clamped = num;
+        if (control.min !== undefined) clamped = Math.max(clamped, control.min);
+        if (control.max !== undefined) clamped = Math.min(clamped, control.max);
+        if (clamped !== num) {
+          console.warn(`[Permalink] 参数 "${key}" 超出范围，已限制为 ${clamped}`);
+        }
+        result[key] = clamped;
+      } else if (control.type === 'boolean') {
+        if (raw === '1' || raw === 'true') result[key] = true;
+        else if (raw === '0' || raw === 'false') result[key] = false;
+        else console.warn(`[Permalink] 参数 "${key}" 不是有效布尔值: ${raw}`);
+      } else if (control.type === 'select') {
+        const option = (control.options || []).find(o => String(o.value) === raw);
+        if (option) result[key] = option.value;
+        else console.warn(`[Permalink] 参数 "${key}" 不是可选值: ${raw}`);
+      } else if (control.type === 'color') {
+        if (/^#[0-9a-f]{3,8}$/i.test(raw)) result[key] = raw;
+        else console.warn(`[Permalink] 参数 "${key}" 不是有效颜色: ${raw}`);
+      }
+    });
+
+    return result;
+  },
+
+  /**
+   * 把通过校验的参数写入场景并重置模拟
+   * 与在控制面板中修改参数一样，会调用控件的 onChange 回调。
+   * @param scene 场景实例
+   * @param controls 场景的控件配置
+   * @param values 原始参数值
+   * @returns 实际写入的参数
+   */
+  apply(
+    scene: any,
+    controls: ControlConfig[],
+    values: Record<string, unknown>
+  ): Record<string, any> {
+    const valid = Permalink.validate(controls, values);
+    Object.keys(valid).forEach(key => {
+      scene.params[key] = valid[key];
+      const control = controls.find(c => c.key === key);
+      if (control && control.onChange) control.onChange(valid[key]);
+    });
+
+    if (Object.keys(valid).length > 0 && scene.resetSimulation) {
+      scene.resetSimulation();
+    }
+    return valid;
+  },
+};
@@ -0,0 +1,61 @@
+import { ScenePreset } from './Scene';
+
+// localStorage 键名前缀，每个场景单独保存
+const STORAGE_PREFIX = 'physics-presets:';
+
+/**
+ * 用户参数预设的本地存储
+ * 预设按场景键名保存在 localStorage 中；存储不可用或数据损坏时按空列表处理。
+ */
+export const PresetStore = {
+  /**
+   * 读取某个场景的用户预设
+   * @param sceneKey 场景键名
+   */
+  load(sceneKey: string): ScenePreset[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + sceneKey);
+      if (!raw) return [];
+      const data = JSON.parse(raw);
+      if (!Array.isArray(data)) return [];
+      return data.filter(
+        (p: any) => p && typeof p.name === 'string' && p.params && typeof p.params === 'object'
+      );
+    } catch (err) {
+      console.warn(`[PresetStore] 读取场景 "${sceneKey}" 的预设失败:`, err);
+      return [];
+    }
+  },
+
+  /**
+   * 保存 (或覆盖同名) 用户预设
+   * @param sceneKey 场景键名
+   * @param preset 预设
+   * @returns 是否成功
+   */
+  save(sceneKey: string, preset: ScenePreset): boolean {
+    const presets = PresetStore.load(sceneKey).filter(p => p.name !== preset.name);
+    presets.push(preset);
+    return PresetStore.write(sceneKey, presets);
+  },
+
+  /**
+   * 删除用户预设
+   * @param sceneKey 场景键名
+   * @param name 预设名称
+   */
+  remove(sceneKey: string, name: string): boolean {
+    const presets = PresetStore.load(sceneKey).filter(p => p.name !== name);
+    return PresetStore.write(sceneKey, presets);
+  },
+
+  write(sceneKey: string, presets: ScenePreset[]): boolean {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + sceneKey, JSON.stringify(presets));
+      return true;
+    } catch (err) {
+      console.warn(`[PresetStore] 保存场景 "${sceneKey}" 的预设失败:`, err);
+      return false;
+    }
+  },
+};
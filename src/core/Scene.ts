@@ -1,12 +1,15 @@
 import { EventBus } from './EventBus';
 import { Viewport } from './Viewport';
+import { InteractionLayer } from './Interaction';
+import { Camera, CameraConfig } from './Camera';
+import { MeasurementConfig } from './MeasurementOverlay';
 import { Renderer } from './renderers/Renderer';
 
 /**
  * 场景控制配置接口
  */
-interface ControlConfig {
-  type: 'range' | 'boolean' | 'action' | 'select' | 'color';
+export interface ControlConfig {
+  type: 'range' | 'boolean' | 'action' | 'select' | 'color' | 'readout';
   key: string;
   label: string;
   min?: number;
@@ -15,6 +18,22 @@ interface ControlConfig {
   value?: any;
   options?: Array<{ value: any; label: string }>;
   onClick?: () => void;
+  onChange?: (value: any) => void;
+  resetOnChange?: boolean;
+  // readout 类型：只读的派生量 (例如周期、像距)，控制面板随模拟每帧读取并显示
+  getValue?: () => number | string | null;
+  unit?: string;
+  precision?: number; // 小数位数，默认 2
+}
+
+/**
+ * 参数预设接口
+ * params 只需包含与默认值不同的参数，应用时按控件配置校验。
+ */
+export interface ScenePreset {
+  name: string;
+  description?: string;
+  params: Record<string, any>;
 }
 
 /**
@@ -36,26 +55,76 @@ interface FormulaConfig {
 }
 
 /**
- * 图表配置接口
+ * 图表面板配置接口
+ * 场景可声明任意数量的图表，页面据此动态创建图表面板。
+ * mode 为 'xy' 时绘制相图/参数轨迹：每个系列在 channels 中占一对 [x, y]，label/unit 描述 Y 轴。
+ * mode 为 'spectrum' 时不需要 channels 数据，而是对 source 面板的曲线做 FFT 显示频谱。
+ */
+export interface ChartPanelConfig {
+  // 面板标识，与 MonitorData.channels 的键对应
+  id: string;
+  // 图表标题 (不含单位)，例如 "速度"
+  label: string;
+  // 单位，例如 "px/s"，显示为 "速度 (px/s)"
+  unit?: string;
+  series: string[];
+  colors?: string[];
+  // 图表模式，默认 'time' (数值-时间曲线)
+  mode?: 'time' | 'xy' | 'spectrum';
+  // XY 模式的 X 轴标签与单位
+  xLabel?: string;
+  xUnit?: string;
+  // XY 模式的轨迹保留时长 (秒)，默认 10
+  trail?: number;
+  // XY 模式下两轴使用相同比例 (轨道等几何轨迹)
+  equalScale?: boolean;
+  // 频谱模式分析的时间曲线面板 id
+  source?: string;
+}
+
+/**
+ * 频谱图中的理论频率参考线
  */
-interface ChartConfig {
-  vel?: {
-    label: string;
-    series: string[];
-  };
-  acc?: {
-    label: string;
-    series: string[];
-  };
+export interface SpectrumReference {
+  label: string;
+  // 频率 (Hz)
+  frequency: number;
 }
 
 /**
  * 监控数据接口
  */
-interface MonitorData {
+export interface MonitorData {
   t: number;
-  vel: number[];
-  acc: number[];
+  // 各图表面板的数据，键为 ChartPanelConfig.id，每个系列一个值
+  channels: Record<string, number[]>;
+}
+
+/**
+ * 能量分解接口
+ * 机械类场景按统一口径报告能量，能量面板据此显示守恒或耗散情况。
+ * 动能 + 势能 + 耗散功 在数值误差范围内应保持不变。
+ */
+export interface EnergyBreakdown {
+  // 动能
+  kinetic: number;
+  // 重力势能 (零点由场景选择)
+  gravitational?: number;
+  // 弹性势能
+  elastic?: number;
+  // 自开始以来被阻尼、空气阻力或碰撞耗散的能量 (非负)
+  dissipated?: number;
+  // 能量单位，例如 "J"、"J/kg"
+  unit?: string;
+}
+
+/**
+ * 场景状态快照接口
+ * 只包含可 JSON 序列化的数据 (数字、字符串、布尔值、数组与普通对象)，
+ * 用于书签、时间回溯等需要保存并恢复物理状态的功能。
+ */
+export interface SceneState {
+  [key: string]: any;
 }
 
 /**
@@ -67,6 +136,10 @@ export class Scene extends EventBus {
   width: number;
   height: number;
   viewport: Viewport;
+  // 画布上的指针交互 (命中区域以世界坐标注册，见 InteractionLayer)
+  interaction: InteractionLayer;
+  // 画布平移缩放与跟随 (场景通过 getCameraConfig 启用)
+  camera: Camera;
   protected renderer: Renderer | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
@@ -75,6 +148,8 @@ export class Scene extends EventBus {
     this.width = canvas.width;
     this.height = canvas.height;
     this.viewport = new Viewport(canvas);
+    this.interaction = new InteractionLayer(canvas, this.viewport);
+    this.camera = new Camera(canvas, this.viewport, this.interaction);
   }
 
   /**
@@ -93,6 +168,14 @@ export class Scene extends EventBus {
     return [];
   }
 
+  /**
+   * 获取场景内置的参数预设 (例如"临界阻尼"、"圆轨道")
+   * @returns {ScenePreset[]} 预设数组
+   */
+  getPresets(): ScenePreset[] {
+    return [];
+  }
+
   /**
    * 获取控制面板图例配置
    * @returns {LegendConfig[]} 图例配置数组
@@ -111,21 +194,85 @@ export class Scene extends EventBus {
 
   /**
    * 获取图表配置
-   * @returns {ChartConfig | null} 图表配置对象 { vel: { label, series }, acc: { label, series } }
+   * @returns {ChartPanelConfig[] | null} 图表面板数组 [{ id, label, unit, series, colors }]
    */
-  getChartConfig(): ChartConfig | null {
+  getChartConfig(): ChartPanelConfig[] | null {
     return null;
   }
 
   /**
    * 获取用于监控的数据（图表数据）
    * @param {number} t 当前时间
-   * @returns {MonitorData | null} { t, vel: [], acc: [] }
+   * @returns {MonitorData | null} { t, channels: { [面板 id]: [每个系列的值] } }
    */
   getMonitorData(t: number): MonitorData | null {
     return null;
   }
 
+  /**
+   * 获取当前的能量分解 (动能、势能、耗散功)
+   * @returns {EnergyBreakdown | null} 不涉及机械能的场景返回 null
+   */
+  getEnergyBreakdown(): EnergyBreakdown | null {
+    return null;
+  }
+
+  /**
+   * 获取频谱图的理论频率参考 (用于与 FFT 主峰对比)
+   * @returns {SpectrumReference[]} 参考频率列表，默认为空
+   */
+  getSpectrumReferences(): SpectrumReference[] {
+    return [];
+  }
+
+  /**
+   * 获取数据记录器的通道值 (通道名建议带单位，例如 "摆角 (deg)")
+   * 默认使用 getMonitorData 的图表数据，并以图表系列名与单位命名；
+   * 场景可覆盖以发布能量、动量、距离等更多通道。
+   * @param {number} t 当前时间
+   * @returns {Record<string, number>} 通道名到数值的映射
+   */
+  getLogChannels(t: number): Record<string, number> {
+    const channels: Record<string, number> = {};
+    const data = this.getMonitorData(t);
+    if (!data) return channels;
+
+    const panels = this.getChartConfig() || [];
+    Object.keys(data.channels).forEach(id => {
+      const panel = panels.find(p => p.id === id);
+      const xy = panel && panel.mode === 'xy';
+      data.channels[id]!.forEach((value, i) => {
+        // XY 面板每个系列占两个值，分别以 X 轴与 Y 轴标签命名
+        const seriesIdx = xy ? Math.floor(i / 2) : i;
+        const isX = xy && i % 2 === 0;
+        let name = panel && panel.series[seriesIdx] ? panel.series[seriesIdx] : `${id}[${i}]`;
+        if (xy) name = `${name} ${isX ? panel!.xLabel || 'x' : panel!.label}`;
+        const unit = panel ? (isX ? panel.xUnit : panel.unit) : undefined;
+        channels[unit ? `${name} (${unit})` : name] = value;
+      });
+    });
+    return channels;
+  }
+
+  /**
+   * 获取相机配置
+   * 按 Viewport 绘制的场景返回配置即可获得滚轮缩放、拖动平移、双击复位与跟随物体；
+   * 直接按画布像素绘制的场景保持默认的 null。
+   * @returns {CameraConfig | null} { follow: [{ id, label, getPosition }] }
+   */
+  getCameraConfig(): CameraConfig | null {
+    return null;
+  }
+
+  /**
+   * 获取测量叠加层配置 (标尺、网格、坐标轴与比例尺)
+   * 数值由 Viewport 的比例换算为物理坐标；直接按像素绘制的场景保持默认的 null，不显示叠加层。
+   * @returns {MeasurementConfig | null} { unit, ruler, grid, axes, scaleBar }，图层为默认开关
+   */
+  getMeasurementConfig(): MeasurementConfig | null {
+    return null;
+  }
+
   /**
    * 获取场景的物理原理解析内容 (HTML)
    * @returns {string | null} HTML 字符串
@@ -143,6 +290,50 @@ export class Scene extends EventBus {
     return null;
   }
 
+  /**
+   * 获取当前物理状态的快照 (不包含 params)
+   * 子类应返回足以让 setState 精确恢复当前时刻的全部动态状态，
+   * 例如摆角与角速度、小球位置与速度、动画计时器、开关状态以及轨迹。
+   * @returns {SceneState} 状态快照 (与场景内部数据不共享引用)
+   */
+  getState(): SceneState {
+    return {};
+  }
+
+  /**
+   * 恢复到 getState 返回的快照
+   * @param {SceneState} state 状态快照
+   */
+  setState(state: SceneState): void {
+    // 在子类中重写
+  }
+
+  /**
+   * 深拷贝可序列化数据，供 getState/setState 隔离快照与场景内部状态
+   * @param value 要拷贝的数据
+   */
+  protected cloneState<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * 由画布上的交互 (例如拖动物体) 修改参数
+   * 写回 params 并逐个发出 parameter-change 使控制面板同步控件，
+   * 随后发出 request-reset，以新的初始条件重新开始 (与拖动滑块的效果相同)。
+   * @param {Record<string, any>} values - 要修改的参数
+   * @param {boolean} reset - 是否请求重新开始模拟
+   */
+  protected setParamsFromCanvas(values: Record<string, any>, reset: boolean = true): void {
+    const params = (this as any).params;
+    if (!params) return;
+    Object.entries(values).forEach(([key, value]) => {
+      if (params[key] === value) return;
+      params[key] = value;
+      this.emit('parameter-change', { key, value });
+    });
+    if (reset) this.emit('request-reset');
+  }
+
   /**
    * 每一帧调用，用于更新物理状态。
    * @param {number} dt - 自上一帧以来的时间增量（秒）
@@ -213,6 +404,17 @@ export class Scene extends EventBus {
     console.log('Scene teardown');
   }
 
+  /**
+   * 卸载场景：调用 teardown()，然后解除 interaction 与 camera 的画布事件。
+   * 宿主 (引擎、无头运行器) 应调用此方法而不是直接调用 teardown()，这样子类重写 teardown 时无需调用 super。
+   * 子类不应重写此方法。
+   */
+  dispose(): void {
+    this.teardown();
+    this.interaction.detach();
+    this.camera.detach();
+  }
+
   /**
    * 设置渲染器
    * @param renderer 渲染器实例
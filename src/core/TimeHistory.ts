@@ -0,0 +1,92 @@
+import { SceneState } from './Scene';
+
+// 类型定义
+export interface HistoryEntry {
+  physicsTime: number;
+  state: SceneState;
+}
+
+/**
+ * 有界的场景状态历史
+ * 按物理时间升序保存快照，超出容量时丢弃最早的记录。
+ * 引擎据此实现时间回溯：恢复不晚于目标时间的最近快照，再以固定步长补算到目标时间。
+ */
+export class TimeHistory {
+  private entries: HistoryEntry[];
+  capacity: number;
+
+  /**
+   * @param capacity 最多保留的快照数量
+   */
+  constructor(capacity: number = 360) {
+    this.entries = [];
+    this.capacity = capacity;
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 最早可回溯到的物理时间 (无记录时为 null)
+   */
+  get startTime(): number | null {
+    return this.entries.length > 0 ? this.entries[0]!.physicsTime : null;
+  }
+
+  /**
+   * 最新记录的物理时间 (无记录时为 null)
+   */
+  get endTime(): number | null {
+    return this.entries.length > 0 ? this.entries[this.entries.length - 1]!.physicsTime : null;
+  }
+
+  /**
+   * 追加一条快照 (时间必须不早于已有记录)
+   */
+  record(physicsTime: number, state: SceneState): void {
+    this.entries.push({ physicsTime, state });
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * 查找不晚于给定时间的最近快照
+   * @returns 快照；给定时间早于全部记录时返回最早的快照，无记录时返回 null
+   */
+  findAtOrBefore(physicsTime: number): HistoryEntry | null {
+    if (this.entries.length === 0) return null;
+
+    // 二分查找最后一个 physicsTime <= t 的记录
+    let lo = 0;
+    let hi = this.entries.length - 1;
+    let found = 0;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.entries[mid]!.physicsTime <= physicsTime + 1e-9) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return this.entries[found]!;
+  }
+
+  /**
+   * 删除晚于给定时间的快照 (从回溯位置继续运行时，原来的"未来"作废)
+   */
+  truncateAfter(physicsTime: number): void {
+    while (
+      this.entries.length > 0 &&
+      this.entries[this.entries.length - 1]!.physicsTime > physicsTime + 1e-9
+    ) {
+      this.entries.pop();
+    }
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
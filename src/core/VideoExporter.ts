@@ -0,0 +1,123 @@
+/**
+ * VideoExporter.ts
+ * WebM 视频导出：用离线渲染器逐帧生成画面并编码
+ */
+
+import { OfflineRenderer, OfflineRenderOptions } from './OfflineRenderer';
+
+// 类型定义
+export interface VideoExportOptions extends OfflineRenderOptions {
+  width: number; // 输出分辨率 (像素)
+  height: number;
+}
+
+// 编码码率：每像素每帧的比特数
+const BITS_PER_PIXEL = 0.1;
+// 标签页切到后台时的错误信息
+const HIDDEN_MESSAGE = '标签页切到后台，视频导出已中止 (录制期间请保持页面可见)';
+
+/**
+ * WebM 视频导出器
+ * 画面由 OfflineRenderer 逐帧生成 (按固定步长推进、同步绘制)，掉帧不会影响每一帧的内容；
+ * 画面经 captureStream(0) + requestFrame() 交给 MediaRecorder 编码。MediaRecorder 按画面到达的时间记录时间戳，
+ * 后台标签页的定时器被节流后帧间隔与视频时长会改变，因此标签页切到后台时中止导出并抛出错误。
+ * 录制期间引擎保持暂停，可随时取消。
+ */
+export class VideoExporter {
+  private renderer: OfflineRenderer;
+  // 进度回调 (progress 为 0–1)
+  onProgress: ((progress: number, frame: number, totalFrames: number) => void) | null;
+
+  constructor(renderer: OfflineRenderer) {
+    this.renderer = renderer;
+    this.onProgress = null;
+  }
+
+  /**
+   * 浏览器是否支持画布录制
+   */
+  static isSupported(): boolean {
+    return (
+      typeof MediaRecorder !== 'undefined' &&
+      typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    );
+  }
+
+  /**
+   * 选择浏览器支持的 WebM 编码 (优先 VP9)
+   */
+  static getMimeType(): string {
+    const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+    return candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+  }
+
+  get exporting(): boolean {
+    return this.renderer.rendering;
+  }
+
+  /**
+   * 取消正在进行的导出 (已录制的部分被丢弃)
+   */
+  cancel(): void {
+    this.renderer.cancel();
+  }
+
+  /**
+   * 录制视频
+   * @param {VideoExportOptions} options - 时长、帧率与分辨率
+   * @returns {Promise<Blob | null>} WebM 文件；取消或没有场景时返回 null
+   */
+  async export(options: VideoExportOptions): Promise<Blob | null> {
+    if (this.renderer.rendering) return null;
+    if (document.hidden) throw new Error(HIDDEN_MESSAGE);
+
+    const output = document.createElement('canvas');
+    output.width = options.width;
+    output.height = options.height;
+
+    // 帧率为 0 的流只在 requestFrame() 时输出画面
+    const stream = output.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType: VideoExporter.getMimeType(),
+      videoBitsPerSecond: Math.round(options.width * options.height * options.fps * BITS_PER_PIXEL),
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // 切到后台时中止 (帧间隔不再可靠)
+    let hidden = false;
+    const onVisibilityChange = () => {
+      if (!document.hidden) return;
+      hidden = true;
+      this.renderer.cancel();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    let completed = false;
+    try {
+      recorder.start();
+      completed = await this.renderer.render(output, options, async frame => {
+        track.requestFrame();
+        if (this.onProgress) {
+          this.onProgress((frame.index + 1) / frame.total, frame.index + 1, frame.total);
+        }
+        // MediaRecorder 按到达时间记录时间戳，需按帧间隔送入画面
+        await new Promise(resolve => setTimeout(resolve, 1000 / options.fps));
+      });
+    } finally {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      recorder.stop();
+      await stopped;
+      stream.getTracks().forEach(t => t.stop());
+    }
+
+    if (hidden) throw new Error(HIDDEN_MESSAGE);
+    return completed ? new Blob(chunks, { type: 'video/webm' }) : null;
+  }
+}
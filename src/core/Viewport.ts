@@ -7,16 +7,20 @@
  */
 
 // 类型定义
-interface ScreenPoint {
+export interface ScreenPoint {
   x: number;
   y: number;
 }
 
-interface WorldPoint {
+export interface WorldPoint {
   x: number;
   y: number;
 }
 
+// 用户缩放倍数的范围 (相对场景设置的比例)
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 50;
+
 export class Viewport {
   canvas: HTMLCanvasElement;
   width: number;
@@ -31,6 +35,17 @@ export class Viewport {
   screenCenterX: number;
   screenCenterY: number;
 
+  // 用户视角：叠加在场景设置的视图 (setCenter / setScale) 之上的缩放倍数与平移 (物理单位)
+  zoom: number;
+  panX: number;
+  panY: number;
+  // 场景设置的视图
+  private baseCenterX: number;
+  private baseCenterY: number;
+  private baseScale: number;
+  // 跟随目标：设置后视口中心随目标移动 (平移量作为相对目标的偏移)
+  private followTarget: (() => WorldPoint) | null;
+
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.width = canvas.width;
@@ -44,6 +59,14 @@ export class Viewport {
     // 缓存屏幕中心点
     this.screenCenterX = this.width / 2;
     this.screenCenterY = this.height / 2;
+
+    this.zoom = 1;
+    this.panX = 0;
+    this.panY = 0;
+    this.baseCenterX = this.centerX;
+    this.baseCenterY = this.centerY;
+    this.baseScale = this.scale;
+    this.followTarget = null;
   }
 
   /**
@@ -62,8 +85,9 @@ export class Viewport {
    * @param {number} y
    */
   setCenter(x: number, y: number): void {
-    this.centerX = x;
-    this.centerY = y;
+    this.baseCenterX = x;
+    this.baseCenterY = y;
+    this.applyView();
   }
 
   /**
@@ -71,7 +95,78 @@ export class Viewport {
    * @param {number} pixelsPerMeter
    */
   setScale(pixelsPerMeter: number): void {
-    this.scale = pixelsPerMeter;
+    this.baseScale = pixelsPerMeter;
+    this.applyView();
+  }
+
+  /**
+   * 以屏幕上的一点为中心缩放 (该点下的物理位置保持不动)
+   * @param {number} sx 屏幕X (像素)
+   * @param {number} sy 屏幕Y (像素)
+   * @param {number} factor 缩放倍数 (大于 1 为放大)
+   */
+  zoomAt(sx: number, sy: number, factor: number): void {
+    const anchor = this.screenToWorld(sx, sy);
+    this.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.zoom * factor));
+    this.applyView();
+    // 缩放后把锚点移回指针下方
+    const moved = this.screenToWorld(sx, sy);
+    this.panX += anchor.x - moved.x;
+    this.panY += anchor.y - moved.y;
+    this.applyView();
+  }
+
+  /**
+   * 按屏幕像素平移画面 (画面随指针移动)
+   * @param {number} dx 屏幕X位移 (像素)
+   * @param {number} dy 屏幕Y位移 (像素)
+   */
+  panBy(dx: number, dy: number): void {
+    this.panX -= dx / this.scale;
+    this.panY += dy / this.scale; // 注意Y轴翻转
+    this.applyView();
+  }
+
+  /**
+   * 跟随物体：视口中心随目标移动，传入 null 取消跟随
+   * 切换时清除平移，使目标位于画面中心。
+   * @param {Function | null} target 返回目标物理坐标的函数
+   */
+  setFollow(target: (() => WorldPoint) | null): void {
+    this.followTarget = target;
+    this.panX = 0;
+    this.panY = 0;
+    this.applyView();
+  }
+
+  /**
+   * 是否处于跟随模式
+   */
+  isFollowing(): boolean {
+    return this.followTarget !== null;
+  }
+
+  /**
+   * 恢复场景设置的视图 (清除用户缩放与平移，跟随模式保持不变)
+   */
+  resetView(): void {
+    this.zoom = 1;
+    this.panX = 0;
+    this.panY = 0;
+    this.applyView();
+  }
+
+  /**
+   * 按场景视图、用户视角与跟随目标计算实际的中心与比例
+   * 跟随模式下每帧绘制前调用，使视口中心跟上目标。
+   */
+  applyView(): void {
+    const origin = this.followTarget
+      ? this.followTarget()
+      : { x: this.baseCenterX, y: this.baseCenterY };
+    this.centerX = origin.x + this.panX;
+    this.centerY = origin.y + this.panY;
+    this.scale = this.baseScale * this.zoom;
   }
 
   /**
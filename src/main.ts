@@ -1,29 +1,15 @@
 import './style.css';
 import { Engine } from './core/Engine';
-import { sceneRegistry } from './core/SceneRegistry';
-
-// 导入场景
-import { CircularScene } from './scenes/CircularScene';
-import { SHMScene } from './scenes/SHMScene';
-import { FreeFallScene } from './scenes/FreeFallScene';
-import { SpringOscillatorScene } from './scenes/SpringOscillatorScene';
-import { SimplePendulumScene } from './scenes/SimplePendulumScene';
-import { ElasticCollisionScene } from './scenes/ElasticCollisionScene';
-import { DoublePendulumScene } from './scenes/DoublePendulumScene';
-import { PlanetaryMotionScene } from './scenes/PlanetaryMotionScene';
-import { ProjectileMotionScene } from './scenes/ProjectileMotionScene';
-import { WaveInterferenceScene } from './scenes/WaveInterferenceScene';
-import { OpticsLensScene } from './scenes/OpticsLensScene';
-import { RefractionScene } from './scenes/RefractionScene';
-import { CircuitScene } from './scenes/CircuitScene';
-import { PlanetaryMotionScene3D } from './scenes/PlanetaryMotionScene3D';
-// import { GraphicsDemoScene } from './scenes/GraphicsDemoScene.js'; // No longer used as a scene
+import { Permalink, PermalinkData } from './core/Permalink';
+import { sceneRegistry } from './scenes';
 
 import { renderGraphicsDemo } from './pages/GraphicsDemoPage.ts';
 
 import { ControlPanel } from './components/ControlPanel.ts';
 import { FormulaDisplay } from './components/FormulaDisplay.ts';
-import { RealTimeChart } from './components/RealTimeChart.ts';
+import { ChartManager } from './components/ChartManager.ts';
+import { EnergyPanel } from './components/EnergyPanel.ts';
+import { CompositeRenderer } from './components/CompositeRenderer.ts';
 import { KnowledgePanel } from './components/KnowledgePanel.ts';
 
 // 全局变量类型声明
@@ -32,91 +18,13 @@ declare global {
     engine: Engine;
     controlPanel: ControlPanel;
     formulaDisplay: FormulaDisplay;
-    velChart: RealTimeChart;
-    accChart: RealTimeChart;
+    charts: ChartManager;
+    energyPanel: EnergyPanel;
     knowledgePanel: KnowledgePanel;
     sceneRegistry: typeof sceneRegistry;
   }
 }
 
-// 注册场景
-sceneRegistry.register('graphics-demo', null, {
-  label: '图形组件库',
-  description: '展示物理引擎中可复用的图形组件 (Stick Figure, Ball, etc.)。',
-  thumbnail: '/thumbnails/graphicLib.jpg',
-});
-sceneRegistry.register('pendulum', SimplePendulumScene, {
-  label: '单摆',
-  description: '经典的单摆运动，展示周期与摆长的关系。',
-  thumbnail: '/thumbnails/pendulum.gif',
-});
-sceneRegistry.register('circular', CircularScene, {
-  label: '匀速圆周运动',
-  description: '展示向心力、线速度与角速度的关系。',
-  thumbnail: '/thumbnails/circular.gif',
-});
-sceneRegistry.register('shm', SHMScene, {
-  label: '简谐运动',
-  description: '弹簧振子与参考圆的对比，理解正弦运动。',
-  thumbnail: '/thumbnails/shm.gif',
-});
-sceneRegistry.register('freefall', FreeFallScene, {
-  label: '自由落体',
-  description: '物体在重力作用下的匀加速直线运动。',
-  thumbnail: '/thumbnails/freefall.gif',
-});
-sceneRegistry.register('spring', SpringOscillatorScene, {
-  label: '弹簧振子',
-  description: '阻尼振动与受迫振动的模拟。',
-  thumbnail: '/thumbnails/spring.gif',
-});
-sceneRegistry.register('collision', ElasticCollisionScene, {
-  label: '弹性碰撞',
-  description: '二维平面上的动量守恒与动能守恒。',
-  thumbnail: '/thumbnails/collision.gif',
-});
-sceneRegistry.register('double-pendulum', DoublePendulumScene, {
-  label: '双摆',
-  description: '展示混沌现象，对初始条件极其敏感。',
-  thumbnail: '/thumbnails/double-pendulum.gif',
-});
-sceneRegistry.register('planetary', PlanetaryMotionScene, {
-  label: '天体运动 (2D)',
-  description: '模拟行星绕恒星的运动，展示万有引力定律与开普勒定律。',
-  thumbnail: '/thumbnails/planetary.gif',
-});
-sceneRegistry.register('planetary-3d', PlanetaryMotionScene3D, {
-  label: '天体运动 (3D)',
-  description: '3D 版本的天体运动，展示空间中的轨道运动和引力效果。',
-  thumbnail: '/thumbnails/planetary.gif',
-  renderer: 'threejs', // 指定需要 Three.js 渲染器
-});
-sceneRegistry.register('projectile', ProjectileMotionScene, {
-  label: '平抛/斜抛',
-  description: '抛体运动的轨迹与速度分解。',
-  thumbnail: '/thumbnails/projectile.gif',
-});
-sceneRegistry.register('wave', WaveInterferenceScene, {
-  label: '波的干涉',
-  description: '双波源干涉图样的实时模拟。',
-  thumbnail: '/thumbnails/wave.gif',
-});
-sceneRegistry.register('optics-lens', OpticsLensScene, {
-  label: '透镜成像',
-  description: '凸透镜与凹透镜的几何成像规律演示。',
-  thumbnail: '/thumbnails/optics-lens.gif',
-});
-sceneRegistry.register('refraction', RefractionScene, {
-  label: '光的折射 (视深)',
-  description: '为什么水里的鱼看起来比实际浅？',
-  thumbnail: '/thumbnails/refraction.gif',
-});
-sceneRegistry.register('circuit', CircuitScene, {
-  label: '直流电路实验室',
-  description: '串联、并联与混合电路的电流与电压模拟。',
-  thumbnail: '/thumbnails/circuit.gif',
-});
-
 document.addEventListener('DOMContentLoaded', () => {
   try {
     // --- 1. 初始化引擎与组件 ---
@@ -126,26 +34,62 @@ document.addEventListener('DOMContentLoaded', () => {
     const formulaDisplay = new FormulaDisplay('formula');
     const knowledgePanel = new KnowledgePanel('knowledge');
 
-    const velChart = new RealTimeChart('vel-chart', '速度 (px/s)', ['#ffa500', '#5cd65c']);
-    const accChart = new RealTimeChart('acc-chart', '加速度 (px/s²)', ['#00b7ff', '#d28bff']);
+    // 图表面板按场景的 getChartConfig() 动态创建
+    const charts = new ChartManager('charts');
+    const energyPanel = new EnergyPanel('energy');
+
+    // 截图与视频导出的组合画面 (模拟 + 图表 + 公式 + 图例)
+    const composite = new CompositeRenderer(charts, 'formula');
+    controlPanel.setCompositeRenderer(composite);
 
     // 全局暴露 (调试用)
     window.controlPanel = controlPanel;
     window.formulaDisplay = formulaDisplay;
-    window.velChart = velChart;
-    window.accChart = accChart;
+    window.charts = charts;
+    window.energyPanel = energyPanel;
     window.engine = engine;
     window.sceneRegistry = sceneRegistry;
 
     // --- 2. 注册引擎回调 ---
     engine.onUpdate = (scene, totalTime) => {
       const data = scene.getMonitorData(totalTime);
-      if (data) {
-        if (data.vel) velChart.push(data.t, ...data.vel);
-        if (data.acc) accChart.push(data.t, ...data.acc);
-      }
+      if (data) charts.push(data);
+      charts.setSpectrumReferences(scene.getSpectrumReferences());
+      energyPanel.update(scene.getEnergyBreakdown());
+      controlPanel.updateTimeline();
+      controlPanel.updateLoggerStatus();
+      // 场景可能自行修改参数，只读数值也随模拟变化
+      controlPanel.refreshControls();
+    };
+
+    // 跳转书签后图表中的数据已不属于当前时间线，清空后重新记录
+    engine.onStateRestored = () => {
+      charts.clear();
+      controlPanel.refreshControls();
     };
 
+    // 拖动时间线时图表只显示回放时刻之前的数据，向前拖动可恢复
+    engine.onSeek = (scene, physicsTime) => {
+      charts.setPlayhead(physicsTime);
+      energyPanel.update(scene.getEnergyBreakdown());
+      controlPanel.updateTimeline();
+      controlPanel.refreshControls();
+    };
+
+    // 从回溯位置继续运行后，之后的图表数据已作废
+    engine.onTimelineTruncated = (scene, physicsTime) => {
+      charts.truncateAfter(physicsTime);
+      charts.setPlayhead(null);
+    };
+
+    // 根据场景配置图表面板 (标签、单位、系列与颜色)
+    function applyChartConfig(scene: any): void {
+      charts.configure(scene.getChartConfig());
+    }
+
+    // 通过分享链接打开场景时待应用的参数
+    let pendingLink: PermalinkData | null = null;
+
     engine.onSceneLoaded = scene => {
       window.currentScene = scene;
 
@@ -153,53 +97,46 @@ document.addEventListener('DOMContentLoaded', () => {
       const entry = sceneRegistry.getAll().find(e => e.SceneClass === scene.constructor);
       const key = entry ? entry.key : 'scene';
 
+      // 先应用链接中的参数，使控制面板显示恢复后的值
+      if (pendingLink && pendingLink.sceneKey === key) {
+        Permalink.apply(scene, scene.getControlConfig(), pendingLink.values);
+      }
+      pendingLink = null;
+
       // 配置 UI
       const controls = scene.getControlConfig();
       const legend = scene.getLegendConfig();
       controlPanel.setup(scene.params, controls, legend, key);
+      composite.setLegend(legend);
 
       controlPanel.on('parameter-change', data => {
         scene.emit('parameter-change', data);
       });
 
-      controlPanel.on('request-reset', () => {
+      const resetScene = () => {
         if (scene.resetSimulation) {
           scene.resetSimulation();
           engine.resetTime();
+          // 暂停时也立即显示新的初始状态
+          if (!engine.running) engine.redraw();
+          controlPanel.refreshControls();
         }
-      });
+      };
+      controlPanel.on('request-reset', resetScene);
+
+      // 场景在画布上修改参数 (例如拖动物体) 时同步控件，并以新的初始条件重新开始
+      scene.on('parameter-change', () => controlPanel.refreshControls());
+      scene.on('request-reset', resetScene);
 
       const formulas = scene.getFormulaConfig();
       formulaDisplay.setFormula(formulas);
 
       knowledgePanel.update(scene);
 
-      const chartConfig = scene.getChartConfig();
-      if (chartConfig) {
-        if (chartConfig.vel) {
-          velChart.setLabel(chartConfig.vel.label);
-          velChart.setSeriesNames(chartConfig.vel.series);
-          velChart.setColors(chartConfig.vel.colors);
-          velChart.clear();
-        } else {
-          velChart.setSeriesNames([]);
-          velChart.clear();
-        }
-        if (chartConfig.acc) {
-          accChart.setLabel(chartConfig.acc.label);
-          accChart.setSeriesNames(chartConfig.acc.series);
-          accChart.setColors(chartConfig.acc.colors);
-          accChart.clear();
-        } else {
-          accChart.setSeriesNames([]);
-          accChart.clear();
-        }
-      } else {
-        velChart.setSeriesNames([]);
-        velChart.clear();
-        accChart.setSeriesNames([]);
-        accChart.clear();
-      }
+      applyChartConfig(scene);
+      energyPanel.update(scene.getEnergyBreakdown());
+      // 场景在运行中切换图表内容时 (例如开启能量漂移对比) 重新配置图表
+      scene.on('chart-config-change', () => applyChartConfig(scene));
 
       // 同步下拉框状态 (如果存在)
       const selector = document.querySelector('#scene-selector select');
@@ -311,9 +248,10 @@ document.addEventListener('DOMContentLoaded', () => {
     // 路由处理函数
     function handleRoute(): void {
       const hash = window.location.hash;
+      const link = Permalink.decode(hash);
 
-      if (hash.startsWith('#scene=')) {
-        const key = hash.split('=')[1];
+      if (link) {
+        const key = link.sceneKey;
 
         if (!key) {
           console.error('Invalid scene key in URL');
@@ -338,8 +276,14 @@ document.addEventListener('DOMContentLoaded', () => {
         window.scrollTo(0, 0);
 
         // 加载对应场景
+        pendingLink = link;
         loadScene(key);
 
+        // 链接指定了播放时间：按固定步长推进到该时刻后继续运行
+        if (link.time) {
+          engine.stepSeconds(link.time);
+        }
+
         // 确保引擎启动
         if (!engine.running) {
           engine.start();
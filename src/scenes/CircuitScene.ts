@@ -1,4 +1,5 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState } from '../core/Scene.ts';
+import { HitShape } from '../core/Interaction.ts';
 import {
   drawWire,
   drawBattery,
@@ -25,16 +26,8 @@ interface CircuitParams {
   bgColor: string;
 }
 
-/**
- * Hit region interface for interactive elements
- */
-interface HitRegion {
-  id: string;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-}
+// 可点击的开关
+type SwitchKey = 'switch1' | 'switch2';
 
 /**
  * Point interface for wire paths
@@ -51,7 +44,8 @@ interface Point {
 export class CircuitScene extends Scene {
   params: CircuitParams;
   time: number;
-  hitRegions: HitRegion[];
+  // 本帧绘制的开关位置 (世界坐标)，供交互层命中测试
+  switchShapes: Partial<Record<SwitchKey, HitShape>>;
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
@@ -75,9 +69,7 @@ export class CircuitScene extends Scene {
     this.viewport.setScale(1.0);
 
     // 交互区域
-    this.hitRegions = [];
-    this.handleClick = this.handleClick.bind(this);
-    this.handleMouseMove = this.handleMouseMove.bind(this);
+    this.switchShapes = {};
   }
 
   getDescription(): string {
@@ -87,80 +79,54 @@ export class CircuitScene extends Scene {
   resetSimulation(): void {
     this.time = 0;
     // Clear charts if they exist
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
-  }
-
-  setup(): void {
-    this.canvas.style.backgroundColor = this.params.bgColor;
-    this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
-    this.canvas.addEventListener('click', this.handleClick);
-    this.canvas.addEventListener('mousemove', this.handleMouseMove);
-    this.canvas.style.cursor = 'default'; // Reset cursor
+    if (window.charts) window.charts.clear();
   }
 
-  teardown(): void {
-    this.canvas.removeEventListener('click', this.handleClick);
-    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+  getState(): SceneState {
+    const { switch1, switch2 } = this.params;
+    return { time: this.time, switch1, switch2 };
   }
 
-  handleMouseMove(e: MouseEvent): void {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    let hit = false;
-    for (const region of this.hitRegions) {
-      if (x >= region.x && x <= region.x + region.w && y >= region.y && y <= region.y + region.h) {
-        hit = true;
-        break;
+  setState(state: SceneState): void {
+    this.time = state.time;
+    // 开关属于可交互状态，恢复后通知控制面板同步
+    (['switch1', 'switch2'] as const).forEach(key => {
+      if (this.params[key] !== state[key]) {
+        this.params[key] = state[key];
+        this.emit('parameter-change', { key, value: state[key] });
       }
-    }
-    this.canvas.style.cursor = hit ? 'pointer' : 'default';
+    });
   }
 
-  handleClick(e: MouseEvent): void {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    // Check hit regions
-    for (const region of this.hitRegions) {
-      if (x >= region.x && x <= region.x + region.w && y >= region.y && y <= region.y + region.h) {
-        // Toggle switch
-        if (region.id === 'switch1') {
-          this.params.switch1 = !this.params.switch1;
-        } else if (region.id === 'switch2') {
-          this.params.switch2 = !this.params.switch2;
-        }
-
-        // Notify control panel to update UI if needed (optional, depends on implementation)
-        // Usually we might emit an event, but direct param modification works for rendering.
-        // If we want to sync dat.gui, we might need to emit an event that ControlPanel listens to.
-        this.emit('parameter-change', { key: region.id, value: this.params[region.id] });
+  setup(): void {
+    this.canvas.style.backgroundColor = this.params.bgColor;
+    this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
+    this.canvas.style.cursor = 'default'; // Reset cursor
 
-        break; // Handle one click at a time
-      }
-    }
+    // 点击开关切换通断 (电路是稳态的，不需要重新开始)
+    (['switch1', 'switch2'] as const).forEach(key => {
+      this.interaction.add({
+        id: key,
+        shape: () => this.switchShapes[key] || null,
+        onClick: () => this.setParamsFromCanvas({ [key]: !this.params[key] }, false),
+      });
+    });
   }
 
-  registerHitRegion(id: string, x: number, y: number, w: number, h: number): void {
-    // x, y are center coordinates in world space?
-    // No, drawSwitch uses center coordinates.
-    // But mouse event is in canvas coordinates.
-    // We need to map world coordinates to canvas coordinates if viewport is used.
-    // However, this scene uses a simple viewport where we might just be drawing directly?
-    // The render function uses `this.width` and `this.height` and centers manually with `cx`, `cy`.
-    // It does NOT seem to use `this.viewport.transform` or similar for the drawing commands
-    // (drawBattery etc take raw coordinates).
-    // So the coordinates passed to drawSwitch ARE the canvas coordinates.
-
-    // drawSwitch draws centered at (x,y) with width w and height h = w * 0.4
-    // So bounding box is:
-    const left = x - w / 2;
-    const top = y - h / 2;
-
-    this.hitRegions.push({ id, x: left, y: top, w, h });
+  /**
+   * 记录开关的命中区域
+   * 电路按画布像素绘制 (以画布中心布局)，drawSwitch 的中心坐标即屏幕坐标，这里换算为世界坐标。
+   * drawSwitch 绘制的开关宽 w、高 w * 0.4。
+   */
+  registerHitRegion(id: SwitchKey, x: number, y: number, w: number, h: number): void {
+    const center = this.viewport.screenToWorld(x, y);
+    this.switchShapes[id] = {
+      type: 'rect',
+      x: center.x,
+      y: center.y,
+      width: this.viewport.toMeters(w),
+      height: this.viewport.toMeters(h),
+    };
   }
 
   getControlConfig() {
@@ -366,7 +332,7 @@ export class CircuitScene extends Scene {
 
     // 绘制布局
     ctx.clearRect(0, 0, width, height);
-    this.hitRegions = []; // Clear hit regions for this frame
+    this.switchShapes = {}; // 每帧重新记录开关位置
 
     // 布局坐标定义
     const topY = cy - 100;
@@ -1,4 +1,4 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState, ChartPanelConfig, MonitorData } from '../core/Scene.ts';
 import { drawAxes, drawCircle, drawDot, drawVector, drawTrail } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 
@@ -50,9 +50,13 @@ export class CircularScene extends Scene {
   maxTrailLength: number;
   phys: PhysicsState;
   prevPhys: PhysicsState;
+  center: { x: number; y: number };
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
+    // 圆心 (屏幕坐标)，在 resize 中更新
+    this.center = { x: this.width / 2, y: this.height / 2 };
+
     // Default parameters
     this.params = {
       omega: 0.5, // rad/s
@@ -79,12 +83,27 @@ export class CircularScene extends Scene {
     this.canvas.style.backgroundColor = this.params.bgColor;
   }
 
+  resize(w: number, h: number): void {
+    super.resize(w, h);
+    this.center = { x: w / 2, y: h / 2 };
+  }
+
   resetSimulation(): void {
     this.phys = this.computeState(0);
     this.prevPhys = { ...this.phys };
     this.trail = [];
   }
 
+  getState(): SceneState {
+    return this.cloneState({ phys: this.phys, trail: this.trail });
+  }
+
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.prevPhys = { ...this.phys };
+    this.trail = this.cloneState(state.trail);
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -191,27 +210,33 @@ export class CircularScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '速度 (px/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'velocity',
+        label: '速度',
+        unit: 'px/s',
         series: ['vx', 'vy'],
         colors: THEME.colors.chart.series,
       },
-      acc: {
-        label: '加速度 (px/s²)',
+      {
+        id: 'acceleration',
+        label: '加速度',
+        unit: 'px/s²',
         series: ['ax', 'ay'],
         colors: THEME.colors.chart.series,
       },
-    };
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData | null {
     if (!this.phys) return null;
     return {
       t: t,
-      vel: [this.phys.vx, this.phys.vy],
-      acc: [this.phys.ax, this.phys.ay],
+      channels: {
+        velocity: [this.phys.vx, this.phys.vy],
+        acceleration: [this.phys.ax, this.phys.ay],
+      },
     };
   }
 
@@ -1,8 +1,25 @@
-import { Scene } from '../core/Scene.ts';
-import { drawDot, drawLine } from '../utils/draw.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  SpectrumReference,
+} from '../core/Scene.ts';
+import { drawDot, drawLine, drawTextLines } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 import { Physics } from '../utils/physics.ts';
-import { Integrator } from '../core/Integrator.ts';
+import {
+  Integrator,
+  AdaptiveReport,
+  StateObject,
+  SecondOrderMethod,
+  INTEGRATOR_LABELS,
+  getIntegratorOptions,
+} from '../core/Integrator.ts';
+import { GhostSimulation } from '../core/GhostSimulation.ts';
+import { CameraConfig } from '../core/Camera.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/DoublePendulum.md?raw';
 
 interface DoublePendulumParams {
@@ -14,6 +31,9 @@ interface DoublePendulumParams {
   theta2_0: number;
   g: number;
   trailLength: number;
+  integrator: SecondOrderMethod;
+  ghostIntegrator: SecondOrderMethod | 'none';
+  tolExp: number;
   bgColor: string;
 }
 
@@ -30,6 +50,20 @@ interface TrailPoint {
   t: number;
 }
 
+// 场景支持的积分方法
+const DOUBLE_PENDULUM_METHODS: SecondOrderMethod[] = [
+  'euler',
+  'semiImplicit',
+  'verlet',
+  'leapfrog',
+  'yoshida4',
+  'rk4',
+  'rk45',
+];
+
+// 固定步长方法每帧的子步数 (双摆对精度要求高)
+const SUB_STEPS = 4;
+
 /**
  * 场景名称: 双摆 (Double Pendulum)
  * 物理现象: 模拟双摆系统的混沌运动，展示对初始条件的敏感依赖性（蝴蝶效应）。
@@ -39,6 +73,10 @@ export class DoublePendulumScene extends Scene {
   params: DoublePendulumParams;
   phys: PhysicsState;
   trail: TrailPoint[];
+  stepReport: AdaptiveReport | null;
+  nextStep: number | undefined;
+  totalRejected: number;
+  ghost: GhostSimulation;
 
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
@@ -53,6 +91,9 @@ export class DoublePendulumScene extends Scene {
       theta2_0: 90, // degrees
       g: 9.8, // m/s^2
       trailLength: 500,
+      integrator: 'rk4', // 见 INTEGRATOR_LABELS ('rk45' 为自适应步长)
+      ghostIntegrator: 'none', // 幽灵对照使用的方法
+      tolExp: -8, // 自适应误差容限指数 (10^n)
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
 
@@ -67,6 +108,17 @@ export class DoublePendulumScene extends Scene {
     // 轨迹
     this.trail = [];
 
+    // 自适应积分报告
+    this.stepReport = null;
+    this.nextStep = undefined;
+    this.totalRejected = 0;
+
+    // 幽灵对照 (另一种积分方法，从同一状态出发)
+    this.ghost = new GhostSimulation(
+      (pos: StateObject, vel: StateObject) => this.angularAccelerations(pos, vel),
+      ({ pos, vel }) => this.mechanicalEnergy(pos, vel)
+    );
+
     // 视口设置：1米 = 80像素
     this.viewport.setScale(80);
     this.viewport.setCenter(0, -1.0); // 稍微向下偏移，因为摆通常在下方
@@ -76,6 +128,26 @@ export class DoublePendulumScene extends Scene {
     return description;
   }
 
+  getCameraConfig(): CameraConfig {
+    const bob = (second: boolean) => () => {
+      const { L1, L2 } = this.params;
+      const { theta1, theta2 } = this.phys;
+      const x = L1 * Math.sin(theta1);
+      const y = -L1 * Math.cos(theta1);
+      return second ? { x: x + L2 * Math.sin(theta2), y: y - L2 * Math.cos(theta2) } : { x, y };
+    };
+    return {
+      follow: [
+        { id: 'bob1', label: '摆球 1', getPosition: bob(false) },
+        { id: 'bob2', label: '摆球 2', getPosition: bob(true) },
+      ],
+    };
+  }
+
+  getMeasurementConfig(): MeasurementConfig {
+    return {};
+  }
+
   setup(): void {
     this.resetSimulation();
     this.canvas.style.backgroundColor = this.params.bgColor;
@@ -91,9 +163,64 @@ export class DoublePendulumScene extends Scene {
       omega2: 0,
     };
     this.trail = [];
+    this.stepReport = null;
+    this.nextStep = undefined;
+    this.totalRejected = 0;
+    this.resetGhost();
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return this.cloneState({
+      phys: this.phys,
+      trail: this.trail,
+      nextStep: this.nextStep ?? null,
+      totalRejected: this.totalRejected,
+      ghost: this.ghost.state,
+    });
+  }
+
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.trail = this.cloneState(state.trail);
+    this.nextStep = state.nextStep ?? undefined;
+    this.totalRejected = state.totalRejected;
+    this.stepReport = null;
+    if (this.ghost.method && state.ghost) {
+      this.ghost.state = this.cloneState(state.ghost);
+    } else {
+      this.resetGhost();
+    }
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    // 等质量、等摆长时小角度简正模的振幅比为 θ2/θ1 = ±√2
+    return [
+      {
+        name: '同相简正模',
+        description: '小角度、θ2 = √2·θ1，两摆以同一频率同向摆动',
+        params: { m1: 1, m2: 1, L1: 1, L2: 1, theta1_0: 10, theta2_0: 14.14 },
+      },
+      {
+        name: '反相简正模',
+        description: '小角度、θ2 = -√2·θ1，两摆以较高频率反向摆动',
+        params: { m1: 1, m2: 1, L1: 1, L2: 1, theta1_0: 10, theta2_0: -14.14 },
+      },
+      {
+        name: '混沌运动',
+        description: '大角度释放，对初始条件极其敏感',
+        params: { m1: 1, m2: 1, L1: 1, L2: 1, theta1_0: 120, theta2_0: -30 },
+      },
+      {
+        name: '倒立释放',
+        description: '两摆几乎竖直向上，微小偏差迅速放大',
+        params: { m1: 1, m2: 1, L1: 1, L2: 1, theta1_0: 179, theta2_0: 180 },
+      },
+    ];
   }
 
   getControlConfig(): any[] {
@@ -176,6 +303,39 @@ export class DoublePendulumScene extends Scene {
         description: '保留的轨迹点数量。',
         resetOnChange: false,
       },
+      {
+        type: 'select',
+        key: 'integrator',
+        label: '积分方法',
+        options: getIntegratorOptions(DOUBLE_PENDULUM_METHODS),
+        description:
+          'RK45 按误差容限自动调整子步长。双摆的角加速度依赖角速度，Verlet 等方法在此并不严格保辛。',
+        onChange: () => this.emit('chart-config-change'),
+      },
+      {
+        type: 'select',
+        key: 'ghostIntegrator',
+        label: '幽灵对照',
+        options: [
+          { label: '关闭', value: 'none' },
+          ...getIntegratorOptions(DOUBLE_PENDULUM_METHODS),
+        ],
+        description: '用另一种积分方法从当前状态并行模拟，半透明绘制，图表对比两者的机械能。',
+        onChange: () => {
+          this.resetGhost();
+          this.emit('chart-config-change');
+        },
+      },
+      {
+        type: 'range',
+        key: 'tolExp',
+        label: '误差容限 (10^n)',
+        min: -12,
+        max: -3,
+        step: 1,
+        description: '仅 RK45：每步允许的相对/绝对误差。',
+        resetOnChange: false,
+      },
       {
         type: 'select',
         key: 'bgColor',
@@ -217,22 +377,61 @@ export class DoublePendulumScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '角度 (deg)',
-        series: ['Theta 1', 'Theta 2'],
-        colors: [THEME.colors.objects.ball.light, '#5cd65c'],
-      },
-      acc: {
-        label: '相图 (Theta2 vs Omega2)',
-        series: ['Phase 2'],
+  getChartConfig(): ChartPanelConfig[] {
+    const angles: ChartPanelConfig = {
+      id: 'angles',
+      label: '角度',
+      unit: 'deg',
+      series: ['Theta 1', 'Theta 2'],
+      colors: [THEME.colors.objects.ball.light, '#5cd65c'],
+    };
+    const spectrum: ChartPanelConfig = {
+      id: 'spectrum',
+      label: '角度频谱',
+      series: angles.series,
+      colors: angles.colors!,
+      mode: 'spectrum',
+      source: 'angles',
+    };
+    if (this.ghost.isActive()) {
+      return [
+        angles,
+        {
+          id: 'energy',
+          label: '机械能 E',
+          unit: 'J',
+          series: [INTEGRATOR_LABELS[this.params.integrator], this.ghost.getLabel()],
+          colors: [THEME.colors.vectors.velocity, THEME.colors.objects.ghost],
+        },
+        spectrum,
+      ];
+    }
+    return [
+      angles,
+      {
+        id: 'omega2',
+        label: '角速度 Omega 2',
+        unit: 'rad/s',
+        series: ['Omega 2'],
         colors: ['#d28bff'],
       },
-    };
+      spectrum,
+    ];
   }
 
-  getMonitorData(t: number): any {
+  /**
+   * 小角度简正模的理论频率 (大摆角时运动混沌，频谱展宽)
+   */
+  getSpectrumReferences(): SpectrumReference[] {
+    const { m1, m2, L1, L2, g } = this.params;
+    const [slow, fast] = Physics.doublePendulumNormalFrequencies({ m1, m2, L1, L2, g });
+    return [
+      { label: '同相模', frequency: slow! / (2 * Math.PI) },
+      { label: '反相模', frequency: fast! / (2 * Math.PI) },
+    ];
+  }
+
+  getMonitorData(t: number): MonitorData {
     const { theta1, theta2, omega2 } = this.phys;
     // 规范化角度到 -180 ~ 180
     const normalize = (angle: number): number => {
@@ -241,18 +440,88 @@ export class DoublePendulumScene extends Scene {
       if (a < -Math.PI) a += 2 * Math.PI;
       return (a * 180) / Math.PI;
     };
+    const angles = [normalize(theta1), normalize(theta2)];
+
+    const ghostEnergy = this.ghost.getEnergy();
+    if (ghostEnergy !== null) {
+      const { pos, vel } = this.toPhaseState();
+      return {
+        t: t,
+        channels: { angles, energy: [this.mechanicalEnergy(pos, vel), ghostEnergy] },
+      };
+    }
 
+    // RealTimeChart 目前只支持时间序列，暂时画 omega2 随时间的变化 (相图需要 XY 图表)
     return {
       t: t,
-      vel: [normalize(theta1), normalize(theta2)],
-      acc: [omega2], // 这里其实想画相图，但 RealTimeChart 目前只支持 Time Series。
-      // 我们可以暂时只画 omega2 随时间变化，或者修改 Chart 组件支持 XY Plot。
-      // 鉴于目前架构，先画 omega2。
+      channels: { angles, omega2: [omega2] },
+    };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    const { theta1, theta2, omega1, omega2 } = this.phys;
+    const { pos, vel } = this.toPhaseState();
+    return {
+      'Theta 1 (deg)': (theta1 * 180) / Math.PI,
+      'Theta 2 (deg)': (theta2 * 180) / Math.PI,
+      'Omega 1 (rad/s)': omega1,
+      'Omega 2 (rad/s)': omega2,
+      '机械能 E (J)': this.mechanicalEnergy(pos, vel),
     };
   }
 
+  /**
+   * 角加速度 (相空间形式：pos = 角度, vel = 角速度)
+   */
+  private angularAccelerations(pos: StateObject, vel: StateObject): StateObject {
+    const { m1, m2, L1, L2, g } = this.params;
+    const { alpha1, alpha2 } = Physics.doublePendulumAccelerations(
+      { m1, m2, L1, L2, g },
+      {
+        theta1: pos.theta1 as number,
+        theta2: pos.theta2 as number,
+        omega1: vel.theta1 as number,
+        omega2: vel.theta2 as number,
+      }
+    );
+    return { theta1: alpha1, theta2: alpha2 };
+  }
+
+  /**
+   * 机械能 E = T + V (悬挂点为势能零点)
+   */
+  private mechanicalEnergy(pos: StateObject, vel: StateObject): number {
+    const { m1, m2, L1, L2, g } = this.params;
+    const theta1 = pos.theta1 as number;
+    const theta2 = pos.theta2 as number;
+    const omega1 = vel.theta1 as number;
+    const omega2 = vel.theta2 as number;
+    const T =
+      0.5 * (m1 + m2) * L1 * L1 * omega1 * omega1 +
+      0.5 * m2 * L2 * L2 * omega2 * omega2 +
+      m2 * L1 * L2 * omega1 * omega2 * Math.cos(theta1 - theta2);
+    const V = -(m1 + m2) * g * L1 * Math.cos(theta1) - m2 * g * L2 * Math.cos(theta2);
+    return T + V;
+  }
+
+  /**
+   * 当前状态的相空间形式
+   */
+  private toPhaseState(): { pos: StateObject; vel: StateObject } {
+    const { theta1, theta2, omega1, omega2 } = this.phys;
+    return { pos: { theta1, theta2 }, vel: { theta1: omega1, theta2: omega2 } };
+  }
+
+  /**
+   * 按当前设置让幽灵从主模拟的当前状态重新出发
+   */
+  private resetGhost(): void {
+    this.ghost.setMethod(this.params.ghostIntegrator);
+    this.ghost.reset(this.toPhaseState());
+  }
+
   update(dt: number, t: number): void {
-    const { m1, m2, L1, L2, g, trailLength } = this.params;
+    const { m1, m2, L1, L2, g, trailLength, integrator } = this.params;
 
     // 定义导数函数
     const derivatives = (state: PhysicsState, time: number) => {
@@ -266,12 +535,47 @@ export class DoublePendulumScene extends Scene {
       };
     };
 
-    // RK4 积分
-    // 双摆对精度要求高，可以考虑把 dt 分割成更小的步长
-    const steps = 4;
-    const subDt = dt / steps;
-    for (let i = 0; i < steps; i++) {
-      this.phys = Integrator.rk4(this.phys, t + i * subDt, subDt, derivatives);
+    const subDt = dt / SUB_STEPS;
+
+    if (integrator === 'rk45') {
+      // 自适应步长：误差超出容限的子步会被拒绝重算
+      const tol = Math.pow(10, this.params.tolExp);
+      const { state, report } = Integrator.dormandPrince(this.phys, t, dt, derivatives, {
+        relTol: tol,
+        absTol: tol,
+        initialStep: this.nextStep,
+      });
+      this.phys = state;
+      this.stepReport = report;
+      this.nextStep = report.nextStep;
+      this.totalRejected += report.rejectedSteps;
+    } else if (integrator === 'rk4') {
+      // RK4 积分
+      // 双摆对精度要求高，把 dt 分割成更小的步长
+      for (let i = 0; i < SUB_STEPS; i++) {
+        this.phys = Integrator.rk4(this.phys, t + i * subDt, subDt, derivatives);
+      }
+      this.stepReport = null;
+    } else {
+      // 其他方法：按相空间状态 { pos: θ, vel: ω } 推进，同样分割子步
+      let state = this.toPhaseState();
+      for (let i = 0; i < SUB_STEPS; i++) {
+        state = Integrator.stepSecondOrder(integrator, state, t + i * subDt, subDt, (pos, vel) =>
+          this.angularAccelerations(pos, vel)
+        );
+      }
+      this.phys = {
+        theta1: state.pos.theta1 as number,
+        theta2: state.pos.theta2 as number,
+        omega1: state.vel.theta1 as number,
+        omega2: state.vel.theta2 as number,
+      };
+      this.stepReport = null;
+    }
+
+    // 幽灵与主模拟使用相同的子步长
+    for (let i = 0; i < SUB_STEPS; i++) {
+      this.ghost.step(t + i * subDt, subDt);
     }
 
     // 计算位置用于轨迹
@@ -340,8 +644,42 @@ export class DoublePendulumScene extends Scene {
     const r1 = THEME.sizes.ballRadius * Math.pow(m1, 1 / 3);
     const r2 = THEME.sizes.ballRadius * Math.pow(m2, 1 / 3);
 
+    // 幽灵对照双摆 (半透明)
+    if (this.ghost.state) {
+      const g1 = this.ghost.state.pos.theta1 as number;
+      const g2 = this.ghost.state.pos.theta2 as number;
+      const gp1 = { x: L1 * Math.sin(g1), y: -L1 * Math.cos(g1) };
+      const sG1 = this.viewport.worldToScreen(gp1.x, gp1.y);
+      const sG2 = this.viewport.worldToScreen(gp1.x + L2 * Math.sin(g2), gp1.y - L2 * Math.cos(g2));
+      const ghostColor = THEME.colors.objects.ghost;
+      ctx.save();
+      ctx.globalAlpha = 0.45;
+      drawLine(ctx, sPivot.x, sPivot.y, sG1.x, sG1.y, ghostColor, 2);
+      drawLine(ctx, sG1.x, sG1.y, sG2.x, sG2.y, ghostColor, 2);
+      drawDot(ctx, sG1.x, sG1.y, ghostColor, r1);
+      drawDot(ctx, sG2.x, sG2.y, ghostColor, r2);
+      ctx.restore();
+    }
+
     drawDot(ctx, sPivot.x, sPivot.y, mainColor, 4);
     drawDot(ctx, sP1.x, sP1.y, THEME.colors.objects.ball.light, r1);
     drawDot(ctx, sP2.x, sP2.y, '#5cd65c', r2);
+
+    // 自适应积分状态
+    if (this.stepReport) {
+      const r = this.stepReport;
+      drawTextLines(
+        ctx,
+        [
+          `RK45  tol = 1e${this.params.tolExp}`,
+          `本帧: 接受 ${r.acceptedSteps} 步, 拒绝 ${r.rejectedSteps} 步`,
+          `步长: ${r.minStepUsed.toExponential(2)} ~ ${r.maxStepUsed.toExponential(2)} s`,
+          `累计拒绝: ${this.totalRejected}`,
+        ],
+        10,
+        10,
+        mainColor
+      );
+    }
   }
 }
@@ -1,6 +1,7 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState, ScenePreset, ChartPanelConfig, MonitorData } from '../core/Scene.ts';
 import { drawDot, drawVector, drawLine, drawCircle } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/ElasticCollision.md?raw';
 
 /**
@@ -67,6 +68,10 @@ export class ElasticCollisionScene extends Scene {
     return description;
   }
 
+  getMeasurementConfig(): MeasurementConfig {
+    return {};
+  }
+
   setup(): void {
     this.resetSimulation();
     this.canvas.style.backgroundColor = this.params.bgColor;
@@ -108,8 +113,44 @@ export class ElasticCollisionScene extends Scene {
 
     this.time = 0;
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return this.cloneState({ balls: this.balls, time: this.time });
+  }
+
+  setState(state: SceneState): void {
+    this.balls = this.cloneState(state.balls);
+    this.time = state.time;
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '等质量对心弹性碰撞',
+        description: '两球交换速度',
+        params: { m1: 2, m2: 2, v1: 5, v2: 0, b: 0, e: 1 },
+      },
+      {
+        name: '完全非弹性碰撞',
+        description: 'e = 0，碰后两球共同运动，动能损失最大',
+        params: { m1: 2, m2: 2, v1: 5, v2: 0, b: 0, e: 0 },
+      },
+      {
+        name: '重球撞轻球',
+        description: '轻球以接近两倍的速度弹出',
+        params: { m1: 10, m2: 1, v1: 5, v2: 0, b: 0, e: 1 },
+      },
+      {
+        name: '斜碰',
+        description: '等质量弹性斜碰，碰后速度方向近似垂直',
+        params: { m1: 2, m2: 2, v1: 5, v2: 0, b: 1.0, e: 1 },
+      },
+    ];
   }
 
   getControlConfig(): any[] {
@@ -225,22 +266,26 @@ export class ElasticCollisionScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '总动能 (J)',
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'kineticEnergy',
+        label: '总动能',
+        unit: 'J',
         series: ['Total Ek'],
         colors: ['#ffa500'],
       },
-      acc: {
-        label: '总动量 X (kg·m/s)',
+      {
+        id: 'momentum',
+        label: '总动量 X',
+        unit: 'kg·m/s',
         series: ['Total Px'],
         colors: ['#d28bff'],
       },
-    };
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     let totalEk = 0;
     let totalPx = 0;
 
@@ -252,8 +297,25 @@ export class ElasticCollisionScene extends Scene {
 
     return {
       t: t,
-      vel: [totalEk],
-      acc: [totalPx],
+      channels: { kineticEnergy: [totalEk], momentum: [totalPx] },
+    };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    let totalEk = 0;
+    let totalPx = 0;
+    let totalPy = 0;
+
+    this.balls.forEach(b => {
+      totalEk += 0.5 * b.m * (b.vel.x * b.vel.x + b.vel.y * b.vel.y);
+      totalPx += b.m * b.vel.x;
+      totalPy += b.m * b.vel.y;
+    });
+
+    return {
+      '总动能 (J)': totalEk,
+      '总动量 X (kg·m/s)': totalPx,
+      '总动量 Y (kg·m/s)': totalPy,
     };
   }
 
@@ -1,4 +1,11 @@
-import { Scene } from '../core/Scene.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+} from '../core/Scene.ts';
 import { drawAxes, drawDot, drawVector, drawTrail } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 
@@ -40,6 +47,8 @@ export class FreeFallScene extends Scene {
   phys: PhysicsState;
   prevPhys: PhysicsState;
   groundYOffset: number;
+  // 落地碰撞累计损失的单位质量能量 (J/kg)
+  dissipated: number;
 
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
@@ -68,6 +77,7 @@ export class FreeFallScene extends Scene {
       t: 0,
     };
     this.prevPhys = { ...this.phys };
+    this.dissipated = 0;
   }
 
   setup(): void {
@@ -83,6 +93,29 @@ export class FreeFallScene extends Scene {
     this.canvas.style.backgroundColor = this.params.bgColor;
   }
 
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '自由落体',
+        description: '静止释放，落地后不反弹',
+        params: { v0: 0, restitution: 0 },
+      },
+      {
+        name: '弹性反弹',
+        description: 'e = 1，每次反弹回到原高度',
+        params: { v0: 0, restitution: 1 },
+      },
+      {
+        name: '竖直上抛',
+        description: '初速度向上 (负值)',
+        params: { v0: -20, restitution: 0.6 },
+      },
+    ];
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -219,22 +252,26 @@ export class FreeFallScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '高度 (px)',
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'height',
+        label: '高度',
+        unit: 'px',
         series: ['高度'],
         colors: THEME.colors.chart.series,
       },
-      acc: {
-        label: '垂直速度 (px/s)',
+      {
+        id: 'velocity',
+        label: '垂直速度',
+        unit: 'px/s',
         series: ['速度'],
         colors: THEME.colors.chart.series,
       },
-    };
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData | null {
     // Chart 1: Y position (Height from ground)
     const groundY = this.height - this.groundYOffset;
     const currentHeight = groundY - this.phys.y;
@@ -250,8 +287,7 @@ export class FreeFallScene extends Scene {
 
     return {
       t: t,
-      vel: [currentHeight],
-      acc: [-this.phys.vy],
+      channels: { height: [currentHeight], velocity: [-this.phys.vy] },
     };
   }
 
@@ -271,9 +307,40 @@ export class FreeFallScene extends Scene {
     this.phys.vy = this.phys.simV0;
     this.prevPhys = { ...this.phys };
     this.trail = [];
+    this.dissipated = 0;
+
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return this.cloneState({ phys: this.phys, trail: this.trail, dissipated: this.dissipated });
+  }
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.prevPhys = { ...this.phys };
+    this.trail = this.cloneState(state.trail);
+    this.dissipated = state.dissipated ?? 0;
+  }
+
+  /**
+   * 单位质量的动能与重力势能 (J/kg)
+   * 场景中 10 px 对应 1 m，势能零点取小球静止在地面时的位置。
+   */
+  private specificEnergy(y: number, vy: number): { kinetic: number; gravitational: number } {
+    const restY = this.height - this.groundYOffset - THEME.sizes.ballRadius;
+    return {
+      kinetic: 0.5 * (vy / 10) ** 2,
+      gravitational: this.params.gravity * ((restY - y) / 10),
+    };
+  }
+
+  getEnergyBreakdown(): EnergyBreakdown {
+    return {
+      ...this.specificEnergy(this.phys.y, this.phys.vy),
+      dissipated: this.dissipated,
+      unit: 'J/kg',
+    };
   }
 
   update(dt: number, totalTime: number): void {
@@ -297,6 +364,8 @@ export class FreeFallScene extends Scene {
     // Collision detection
     let isStopped = false;
     if (this.phys.y + radius > groundY) {
+      // 以本步开始时的机械能统计碰撞损失 (静止在地面时前后相同，不计入)
+      const before = this.specificEnergy(this.prevPhys.y, this.prevPhys.vy);
       this.phys.y = groundY - radius;
       // Bounce
       if (this.params.restitution > 0) {
@@ -310,6 +379,10 @@ export class FreeFallScene extends Scene {
         this.phys.vy = 0;
         isStopped = true;
       }
+
+      const after = this.specificEnergy(this.phys.y, this.phys.vy);
+      this.dissipated +=
+        before.kinetic + before.gravitational - (after.kinetic + after.gravitational);
     }
 
     this.phys.t += dt;
@@ -1,25 +1,31 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState, ScenePreset } from '../core/Scene.ts';
 import { drawLine, drawDot } from '../utils/draw.ts';
 import { drawStickFigure, drawEye } from '../utils/graphics.ts';
 import { THEME } from '../config.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/OpticsLens.md?raw';
 
 /**
  * 场景名称: 透镜成像 (Lens Imaging)
  * 物理现象: 模拟凸透镜和凹透镜的几何成像规律。
  */
+// 物体的可拖动范围：左右各留出的宽度 (像素)
+const OBJECT_HIT_MARGIN = 12;
+
 export class OpticsLensScene extends Scene {
+  params: any;
+
   constructor(canvas) {
     super(canvas);
 
     // 默认参数
     this.params = {
-      f: 100, // 焦距 (px), 正为凸, 负为凹
+      f: 100, // 焦距大小 (px), 凸凹由 lensType 决定
       do: 200, // 物距 (px), 默认为正 (左侧)
       ho: 60, // 物高 (px), 向上为正
       eyeX: 350, // 人眼位置 (x坐标)
       showRays: true, // 显示光路
-      lensType: 'convex', // 'convex' | 'concave' (用于UI控制f的符号)
+      lensType: 'convex', // 'convex' | 'concave' (决定焦距的符号)
       animationSpeed: 1.0, // 动画速度
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
@@ -37,16 +43,115 @@ export class OpticsLensScene extends Scene {
     return description;
   }
 
+  getMeasurementConfig(): MeasurementConfig {
+    // 以透镜中心为原点按像素绘制，物距、像距均以 px 计
+    return { unit: 'px' };
+  }
+
   setup() {
     this.resetSimulation();
     this.canvas.style.backgroundColor = this.params.bgColor;
     this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
+    this.setupObjectDrag();
+  }
+
+  /**
+   * 拖动物体 (主光轴到物体顶端的竖线) 设置物距与物高
+   * 场景以画布中心为原点按像素绘制，命中区域由屏幕位置换算为世界坐标。
+   */
+  setupObjectDrag() {
+    let start = { do: 0, ho: 0 };
+    this.interaction.add({
+      id: 'object',
+      shape: () => {
+        const cx = this.width / 2;
+        const cy = this.height / 2;
+        const { do: objectDistance, ho: objectHeight } = this.params;
+        // 竖线从主光轴下方 5px 到物体顶端上方 10px
+        const center = this.viewport.screenToWorld(
+          cx - objectDistance,
+          cy - (objectHeight + 5) / 2
+        );
+        return {
+          type: 'rect',
+          x: center.x,
+          y: center.y,
+          width: this.viewport.toMeters(OBJECT_HIT_MARGIN * 2),
+          height: this.viewport.toMeters(objectHeight + 15),
+        };
+      },
+      onDragStart: () => {
+        start = { do: this.params.do, ho: this.params.ho };
+      },
+      onDrag: ({ screen, startScreen }) => {
+        // 物体在透镜左侧：向左拖动增大物距，向上拖动增大物高
+        const objectDistance = start.do - (screen.x - startScreen.x);
+        const objectHeight = start.ho - (screen.y - startScreen.y);
+        this.setParamsFromCanvas({
+          do: Math.round(Math.max(50, Math.min(400, objectDistance))),
+          ho: Math.round(Math.max(10, Math.min(100, objectHeight))),
+        });
+      },
+    });
   }
 
   resetSimulation() {
     this.animTime = 0;
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return { animTime: this.animTime };
+  }
+
+  setState(state: SceneState): void {
+    this.animTime = state.animTime;
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '照相机',
+        description: '物距大于二倍焦距：倒立缩小的实像',
+        params: { lensType: 'convex', f: 100, do: 300 },
+      },
+      {
+        name: '投影仪',
+        description: '物距在一倍与二倍焦距之间：倒立放大的实像',
+        params: { lensType: 'convex', f: 100, do: 150 },
+      },
+      {
+        name: '放大镜',
+        description: '物距小于焦距：正立放大的虚像',
+        params: { lensType: 'convex', f: 150, do: 100 },
+      },
+      {
+        name: '凹透镜',
+        description: '任意物距都成正立缩小的虚像',
+        params: { lensType: 'concave', f: 100, do: 200 },
+      },
+    ];
+  }
+
+  /**
+   * 带符号的焦距 (凸透镜为正，凹透镜为负)
+   */
+  getFocalLength(): number {
+    return this.params.lensType === 'convex' ? this.params.f : -this.params.f;
+  }
+
+  /**
+   * 像距 (透镜成像公式 1/f = 1/do + 1/di，正为右侧实像，负为左侧虚像)
+   * @returns {number | null} 物体位于焦点上时不成像，返回 null
+   */
+  getImageDistance(): number | null {
+    const f = this.getFocalLength();
+    const objectDistance = this.params.do;
+    if (Math.abs(objectDistance - f) < 0.001) return null;
+    return (f * objectDistance) / (objectDistance - f);
   }
 
   getControlConfig() {
@@ -59,11 +164,8 @@ export class OpticsLensScene extends Scene {
           { label: '凸透镜 (汇聚)', value: 'convex' },
           { label: '凹透镜 (发散)', value: 'concave' },
         ],
-        onChange: val => {
-          if (val === 'convex' && this.params.f < 0) this.params.f = -this.params.f;
-          if (val === 'concave' && this.params.f > 0) this.params.f = -this.params.f;
-          this.resetSimulation();
-        },
+        // f 为焦距大小，符号由透镜类型决定 (见 getFocalLength)
+        onChange: () => this.resetSimulation(),
       },
       {
         type: 'range',
@@ -95,6 +197,23 @@ export class OpticsLensScene extends Scene {
         description: '物体的高度。',
         onChange: () => this.resetSimulation(),
       },
+      {
+        type: 'readout',
+        key: 'imageDistance',
+        label: '像距 (di)',
+        unit: 'px',
+        precision: 1,
+        getValue: () => this.getImageDistance(),
+      },
+      {
+        type: 'readout',
+        key: 'magnification',
+        label: '放大率 (M)',
+        getValue: () => {
+          const di = this.getImageDistance();
+          return di === null ? null : -di / this.params.do;
+        },
+      },
       {
         type: 'range',
         key: 'eyeX',
@@ -188,7 +307,7 @@ export class OpticsLensScene extends Scene {
 
     const fAbs = this.params.f;
     const isConvex = this.params.lensType === 'convex';
-    const f = isConvex ? fAbs : -fAbs;
+    const f = this.getFocalLength();
     const do_val = this.params.do;
     const ho = this.params.ho;
     const showRays = this.params.showRays;
@@ -277,17 +396,10 @@ export class OpticsLensScene extends Scene {
     drawStickFigure(ctx, objX, objY, objTopY, objColor, '物');
 
     // 5. 计算像的位置
-    let di = 0;
-    let hi = 0;
-    let hasImage = true;
-
-    if (Math.abs(do_val - f) < 0.001) {
-      hasImage = false;
-    } else {
-      di = (f * do_val) / (do_val - f);
-      const M = -di / do_val;
-      hi = M * ho;
-    }
+    const image = this.getImageDistance();
+    const hasImage = image !== null;
+    const di = image ?? 0;
+    const hi = (-di / do_val) * ho;
 
     // 6. 绘制像 (动画逻辑移到光路绘制中，统一处理)
     let imgX, imgTopY;
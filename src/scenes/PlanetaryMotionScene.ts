@@ -1,7 +1,26 @@
-import { Scene } from '../core/Scene.ts';
-import { drawDot, drawVector, drawLine } from '../utils/draw.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+} from '../core/Scene.ts';
+import { drawDot, drawVector, drawLine, drawTextLines } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 import { Physics } from '../utils/physics.ts';
+import {
+  Integrator,
+  AdaptiveReport,
+  StateObject,
+  SecondOrderMethod,
+  INTEGRATOR_LABELS,
+  getIntegratorOptions,
+} from '../core/Integrator.ts';
+import { EnergyDriftMonitor } from '../core/EnergyDriftMonitor.ts';
+import { GhostSimulation } from '../core/GhostSimulation.ts';
+import { CameraConfig } from '../core/Camera.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/PlanetaryMotion.md?raw';
 
 interface PlanetaryMotionParams {
@@ -13,6 +32,10 @@ interface PlanetaryMotionParams {
   showVel: boolean;
   showForce: boolean;
   showTrail: boolean;
+  integrator: SecondOrderMethod;
+  ghostIntegrator: SecondOrderMethod | 'none';
+  tolExp: number;
+  compareEnergy: boolean;
   bgColor: string;
 }
 
@@ -33,6 +56,13 @@ interface StarState {
   color: string;
 }
 
+type OrbitState = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+};
+
 interface TrailPoint {
   x: number;
   y: number;
@@ -44,12 +74,32 @@ interface TrailPoint {
  * 物理现象: 模拟行星绕恒星的运动，展示万有引力定律与开普勒定律。
  * 初始设置: 恒星质量 M=500, 行星初速度 v0=5.0, 初始距离 r0=200, 引力常数 G=1.0.
  */
+// 行星与速度箭头末端的可拖动半径 (像素)
+const PLANET_HIT_RADIUS = 12;
+
+// 场景支持的积分方法
+const ORBIT_METHODS: SecondOrderMethod[] = [
+  'euler',
+  'semiImplicit',
+  'verlet',
+  'leapfrog',
+  'yoshida4',
+  'rk4',
+  'rk45',
+];
+
 export class PlanetaryMotionScene extends Scene {
   params: PlanetaryMotionParams;
   planet: PlanetState;
   star: StarState;
   trail: TrailPoint[];
   time: number;
+  stepReport: AdaptiveReport | null;
+  nextStep: number | undefined;
+  totalRejected: number;
+  energyDrift: EnergyDriftMonitor;
+  ghost: GhostSimulation;
+  ghostTrail: TrailPoint[];
 
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
@@ -64,6 +114,10 @@ export class PlanetaryMotionScene extends Scene {
       showVel: true,
       showForce: true,
       showTrail: true,
+      integrator: 'semiImplicit', // 见 INTEGRATOR_LABELS
+      ghostIntegrator: 'none', // 幽灵对照使用的方法
+      tolExp: -8, // 自适应误差容限指数 (10^n)
+      compareEnergy: false, // 图表显示各积分方法的能量漂移对比
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
 
@@ -83,6 +137,25 @@ export class PlanetaryMotionScene extends Scene {
     this.trail = [];
     this.time = 0;
 
+    // 自适应积分报告
+    this.stepReport = null;
+    this.nextStep = undefined;
+    this.totalRejected = 0;
+
+    // 能量漂移对比 (各方法从同一初始状态并行推进)
+    this.energyDrift = new EnergyDriftMonitor(
+      ['semiImplicit', 'verlet', 'yoshida4', 'rk4'],
+      (pos: StateObject) => this.gravityAcceleration(pos),
+      ({ pos, vel }) => this.specificEnergy(pos, vel)
+    );
+
+    // 幽灵对照 (另一种积分方法，从同一状态出发)
+    this.ghost = new GhostSimulation(
+      (pos: StateObject) => this.gravityAcceleration(pos),
+      ({ pos, vel }) => this.specificEnergy(pos, vel)
+    );
+    this.ghostTrail = [];
+
     // 视口设置：1单位距离 = 1像素 (或者根据需要缩放)
     // 这里直接用像素单位模拟比较直观
     this.viewport.setScale(1.0);
@@ -93,10 +166,73 @@ export class PlanetaryMotionScene extends Scene {
     return description;
   }
 
+  getCameraConfig(): CameraConfig {
+    return {
+      follow: [{ id: 'planet', label: '行星', getPosition: () => ({ ...this.planet.pos }) }],
+    };
+  }
+
+  getMeasurementConfig(): MeasurementConfig {
+    // 距离以像素为单位模拟，没有物理单位；显示网格便于观察轨道形状
+    return { unit: '', grid: true, axes: true };
+  }
+
   setup(): void {
     this.resetSimulation();
     this.canvas.style.backgroundColor = this.params.bgColor;
     this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
+    this.setupPlanetDrag();
+  }
+
+  /**
+   * 速度箭头的像素比例 (与 render 中的速度矢量一致)
+   */
+  getVelocityScale(): number {
+    return 5.0 * this.params.vectorScale;
+  }
+
+  /**
+   * 拖动行星设置初始距离，拖动速度箭头末端设置初速度 (拖动期间行星停在初始位置)
+   */
+  setupPlanetDrag(): void {
+    const onDragStart = () => this.emit('request-reset');
+    const onDragEnd = () => this.emit('request-reset');
+
+    this.interaction.add({
+      id: 'planet',
+      shape: () => ({ type: 'circle', x: this.planet.pos.x, y: this.planet.pos.y, radius: 0 }),
+      padding: PLANET_HIT_RADIUS,
+      onDragStart,
+      onDrag: ({ world }) => {
+        // 初始距离为恒星到指针的距离 (行星总是从恒星右侧出发)
+        const r = Math.hypot(world.x - this.star.pos.x, world.y - this.star.pos.y);
+        this.setParamsFromCanvas({ r0: Math.round(Math.max(100, Math.min(400, r))) });
+      },
+      onDragEnd,
+    });
+
+    // 速度箭头末端在行星之上，两者重叠时优先拖动箭头
+    let startV0 = 0;
+    this.interaction.add({
+      id: 'planet-velocity',
+      shape: () => {
+        if (!this.params.showVel) return null;
+        const scale = this.viewport.toMeters(this.getVelocityScale());
+        const { pos, vel } = this.planet;
+        return { type: 'circle', x: pos.x + vel.x * scale, y: pos.y + vel.y * scale, radius: 0 };
+      },
+      padding: PLANET_HIT_RADIUS,
+      onDragStart: () => {
+        startV0 = this.params.v0;
+        onDragStart();
+      },
+      onDrag: ({ screen, startScreen }) => {
+        // 初速度沿切向 (向上)：箭头末端随指针上下移动
+        const v0 = startV0 + (startScreen.y - screen.y) / this.getVelocityScale();
+        this.setParamsFromCanvas({ v0: Math.round(Math.max(0, Math.min(10, v0)) * 10) / 10 });
+      },
+      onDragEnd,
+    });
   }
 
   resetSimulation(): void {
@@ -110,9 +246,68 @@ export class PlanetaryMotionScene extends Scene {
 
     this.trail = [];
     this.time = 0;
+    this.stepReport = null;
+    this.nextStep = undefined;
+    this.totalRejected = 0;
+    this.energyDrift.reset({ pos: { ...this.planet.pos }, vel: { ...this.planet.vel } });
+    this.resetGhost();
+
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return this.cloneState({
+      pos: this.planet.pos,
+      vel: this.planet.vel,
+      trail: this.trail,
+      time: this.time,
+      nextStep: this.nextStep ?? null,
+      totalRejected: this.totalRejected,
+      energyDrift: this.energyDrift.getState(),
+      ghost: this.ghost.state,
+      ghostTrail: this.ghostTrail,
+    });
+  }
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+  setState(state: SceneState): void {
+    this.planet.pos = this.cloneState(state.pos);
+    this.planet.vel = this.cloneState(state.vel);
+    this.trail = this.cloneState(state.trail);
+    this.time = state.time;
+    this.nextStep = state.nextStep ?? undefined;
+    this.totalRejected = state.totalRejected;
+    this.stepReport = null;
+    this.energyDrift.setState(state.energyDrift);
+    if (this.ghost.method && state.ghost) {
+      this.ghost.state = this.cloneState(state.ghost);
+      this.ghostTrail = this.cloneState(state.ghostTrail);
+    } else {
+      this.resetGhost();
+    }
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    // 圆轨道速度 v = √(GM/r)：G = 5, M = 1000, r = 200 时 v = 5，逃逸速度为 √2 倍
+    return [
+      {
+        name: '圆轨道 (类地球)',
+        description: 'v0 = √(GM/r0)，轨道近似为圆',
+        params: { M: 1000, G: 5, r0: 200, v0: 5 },
+      },
+      {
+        name: '椭圆轨道',
+        description: '速度小于圆轨道速度，初始位置为远日点',
+        params: { M: 1000, G: 5, r0: 200, v0: 4 },
+      },
+      {
+        name: '逃逸轨道',
+        description: '速度超过逃逸速度 √(2GM/r0) ≈ 7.07，沿双曲线飞离',
+        params: { M: 1000, G: 5, r0: 200, v0: 8 },
+      },
+    ];
   }
 
   getControlConfig(): any[] {
@@ -185,6 +380,45 @@ export class PlanetaryMotionScene extends Scene {
         label: '显示轨迹',
         description: '显示行星运行轨道。',
       },
+      {
+        type: 'select',
+        key: 'integrator',
+        label: '积分方法',
+        options: getIntegratorOptions(ORBIT_METHODS),
+        description: '辛方法 (Verlet/蛙跳/Yoshida) 长期能量不漂移；RK45 在近日点自动缩小步长。',
+        onChange: () => this.emit('chart-config-change'),
+      },
+      {
+        type: 'select',
+        key: 'ghostIntegrator',
+        label: '幽灵对照',
+        options: [{ label: '关闭', value: 'none' }, ...getIntegratorOptions(ORBIT_METHODS)],
+        description: '用另一种积分方法从当前状态并行模拟，半透明绘制，图表对比两者的机械能。',
+        onChange: () => {
+          this.resetGhost();
+          this.emit('chart-config-change');
+        },
+      },
+      {
+        type: 'range',
+        key: 'tolExp',
+        label: '误差容限 (10^n)',
+        min: -12,
+        max: -3,
+        step: 1,
+        description: '仅 RK45：每步允许的相对/绝对误差。',
+        resetOnChange: false,
+      },
+      {
+        type: 'boolean',
+        key: 'compareEnergy',
+        label: '对比能量漂移',
+        description: '第二张图表改为显示各积分方法的相对能量漂移 ΔE/|E₀|。',
+        onChange: () => {
+          this.energyDrift.reset({ pos: { ...this.planet.pos }, vel: { ...this.planet.vel } });
+          this.emit('chart-config-change');
+        },
+      },
       {
         type: 'select',
         key: 'bgColor',
@@ -226,31 +460,142 @@ export class PlanetaryMotionScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '距离 r (px)',
-        series: ['Distance'],
-        colors: [THEME.colors.objects.ball.light],
-      },
-      acc: {
-        label: '速度 v (px/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    const distance: ChartPanelConfig = {
+      id: 'distance',
+      label: '距离 r',
+      unit: 'px',
+      series: ['Distance'],
+      colors: [THEME.colors.objects.ball.light],
+    };
+    const orbit: ChartPanelConfig = {
+      id: 'orbit',
+      label: 'y',
+      unit: 'px',
+      series: ['轨道'],
+      colors: [THEME.colors.objects.ball.light],
+      mode: 'xy',
+      xLabel: 'x',
+      xUnit: 'px',
+      equalScale: true,
+    };
+    if (this.params.compareEnergy) {
+      return [
+        distance,
+        {
+          id: 'drift',
+          label: '能量漂移 ΔE/|E₀|',
+          series: this.energyDrift.getSeriesNames(),
+          colors: THEME.colors.chart.series,
+        },
+        orbit,
+      ];
+    }
+    if (this.ghost.isActive()) {
+      return [
+        distance,
+        {
+          id: 'energy',
+          label: '单位质量机械能 E/m',
+          series: [INTEGRATOR_LABELS[this.params.integrator], this.ghost.getLabel()],
+          colors: [THEME.colors.vectors.velocity, THEME.colors.objects.ghost],
+        },
+        orbit,
+      ];
+    }
+    return [
+      distance,
+      {
+        id: 'velocity',
+        label: '速度 v',
+        unit: 'px/s',
         series: ['Velocity'],
         colors: [THEME.colors.vectors.velocity],
       },
-    };
+      orbit,
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     const dx = this.planet.pos.x - this.star.pos.x;
     const dy = this.planet.pos.y - this.star.pos.y;
     const r = Math.sqrt(dx * dx + dy * dy);
     const v = Math.sqrt(this.planet.vel.x ** 2 + this.planet.vel.y ** 2);
 
+    // 轨道图以恒星为原点；画布 y 轴向下，取反使轨迹与画面方向一致
+    const channels: Record<string, number[]> = { distance: [r], orbit: [dx, -dy] };
+    const ghostEnergy = this.ghost.getEnergy();
+    if (this.params.compareEnergy) {
+      channels.drift = this.energyDrift.getDrifts();
+    } else if (ghostEnergy !== null) {
+      channels.energy = [
+        this.specificEnergy({ ...this.planet.pos }, { ...this.planet.vel }),
+        ghostEnergy,
+      ];
+    } else {
+      channels.velocity = [v];
+    }
+
+    return { t: t, channels };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    const dx = this.planet.pos.x - this.star.pos.x;
+    const dy = this.planet.pos.y - this.star.pos.y;
+    const { x: vx, y: vy } = this.planet.vel;
+    return {
+      '距离 r (px)': Math.sqrt(dx * dx + dy * dy),
+      '速度 v (px/s)': Math.sqrt(vx * vx + vy * vy),
+      '单位质量机械能 E/m': this.specificEnergy({ ...this.planet.pos }, { ...this.planet.vel }),
+      // 角动量守恒 (开普勒第二定律)
+      '单位质量角动量 L/m': dx * vy - dy * vx,
+    };
+  }
+
+  /**
+   * 按当前设置让幽灵从行星的当前状态重新出发
+   */
+  private resetGhost(): void {
+    this.ghost.setMethod(this.params.ghostIntegrator);
+    this.ghost.reset({ pos: { ...this.planet.pos }, vel: { ...this.planet.vel } });
+    this.ghostTrail = [];
+  }
+
+  /**
+   * 恒星对行星产生的加速度 (按位置键返回)
+   */
+  gravityAcceleration(pos: StateObject): StateObject {
+    const { M, G } = this.params;
+    const dx = (pos.x as number) - this.star.pos.x;
+    const dy = (pos.y as number) - this.star.pos.y;
+    const r = Math.sqrt(dx * dx + dy * dy);
+    const a = Physics.gravitationalForce(G, M, 1, r);
+    return { x: -a * (dx / r), y: -a * (dy / r) };
+  }
+
+  /**
+   * 单位质量机械能 E = v²/2 - GM/r
+   */
+  specificEnergy(pos: StateObject, vel: StateObject): number {
+    const { M, G } = this.params;
+    const dx = (pos.x as number) - this.star.pos.x;
+    const dy = (pos.y as number) - this.star.pos.y;
+    const r = Math.sqrt(dx * dx + dy * dy);
+    const v2 = (vel.x as number) ** 2 + (vel.y as number) ** 2;
+    return 0.5 * v2 - (G * M) / r;
+  }
+
+  /**
+   * 单位质量的能量分解 (引力势能零点在无穷远处，束缚轨道上为负)
+   */
+  getEnergyBreakdown(): EnergyBreakdown {
+    const { M, G } = this.params;
+    const dx = this.planet.pos.x - this.star.pos.x;
+    const dy = this.planet.pos.y - this.star.pos.y;
+    const r = Math.sqrt(dx * dx + dy * dy);
     return {
-      t: t,
-      vel: [r],
-      acc: [v],
+      kinetic: 0.5 * (this.planet.vel.x ** 2 + this.planet.vel.y ** 2),
+      gravitational: -(G * M) / r,
     };
   }
 
@@ -281,38 +626,85 @@ export class PlanetaryMotionScene extends Scene {
   }
 
   update(dt: number, t: number): void {
-    const { M, G } = this.params;
-    const { m, pos, vel } = this.planet;
+    // 拖动期间行星停在初始位置
+    if (this.interaction.isActive()) return;
 
-    // 简单的 Euler 积分或者 Verlet 积分
-    // 为了轨道稳定性，最好用 Verlet 或 RK4。这里用半隐式 Euler (Symplectic Euler) 足够稳定
+    const { M, G, integrator } = this.params;
+    const { m, pos, vel } = this.planet;
 
-    // 1. 计算引力
-    const dx = pos.x - this.star.pos.x;
-    const dy = pos.y - this.star.pos.y;
-    const r2 = dx * dx + dy * dy;
-    const r = Math.sqrt(r2);
+    if (integrator === 'semiImplicit') {
+      // 简单的 Euler 积分或者 Verlet 积分
+      // 为了轨道稳定性，最好用 Verlet 或 RK4。这里用半隐式 Euler (Symplectic Euler) 足够稳定
 
-    // F = G * M * m / r^2
-    const F = Physics.gravitationalForce(G, M, m, r);
+      // 1. 计算引力
+      const dx = pos.x - this.star.pos.x;
+      const dy = pos.y - this.star.pos.y;
+      const r2 = dx * dx + dy * dy;
+      const r = Math.sqrt(r2);
 
-    // 分解力
-    // Fx = F * (-dx / r)
-    // Fy = F * (-dy / r)
-    const Fx = -F * (dx / r);
-    const Fy = -F * (dy / r);
+      // F = G * M * m / r^2
+      const F = Physics.gravitationalForce(G, M, m, r);
 
-    // a = F / m
-    const ax = Fx / m;
-    const ay = Fy / m;
+      // 分解力
+      // Fx = F * (-dx / r)
+      // Fy = F * (-dy / r)
+      const Fx = -F * (dx / r);
+      const Fy = -F * (dy / r);
 
-    // 2. 更新速度 (半隐式 Euler: 先更新速度，再用新速度更新位置)
-    vel.x += ax * dt;
-    vel.y += ay * dt;
+      // a = F / m
+      const ax = Fx / m;
+      const ay = Fy / m;
+
+      // 2. 更新速度 (半隐式 Euler: 先更新速度，再用新速度更新位置)
+      vel.x += ax * dt;
+      vel.y += ay * dt;
+
+      // 3. 更新位置
+      pos.x += vel.x * dt;
+      pos.y += vel.y * dt;
+
+      this.stepReport = null;
+    } else if (integrator === 'rk45') {
+      // 将行星状态展开为标量状态对象，交给自适应积分器
+      const derivatives = (state: OrbitState) => {
+        const acc = this.gravityAcceleration(state);
+        return { x: state.vx, y: state.vy, vx: acc.x as number, vy: acc.y as number };
+      };
+      const tol = Math.pow(10, this.params.tolExp);
+      const { state, report } = Integrator.dormandPrince(
+        { x: pos.x, y: pos.y, vx: vel.x, vy: vel.y },
+        t,
+        dt,
+        derivatives,
+        { relTol: tol, absTol: tol, initialStep: this.nextStep }
+      );
+      pos.x = state.x;
+      pos.y = state.y;
+      vel.x = state.vx;
+      vel.y = state.vy;
+      this.stepReport = report;
+      this.nextStep = report.nextStep;
+      this.totalRejected += report.rejectedSteps;
+    } else {
+      // 辛方法与 RK4：按名称推进二阶系统
+      const next = Integrator.stepSecondOrder(
+        integrator,
+        { pos: { x: pos.x, y: pos.y }, vel: { x: vel.x, y: vel.y } },
+        t,
+        dt,
+        p => this.gravityAcceleration(p)
+      );
+      pos.x = next.pos.x as number;
+      pos.y = next.pos.y as number;
+      vel.x = next.vel.x as number;
+      vel.y = next.vel.y as number;
+      this.stepReport = null;
+    }
 
-    // 3. 更新位置
-    pos.x += vel.x * dt;
-    pos.y += vel.y * dt;
+    if (this.params.compareEnergy) {
+      this.energyDrift.step(t, dt);
+    }
+    this.ghost.step(t, dt);
 
     // 4. 记录轨迹
     this.time += dt;
@@ -323,6 +715,12 @@ export class PlanetaryMotionScene extends Scene {
         // 限制轨迹长度，防止内存溢出，但要足够长以显示闭合轨道
         if (this.trail.length > 2000) this.trail.shift();
       }
+      const ghost = this.ghost.state;
+      const lastGhost = this.ghostTrail[this.ghostTrail.length - 1];
+      if (ghost && (!lastGhost || Math.abs(lastGhost.t - t) > 0.1)) {
+        this.ghostTrail.push({ x: ghost.pos.x as number, y: ghost.pos.y as number, t: t });
+        if (this.ghostTrail.length > 2000) this.ghostTrail.shift();
+      }
     }
   }
 
@@ -365,6 +763,29 @@ export class PlanetaryMotionScene extends Scene {
       ctx.stroke();
     }
 
+    // 幽灵对照行星及其轨迹 (半透明)
+    if (this.ghost.state) {
+      ctx.save();
+      ctx.globalAlpha = 0.45;
+      if (showTrail && this.ghostTrail.length > 1) {
+        ctx.beginPath();
+        ctx.strokeStyle = THEME.colors.objects.ghost;
+        ctx.lineWidth = 1;
+        this.ghostTrail.forEach((point, i) => {
+          const p = this.viewport.worldToScreen(point.x, point.y);
+          if (i === 0) ctx.moveTo(p.x, p.y);
+          else ctx.lineTo(p.x, p.y);
+        });
+        ctx.stroke();
+      }
+      const screenGhost = this.viewport.worldToScreen(
+        this.ghost.state.pos.x as number,
+        this.ghost.state.pos.y as number
+      );
+      drawDot(ctx, screenGhost.x, screenGhost.y, THEME.colors.objects.ghost, 6);
+      ctx.restore();
+    }
+
     // 绘制行星
     const screenPlanet = this.viewport.worldToScreen(this.planet.pos.x, this.planet.pos.y);
     drawDot(ctx, screenPlanet.x, screenPlanet.y, THEME.colors.objects.ball.light, 6);
@@ -399,5 +820,23 @@ export class PlanetaryMotionScene extends Scene {
 
       drawVector(ctx, screenPlanet.x, screenPlanet.y, screenFx, screenFy, '#d28bff');
     }
+
+    // 自适应积分状态
+    if (this.stepReport) {
+      const r = this.stepReport;
+      const isLightBg = this.params.bgColor === THEME.colors.background.white;
+      drawTextLines(
+        ctx,
+        [
+          `RK45  tol = 1e${this.params.tolExp}`,
+          `本帧: 接受 ${r.acceptedSteps} 步, 拒绝 ${r.rejectedSteps} 步`,
+          `步长: ${r.minStepUsed.toExponential(2)} ~ ${r.maxStepUsed.toExponential(2)} s`,
+          `累计拒绝: ${this.totalRejected}`,
+        ],
+        10,
+        10,
+        isLightBg ? '#333' : '#fff'
+      );
+    }
   }
 }
@@ -1,7 +1,16 @@
-import { Scene } from '../core/Scene';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+} from '../core/Scene';
 import { Renderer } from '../core/renderers/Renderer';
 import { THEME } from '../config';
 import { Physics } from '../utils/physics';
+import { Integrator, StateObject, INTEGRATOR_LABELS } from '../core/Integrator';
+import { EnergyDriftMonitor } from '../core/EnergyDriftMonitor';
 import description from '../content/PlanetaryMotion.md?raw';
 import * as THREE from 'three';
 
@@ -14,6 +23,8 @@ interface PlanetaryMotionParams {
   showVel: boolean;
   showForce: boolean;
   showTrail: boolean;
+  integrator: 'semiImplicit' | 'verlet' | 'leapfrog' | 'yoshida4' | 'rk4';
+  compareEnergy: boolean;
   bgColor: string;
 }
 
@@ -52,6 +63,7 @@ export class PlanetaryMotionScene3D extends Scene {
   star: StarState;
   trail: TrailPoint[];
   time: number;
+  energyDrift: EnergyDriftMonitor;
 
   // 3D 对象
   private starMesh: THREE.Mesh | null = null;
@@ -73,6 +85,8 @@ export class PlanetaryMotionScene3D extends Scene {
       showVel: true,
       showForce: true,
       showTrail: true,
+      integrator: 'semiImplicit', // 见 INTEGRATOR_LABELS
+      compareEnergy: false, // 图表显示各积分方法的能量漂移对比
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
 
@@ -91,6 +105,13 @@ export class PlanetaryMotionScene3D extends Scene {
 
     this.trail = [];
     this.time = 0;
+
+    // 能量漂移对比 (各方法从同一初始状态并行推进)
+    this.energyDrift = new EnergyDriftMonitor(
+      ['semiImplicit', 'verlet', 'yoshida4', 'rk4'],
+      (pos: StateObject) => this.gravityAcceleration(pos),
+      ({ pos, vel }) => this.specificEnergy(pos, vel)
+    );
   }
 
   getDescription(): string {
@@ -197,16 +218,35 @@ export class PlanetaryMotionScene3D extends Scene {
 
     this.trail = [];
     this.time = 0;
+    this.energyDrift.reset({ pos: { ...this.planet.pos }, vel: { ...this.planet.vel } });
 
     console.log('Reset simulation: planet at', this.planet.pos, 'star at', this.star.pos);
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
 
     // 更新 3D 对象位置
     this.update3DObjects();
   }
 
+  getState(): SceneState {
+    return this.cloneState({
+      pos: this.planet.pos,
+      vel: this.planet.vel,
+      trail: this.trail,
+      time: this.time,
+      energyDrift: this.energyDrift.getState(),
+    });
+  }
+
+  setState(state: SceneState): void {
+    this.planet.pos = this.cloneState(state.pos);
+    this.planet.vel = this.cloneState(state.vel);
+    this.trail = this.cloneState(state.trail);
+    this.time = state.time;
+    this.energyDrift.setState(state.energyDrift);
+    this.update3DObjects();
+  }
+
   private update3DObjects(): void {
     if (this.planetMesh) {
       this.planetMesh.position.set(this.planet.pos.x, this.planet.pos.y, this.planet.pos.z);
@@ -290,6 +330,30 @@ export class PlanetaryMotionScene3D extends Scene {
     }
   }
 
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    // 圆轨道速度 v = √(GM/r)：G = 5, M = 1000, r = 200 时 v = 5，逃逸速度为 √2 倍
+    return [
+      {
+        name: '圆轨道 (类地球)',
+        description: 'v0 = √(GM/r0)，轨道近似为圆',
+        params: { M: 1000, G: 5, r0: 200, v0: 5 },
+      },
+      {
+        name: '椭圆轨道',
+        description: '速度小于圆轨道速度，初始位置为远日点',
+        params: { M: 1000, G: 5, r0: 200, v0: 4 },
+      },
+      {
+        name: '逃逸轨道',
+        description: '速度超过逃逸速度 √(2GM/r0) ≈ 7.07，沿双曲线飞离',
+        params: { M: 1000, G: 5, r0: 200, v0: 8 },
+      },
+    ];
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -360,6 +424,26 @@ export class PlanetaryMotionScene3D extends Scene {
         label: '显示轨迹',
         description: '显示行星运行轨道。',
       },
+      {
+        type: 'select',
+        key: 'integrator',
+        label: '积分方法',
+        options: (['semiImplicit', 'verlet', 'leapfrog', 'yoshida4', 'rk4'] as const).map(value => ({
+          label: INTEGRATOR_LABELS[value],
+          value,
+        })),
+        description: '辛方法 (Verlet/蛙跳/Yoshida) 长期能量不漂移。',
+      },
+      {
+        type: 'boolean',
+        key: 'compareEnergy',
+        label: '对比能量漂移',
+        description: '第二张图表改为显示各积分方法的相对能量漂移 ΔE/|E₀|。',
+        onChange: () => {
+          this.energyDrift.reset({ pos: { ...this.planet.pos }, vel: { ...this.planet.vel } });
+          this.emit('chart-config-change');
+        },
+      },
       {
         type: 'select',
         key: 'bgColor',
@@ -408,22 +492,51 @@ export class PlanetaryMotionScene3D extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '距离 r (px)',
-        series: ['Distance'],
-        colors: [THEME.colors.objects.ball.light],
-      },
-      acc: {
-        label: '速度 v (px/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    const distance: ChartPanelConfig = {
+      id: 'distance',
+      label: '距离 r',
+      unit: 'px',
+      series: ['Distance'],
+      colors: [THEME.colors.objects.ball.light],
+    };
+    const orbit: ChartPanelConfig = {
+      id: 'orbit',
+      label: 'y',
+      unit: 'px',
+      series: ['轨道'],
+      colors: [THEME.colors.objects.ball.light],
+      mode: 'xy',
+      xLabel: 'x',
+      xUnit: 'px',
+      equalScale: true,
+    };
+    if (this.params.compareEnergy) {
+      return [
+        distance,
+        {
+          id: 'drift',
+          label: '能量漂移 ΔE/|E₀|',
+          series: this.energyDrift.getSeriesNames(),
+          colors: THEME.colors.chart.series,
+        },
+        orbit,
+      ];
+    }
+    return [
+      distance,
+      {
+        id: 'velocity',
+        label: '速度 v',
+        unit: 'px/s',
         series: ['Velocity'],
         colors: [THEME.colors.vectors.velocity],
       },
-    };
+      orbit,
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     const dx = this.planet.pos.x - this.star.pos.x;
     const dy = this.planet.pos.y - this.star.pos.y;
     const dz = this.planet.pos.z - this.star.pos.z;
@@ -432,8 +545,51 @@ export class PlanetaryMotionScene3D extends Scene {
 
     return {
       t: t,
-      vel: [r],
-      acc: [v],
+      channels: this.params.compareEnergy
+        ? { distance: [r], drift: this.energyDrift.getDrifts(), orbit: [dx, dy] }
+        : { distance: [r], velocity: [v], orbit: [dx, dy] },
+    };
+  }
+
+  /**
+   * 恒星对行星产生的加速度 (按位置键返回)
+   */
+  private gravityAcceleration(pos: StateObject): StateObject {
+    const { M, G } = this.params;
+    const dx = (pos.x as number) - this.star.pos.x;
+    const dy = (pos.y as number) - this.star.pos.y;
+    const dz = (pos.z as number) - this.star.pos.z;
+    const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const a = Physics.gravitationalForce(G, M, 1, r);
+    return { x: -a * (dx / r), y: -a * (dy / r), z: -a * (dz / r) };
+  }
+
+  /**
+   * 单位质量机械能 E = v²/2 - GM/r
+   */
+  private specificEnergy(pos: StateObject, vel: StateObject): number {
+    const { M, G } = this.params;
+    const dx = (pos.x as number) - this.star.pos.x;
+    const dy = (pos.y as number) - this.star.pos.y;
+    const dz = (pos.z as number) - this.star.pos.z;
+    const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const v2 = (vel.x as number) ** 2 + (vel.y as number) ** 2 + (vel.z as number) ** 2;
+    return 0.5 * v2 - (G * M) / r;
+  }
+
+  /**
+   * 单位质量的能量分解 (引力势能零点在无穷远处，束缚轨道上为负)
+   */
+  getEnergyBreakdown(): EnergyBreakdown {
+    const { M, G } = this.params;
+    const { pos, vel } = this.planet;
+    const dx = pos.x - this.star.pos.x;
+    const dy = pos.y - this.star.pos.y;
+    const dz = pos.z - this.star.pos.z;
+    const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    return {
+      kinetic: 0.5 * (vel.x ** 2 + vel.y ** 2 + vel.z ** 2),
+      gravitational: -(G * M) / r,
     };
   }
 
@@ -458,32 +614,53 @@ export class PlanetaryMotionScene3D extends Scene {
   }
 
   update(dt: number, t: number): void {
-    const { M, G } = this.params;
+    const { M, G, integrator } = this.params;
     const { m, pos, vel } = this.planet;
 
-    // 计算引力 (3D 版本)
-    const dx = pos.x - this.star.pos.x;
-    const dy = pos.y - this.star.pos.y;
-    const dz = pos.z - this.star.pos.z;
-    const r2 = dx * dx + dy * dy + dz * dz;
-    const r = Math.sqrt(r2);
+    if (integrator === 'semiImplicit') {
+      // 计算引力 (3D 版本)
+      const dx = pos.x - this.star.pos.x;
+      const dy = pos.y - this.star.pos.y;
+      const dz = pos.z - this.star.pos.z;
+      const r2 = dx * dx + dy * dy + dz * dz;
+      const r = Math.sqrt(r2);
 
-    const F = Physics.gravitationalForce(G, M, m, r);
+      const F = Physics.gravitationalForce(G, M, m, r);
 
-    // 分解力
-    const Fx = -F * (dx / r);
-    const Fy = -F * (dy / r);
-    const Fz = -F * (dz / r);
+      // 分解力
+      const Fx = -F * (dx / r);
+      const Fy = -F * (dy / r);
+      const Fz = -F * (dz / r);
 
-    // 更新速度 (半隐式 Euler)
-    vel.x += (Fx / m) * dt;
-    vel.y += (Fy / m) * dt;
-    vel.z += (Fz / m) * dt;
+      // 更新速度 (半隐式 Euler)
+      vel.x += (Fx / m) * dt;
+      vel.y += (Fy / m) * dt;
+      vel.z += (Fz / m) * dt;
+
+      // 更新位置
+      pos.x += vel.x * dt;
+      pos.y += vel.y * dt;
+      pos.z += vel.z * dt;
+    } else {
+      // 辛方法与 RK4：按名称推进二阶系统
+      const next = Integrator.stepSecondOrder(
+        integrator,
+        { pos: { ...pos }, vel: { ...vel } },
+        t,
+        dt,
+        p => this.gravityAcceleration(p)
+      );
+      pos.x = next.pos.x as number;
+      pos.y = next.pos.y as number;
+      pos.z = next.pos.z as number;
+      vel.x = next.vel.x as number;
+      vel.y = next.vel.y as number;
+      vel.z = next.vel.z as number;
+    }
 
-    // 更新位置
-    pos.x += vel.x * dt;
-    pos.y += vel.y * dt;
-    pos.z += vel.z * dt;
+    if (this.params.compareEnergy) {
+      this.energyDrift.step(t, dt);
+    }
 
     // 记录轨迹
     this.time += dt;
@@ -1,7 +1,17 @@
-import { Scene } from '../core/Scene.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+} from '../core/Scene.ts';
+import { PointerInfo } from '../core/Interaction.ts';
 import { drawDot, drawVector, drawLine } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 import { Physics } from '../utils/physics.ts';
+import { CameraConfig } from '../core/Camera.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/ProjectileMotion.md?raw';
 
 /**
@@ -41,12 +51,17 @@ interface TrailPoint {
   t: number;
 }
 
+// 发射器的可拖动半径 (像素)
+const LAUNCHER_HIT_RADIUS = 16;
+
 export class ProjectileMotionScene extends Scene {
   params: ProjectileMotionParams;
   ball: Ball;
   trail: TrailPoint[];
   time: number;
   isLanded: boolean;
+  // 空气阻力与落地累计耗散的能量 (J)
+  dissipated: number;
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
@@ -75,6 +90,7 @@ export class ProjectileMotionScene extends Scene {
     this.trail = [];
     this.time = 0;
     this.isLanded = false;
+    this.dissipated = 0;
 
     // 视口设置：1米 = 4像素 (因为抛射距离可能很远，比如 v0=50, 45度 -> R ~ 250m)
     this.viewport.setScale(4.0);
@@ -85,10 +101,83 @@ export class ProjectileMotionScene extends Scene {
     return description;
   }
 
+  getCameraConfig(): CameraConfig {
+    return {
+      follow: [{ id: 'ball', label: '炮弹', getPosition: () => ({ ...this.ball.pos }) }],
+    };
+  }
+
+  getMeasurementConfig(): MeasurementConfig {
+    // 网格便于读出射程与最大高度
+    return { grid: true };
+  }
+
   setup(): void {
     this.resetSimulation();
     this.canvas.style.backgroundColor = this.params.bgColor;
     this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
+    this.setupLauncherDrag();
+  }
+
+  /**
+   * 发射速度箭头的像素比例 (与小球速度矢量的显示比例相同)
+   */
+  getVelocityScale(): number {
+    return 0.5 * this.params.vectorScale;
+  }
+
+  /**
+   * 发射速度箭头 (屏幕像素，Y 轴向下)
+   */
+  getLaunchArrow(): { x: number; y: number } {
+    const { v0, theta } = this.params;
+    const rad = (theta * Math.PI) / 180;
+    const scale = this.getVelocityScale();
+    return { x: v0 * Math.cos(rad) * scale, y: -v0 * Math.sin(rad) * scale };
+  }
+
+  /**
+   * 拖动发射点或发射速度箭头的末端设置发射角度与初速度
+   * 拖动期间暂停物理更新并固定视口 (否则发射点会随缩放移动)，松开后按新的轨迹调整视口并发射。
+   */
+  setupLauncherDrag(): void {
+    // 开始拖动时的发射速度箭头 (屏幕像素)
+    let startArrow = { x: 0, y: 0 };
+    const handlers = {
+      padding: LAUNCHER_HIT_RADIUS,
+      onDragStart: () => {
+        startArrow = this.getLaunchArrow();
+        this.emit('request-reset');
+      },
+      onDrag: ({ screen, startScreen }: PointerInfo) => {
+        // 箭头末端随指针移动：方向为发射角度，长度按速度矢量比例换算为初速度
+        const dx = startArrow.x + (screen.x - startScreen.x);
+        const dy = -(startArrow.y + (screen.y - startScreen.y));
+        const theta = (Math.atan2(dy, dx) * 180) / Math.PI;
+        const v0 = Math.hypot(dx, dy) / this.getVelocityScale();
+        this.setParamsFromCanvas({
+          theta: Math.round(Math.max(0, Math.min(90, theta))),
+          v0: Math.round(Math.max(10, Math.min(100, v0))),
+        });
+      },
+      onDragEnd: () => this.emit('request-reset'),
+    };
+
+    this.interaction.add({
+      id: 'launcher',
+      shape: () => ({ type: 'circle', x: 0, y: this.params.h, radius: 0 }),
+      ...handlers,
+    });
+    this.interaction.add({
+      id: 'launch-arrow',
+      shape: () => {
+        const launch = this.viewport.worldToScreen(0, this.params.h);
+        const arrow = this.getLaunchArrow();
+        const tip = this.viewport.screenToWorld(launch.x + arrow.x, launch.y + arrow.y);
+        return { type: 'circle', x: tip.x, y: tip.y, radius: 0 };
+      },
+      ...handlers,
+    });
   }
 
   resetSimulation(): void {
@@ -109,6 +198,7 @@ export class ProjectileMotionScene extends Scene {
     this.trail = [];
     this.time = 0;
     this.isLanded = false;
+    this.dissipated = 0;
 
     // 自动调整视口以适应预估的轨迹
     // 估算最大高度和射程 (无阻力情况)
@@ -119,6 +209,11 @@ export class ProjectileMotionScene extends Scene {
     const t_total = t_up + Math.sqrt((maxH * 2) / g);
     const range = this.ball.vel.x * t_total;
 
+    if (window.charts) window.charts.clear();
+
+    // 拖动发射器期间保持视口不变
+    if (this.interaction.isActive()) return;
+
     // 视口中心设为轨迹中心附近
     this.viewport.setCenter(range / 2, maxH / 2);
     // 调整缩放比例以适应屏幕
@@ -128,9 +223,52 @@ export class ProjectileMotionScene extends Scene {
     const scaleX = (width * 0.8) / range;
     const scaleY = (height * 0.8) / (maxH * 1.2); // 高度多留点
     this.viewport.setScale(Math.min(scaleX, scaleY, 10)); // 限制最大缩放
+  }
+
+  getState(): SceneState {
+    return this.cloneState({
+      ball: this.ball,
+      trail: this.trail,
+      time: this.time,
+      isLanded: this.isLanded,
+      dissipated: this.dissipated,
+    });
+  }
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+  setState(state: SceneState): void {
+    this.ball = this.cloneState(state.ball);
+    this.trail = this.cloneState(state.trail);
+    this.time = state.time;
+    this.isLanded = state.isLanded;
+    this.dissipated = state.dissipated ?? 0;
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '最大射程',
+        description: '地面发射、无空气阻力时 45° 射程最远',
+        params: { theta: 45, h: 0, k: 0 },
+      },
+      {
+        name: '互余角',
+        description: '30° 与 60° 射程相同，可与上一预设对比',
+        params: { theta: 30, h: 0, k: 0 },
+      },
+      {
+        name: '平抛运动',
+        description: '从高处水平抛出',
+        params: { theta: 0, h: 200, k: 0 },
+      },
+      {
+        name: '空气阻力',
+        description: '轨迹不再对称，射程缩短',
+        params: { theta: 45, h: 0, k: 0.3 },
+      },
+    ];
   }
 
   getControlConfig(): any[] {
@@ -185,6 +323,37 @@ export class ProjectileMotionScene extends Scene {
         description: '空气阻力系数 (F = -kv)。',
         resetOnChange: false,
       },
+      {
+        type: 'readout',
+        key: 'time',
+        label: '飞行时间',
+        unit: 's',
+        getValue: () => this.time,
+      },
+      {
+        type: 'readout',
+        key: 'distance',
+        label: '水平距离',
+        unit: 'm',
+        precision: 1,
+        getValue: () => this.ball.pos.x,
+      },
+      {
+        type: 'readout',
+        key: 'height',
+        label: '当前高度',
+        unit: 'm',
+        precision: 1,
+        getValue: () => this.ball.pos.y,
+      },
+      {
+        type: 'readout',
+        key: 'speed',
+        label: '当前速率',
+        unit: 'm/s',
+        precision: 1,
+        getValue: () => Math.hypot(this.ball.vel.x, this.ball.vel.y),
+      },
       {
         type: 'range',
         key: 'vectorScale',
@@ -259,31 +428,61 @@ export class ProjectileMotionScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '高度 y (m)',
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'height',
+        label: '高度 y',
+        unit: 'm',
         series: ['Height'],
         colors: [THEME.colors.objects.ball.light],
       },
-      acc: {
-        label: '垂直速度 vy (m/s)',
+      {
+        id: 'vy',
+        label: '垂直速度 vy',
+        unit: 'm/s',
         series: ['Vy'],
         colors: ['#ffcc00'],
       },
-    };
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     return {
       t: t,
-      vel: [this.ball.pos.y],
-      acc: [this.ball.vel.y],
+      channels: { height: [this.ball.pos.y], vy: [this.ball.vel.y] },
+    };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    return {
+      '水平位移 x (m)': this.ball.pos.x,
+      '高度 y (m)': this.ball.pos.y,
+      '水平速度 vx (m/s)': this.ball.vel.x,
+      '垂直速度 vy (m/s)': this.ball.vel.y,
+    };
+  }
+
+  /**
+   * 机械能 (势能零点取地面)
+   */
+  private mechanicalEnergy(): number {
+    const { pos, vel, mass } = this.ball;
+    return 0.5 * mass * (vel.x ** 2 + vel.y ** 2) + mass * this.params.g * pos.y;
+  }
+
+  getEnergyBreakdown(): EnergyBreakdown {
+    const { pos, vel, mass } = this.ball;
+    return {
+      kinetic: 0.5 * mass * (vel.x ** 2 + vel.y ** 2),
+      gravitational: mass * this.params.g * pos.y,
+      dissipated: this.dissipated,
+      unit: 'J',
     };
   }
 
   update(dt: number, t: number): void {
-    if (this.isLanded) return;
+    if (this.isLanded || this.interaction.isActive()) return;
 
     const { g, k } = this.params;
     const { vel, pos, mass } = this.ball;
@@ -299,6 +498,7 @@ export class ProjectileMotionScene extends Scene {
     const ay = fy / mass;
 
     this.ball.acc = { x: ax, y: ay };
+    const speedSq = vel.x ** 2 + vel.y ** 2;
 
     // 更新速度
     vel.x += ax * dt;
@@ -308,12 +508,17 @@ export class ProjectileMotionScene extends Scene {
     pos.x += vel.x * dt;
     pos.y += vel.y * dt;
 
-    // 落地检测
+    // 空气阻力 -kv 的功率为 kv²，按梯形公式累计耗散能量
+    this.dissipated += (k * (speedSq + vel.x ** 2 + vel.y ** 2) * dt) / 2;
+
+    // 落地检测 (落地时剩余的机械能全部耗散)
     if (pos.y <= 0) {
+      const before = this.mechanicalEnergy();
       pos.y = 0;
       vel.x = 0;
       vel.y = 0;
       this.isLanded = true;
+      this.dissipated += before;
     }
 
     // 记录轨迹
@@ -371,6 +576,21 @@ export class ProjectileMotionScene extends Scene {
     const screenPos = this.viewport.worldToScreen(this.ball.pos.x, this.ball.pos.y);
     drawDot(ctx, screenPos.x, screenPos.y, THEME.colors.objects.ball.light, 6);
 
+    // 拖动发射器时显示发射速度与角度
+    if (this.interaction.isActive()) {
+      const launch = this.viewport.worldToScreen(0, h);
+      const arrow = this.getLaunchArrow();
+      drawVector(
+        ctx,
+        launch.x,
+        launch.y,
+        arrow.x,
+        arrow.y,
+        THEME.colors.vectors.velocity,
+        `${this.params.v0} m/s, ${this.params.theta}°`
+      );
+    }
+
     // 绘制矢量
     const vScale = 0.5 * vectorScale;
 
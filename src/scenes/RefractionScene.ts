@@ -1,4 +1,4 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState, ScenePreset } from '../core/Scene.ts';
 import { drawDot, drawVector } from '../utils/draw.ts';
 import { drawEye, drawFish } from '../utils/graphics.ts';
 import { THEME } from '../config.ts';
@@ -45,6 +45,42 @@ export class RefractionScene extends Scene {
     this.animTime = 0;
   }
 
+  getState(): SceneState {
+    return { animTime: this.animTime };
+  }
+
+  setState(state: SceneState): void {
+    this.animTime = state.animTime;
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '水中看鱼',
+        description: '水的折射率 1.33，看到的鱼比实际浅',
+        params: { n1: 1.33, fishDepth: 150, eyeHeight: 150, eyeX: 200 },
+      },
+      {
+        name: '掠射 (接近全反射临界角)',
+        description: '视线贴近水面，水中入射角接近临界角 arcsin(1/n)',
+        params: { n1: 1.33, fishDepth: 100, eyeHeight: 50, eyeX: 400 },
+      },
+      {
+        name: '高折射率液体',
+        description: 'n = 2.0，临界角仅 30°，虚像上浮更明显',
+        params: { n1: 2.0, fishDepth: 150, eyeHeight: 150, eyeX: 200 },
+      },
+      {
+        name: '无折射',
+        description: 'n = 1.0，光线不偏折，虚像与实物重合',
+        params: { n1: 1.0 },
+      },
+    ];
+  }
+
   getControlConfig() {
     return [
       {
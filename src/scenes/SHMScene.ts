@@ -1,4 +1,4 @@
-import { Scene } from '../core/Scene.ts';
+import { Scene, SceneState, ChartPanelConfig, MonitorData } from '../core/Scene.ts';
 import { drawAxes, drawDot, drawVector, drawTrail } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 
@@ -61,10 +61,14 @@ export class SHMScene extends Scene {
   maxTrailLength: number;
   phys: PhysicsState;
   prevPhys: PhysicsState;
+  center: { x: number; y: number };
 
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
+    // 振动中心 (屏幕坐标)，在 resize 中更新
+    this.center = { x: this.width / 2, y: this.height / 2 };
+
     // 默认参数
     this.params = {
       omega: 1.0, // rad/s
@@ -91,12 +95,27 @@ export class SHMScene extends Scene {
     this.canvas.style.backgroundColor = this.params.bgColor;
   }
 
+  resize(w: number, h: number): void {
+    super.resize(w, h);
+    this.center = { x: w / 2, y: h / 2 };
+  }
+
   resetSimulation(): void {
     this.phys = this.computeState(0);
     this.prevPhys = { ...this.phys };
     this.trail = [];
   }
 
+  getState(): SceneState {
+    return this.cloneState({ phys: this.phys, trail: this.trail });
+  }
+
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.prevPhys = { ...this.phys };
+    this.trail = this.cloneState(state.trail);
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -205,27 +224,44 @@ export class SHMScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '速度 (px/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'velocity',
+        label: '速度',
+        unit: 'px/s',
         series: ['速度'],
         colors: THEME.colors.chart.series,
       },
-      acc: {
-        label: '加速度 (px/s²)',
+      {
+        id: 'acceleration',
+        label: '加速度',
+        unit: 'px/s²',
         series: ['加速度'],
         colors: THEME.colors.chart.series,
       },
-    };
+      {
+        id: 'phase',
+        label: '速度 v',
+        unit: 'px/s',
+        series: ['相轨迹'],
+        colors: THEME.colors.chart.series,
+        mode: 'xy',
+        xLabel: '位移 x',
+        xUnit: 'px',
+      },
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData | null {
     if (!this.phys) return null;
     return {
       t: t,
-      vel: [this.phys.vx],
-      acc: [this.phys.ax],
+      channels: {
+        velocity: [this.phys.vx],
+        acceleration: [this.phys.ax],
+        phase: [this.phys.x - this.center.x, this.phys.vx],
+      },
     };
   }
 
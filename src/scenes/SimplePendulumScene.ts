@@ -1,8 +1,25 @@
-import { Scene } from '../core/Scene.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+  SpectrumReference,
+} from '../core/Scene.ts';
 import { drawDot, drawVector, drawLine } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 import { Physics } from '../utils/physics.ts';
-import { Integrator } from '../core/Integrator.ts';
+import {
+  Integrator,
+  StateObject,
+  SecondOrderMethod,
+  INTEGRATOR_LABELS,
+  getIntegratorOptions,
+} from '../core/Integrator.ts';
+import { GhostSimulation } from '../core/GhostSimulation.ts';
+import { CameraConfig } from '../core/Camera.ts';
+import { MeasurementConfig } from '../core/MeasurementOverlay.ts';
 import description from '../content/SimplePendulum.md?raw';
 
 /**
@@ -20,6 +37,8 @@ interface SimplePendulumParams {
   vectorScale: number;
   showVel: boolean;
   showForce: boolean;
+  integrator: SecondOrderMethod;
+  ghostIntegrator: SecondOrderMethod | 'none';
   bgColor: string;
 }
 
@@ -33,11 +52,25 @@ interface State {
   omega: number;
 }
 
+// 场景支持的积分方法
+const PENDULUM_METHODS: SecondOrderMethod[] = [
+  'euler',
+  'semiImplicit',
+  'verlet',
+  'leapfrog',
+  'yoshida4',
+  'rk4',
+  'rk45',
+];
+
 export class SimplePendulumScene extends Scene {
   params: SimplePendulumParams;
   phys: PhysicsState;
   prevPhys: PhysicsState;
   state?: State;
+  ghost: GhostSimulation;
+  // 阻尼累计耗散的能量 (J)
+  dissipated: number;
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
@@ -51,6 +84,8 @@ export class SimplePendulumScene extends Scene {
       vectorScale: 1.0, // 矢量缩放系数
       showVel: true,
       showForce: true,
+      integrator: 'rk4', // 见 INTEGRATOR_LABELS
+      ghostIntegrator: 'none', // 幽灵对照使用的方法
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
 
@@ -62,6 +97,15 @@ export class SimplePendulumScene extends Scene {
 
     // 上一帧的物理状态 (用于插值)
     this.prevPhys = { ...this.phys };
+    this.dissipated = 0;
+
+    // 幽灵对照 (另一种积分方法，从同一状态出发)
+    this.ghost = new GhostSimulation(
+      (pos: StateObject, vel: StateObject) => ({
+        theta: this.angularAcceleration(pos.theta as number, vel.theta as number),
+      }),
+      ({ pos, vel }) => this.mechanicalEnergy(pos.theta as number, vel.theta as number)
+    );
 
     // 设置视口：1米 = 100像素
     this.viewport.setScale(100);
@@ -73,13 +117,53 @@ export class SimplePendulumScene extends Scene {
     return description;
   }
 
+  getCameraConfig(): CameraConfig {
+    return {
+      follow: [
+        {
+          id: 'bob',
+          label: '摆球',
+          getPosition: () => {
+            const { length } = this.params;
+            const { theta } = this.phys;
+            return { x: length * Math.sin(theta), y: -length * Math.cos(theta) };
+          },
+        },
+      ],
+    };
+  }
+
+  getMeasurementConfig(): MeasurementConfig {
+    return {};
+  }
+
   resetSimulation(): void {
     this.phys.theta = (this.params.theta0 * Math.PI) / 180;
     this.phys.omega = 0;
     this.prevPhys = { ...this.phys };
+    this.dissipated = 0;
+    this.resetGhost();
+
+    if (window.charts) window.charts.clear();
+  }
 
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+  getState(): SceneState {
+    return this.cloneState({
+      phys: this.phys,
+      ghost: this.ghost.state,
+      dissipated: this.dissipated,
+    });
+  }
+
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.prevPhys = { ...this.phys };
+    this.dissipated = state.dissipated ?? 0;
+    if (this.ghost.method && state.ghost) {
+      this.ghost.state = this.cloneState(state.ghost);
+    } else {
+      this.resetGhost();
+    }
   }
 
   setup(): void {
@@ -88,6 +172,28 @@ export class SimplePendulumScene extends Scene {
     this.canvas.style.backgroundColor = this.params.bgColor;
     // Use clientWidth/Height (logical pixels) because the context is scaled by DPR
     this.resize(this.canvas.clientWidth, this.canvas.clientHeight);
+
+    // 拖动摆球设置初始角度 (拖动期间暂停物理更新，松开后从 t = 0 开始摆动)
+    this.interaction.add({
+      id: 'bob',
+      shape: () => {
+        const { length } = this.params;
+        const { theta } = this.phys;
+        return {
+          type: 'circle',
+          x: length * Math.sin(theta),
+          y: -length * Math.cos(theta),
+          radius: this.viewport.toMeters(THEME.sizes.ballRadius),
+        };
+      },
+      padding: 6,
+      onDrag: ({ world }) => {
+        // 悬挂点在原点：摆角为悬挂点到指针的方向与竖直向下方向的夹角
+        const angle = (Math.atan2(world.x, -world.y) * 180) / Math.PI;
+        this.setParamsFromCanvas({ theta0: Math.round(Math.max(-90, Math.min(90, angle))) });
+      },
+      onDragEnd: () => this.emit('request-reset'),
+    });
   }
 
   resize(w: number, h: number): void {
@@ -95,6 +201,34 @@ export class SimplePendulumScene extends Scene {
     // 不再需要手动计算 pivotX/Y，由 Viewport 处理
   }
 
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '小角度近似',
+        description: '摆角 10°、无阻尼，周期接近 2π√(L/g)',
+        params: { theta0: 10, damping: 0 },
+      },
+      {
+        name: '大角度摆动',
+        description: '摆角 85°、无阻尼，周期明显长于小角度近似',
+        params: { theta0: 85, damping: 0 },
+      },
+      {
+        name: '阻尼振动',
+        description: '振幅逐渐衰减',
+        params: { theta0: 45, damping: 1.0 },
+      },
+      {
+        name: '月球表面',
+        description: 'g = 1.6 m/s²，摆动明显变慢',
+        params: { g: 1.6, theta0: 30, damping: 0 },
+      },
+    ];
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -146,6 +280,21 @@ export class SimplePendulumScene extends Scene {
         description: '空气阻力系数。',
         resetOnChange: false,
       },
+      {
+        type: 'readout',
+        key: 'angle',
+        label: '当前摆角',
+        unit: '°',
+        precision: 1,
+        getValue: () => (this.phys.theta * 180) / Math.PI,
+      },
+      {
+        type: 'readout',
+        key: 'period',
+        label: '周期 (小角近似)',
+        unit: 's',
+        getValue: () => 2 * Math.PI * Math.sqrt(this.params.length / this.params.g),
+      },
       {
         type: 'range',
         key: 'vectorScale',
@@ -168,6 +317,25 @@ export class SimplePendulumScene extends Scene {
         label: '显示受力',
         description: '显示重力(紫)和拉力(绿)。',
       },
+      {
+        type: 'select',
+        key: 'integrator',
+        label: '积分方法',
+        options: getIntegratorOptions(PENDULUM_METHODS),
+        description: '数值积分方法。欧拉法每步都会注入能量，摆幅会越来越大。',
+        onChange: () => this.emit('chart-config-change'),
+      },
+      {
+        type: 'select',
+        key: 'ghostIntegrator',
+        label: '幽灵对照',
+        options: [{ label: '关闭', value: 'none' }, ...getIntegratorOptions(PENDULUM_METHODS)],
+        description: '用另一种积分方法从当前状态并行模拟，半透明绘制，图表对比两者的机械能。',
+        onChange: () => {
+          this.resetGhost();
+          this.emit('chart-config-change');
+        },
+      },
       {
         type: 'select',
         key: 'bgColor',
@@ -214,33 +382,135 @@ export class SimplePendulumScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '摆角 (deg)',
-        series: ['角度'],
-        colors: [THEME.colors.objects.referenceLine],
-      },
-      acc: {
-        label: '角速度 (rad/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    const angle: ChartPanelConfig = {
+      id: 'angle',
+      label: '摆角',
+      unit: 'deg',
+      series: ['角度'],
+      colors: [THEME.colors.objects.referenceLine],
+    };
+    const phase: ChartPanelConfig = {
+      id: 'phase',
+      label: '角速度 ω',
+      unit: 'rad/s',
+      series: ['相轨迹'],
+      colors: [THEME.colors.vectors.velocity],
+      mode: 'xy',
+      xLabel: '摆角 θ',
+      xUnit: 'deg',
+    };
+    const spectrum: ChartPanelConfig = {
+      id: 'spectrum',
+      label: '摆角频谱',
+      series: ['角度'],
+      colors: [THEME.colors.objects.referenceLine],
+      mode: 'spectrum',
+      source: 'angle',
+    };
+    if (this.ghost.isActive()) {
+      return [
+        angle,
+        {
+          id: 'energy',
+          label: '机械能 E',
+          unit: 'J',
+          series: [INTEGRATOR_LABELS[this.params.integrator], this.ghost.getLabel()],
+          colors: [THEME.colors.vectors.velocity, THEME.colors.objects.ghost],
+        },
+        phase,
+        spectrum,
+      ];
+    }
+    return [
+      angle,
+      {
+        id: 'omega',
+        label: '角速度',
+        unit: 'rad/s',
         series: ['角速度'],
         colors: [THEME.colors.vectors.velocity],
       },
-    };
+      phase,
+      spectrum,
+    ];
+  }
+
+  /**
+   * 小角度近似的理论频率 f = 1/T
+   */
+  getSpectrumReferences(): SpectrumReference[] {
+    const { length, g } = this.params;
+    return [{ label: '小角度理论', frequency: 1 / Physics.pendulumPeriod(length, g) }];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     const { theta, omega } = this.phys;
     // 转换为角度显示
     const thetaDeg = (theta * 180) / Math.PI;
 
+    const ghostEnergy = this.ghost.getEnergy();
+    if (ghostEnergy !== null) {
+      return {
+        t: t,
+        channels: {
+          angle: [thetaDeg],
+          energy: [this.mechanicalEnergy(theta, omega), ghostEnergy],
+          phase: [thetaDeg, omega],
+        },
+      };
+    }
+
     return {
       t: t,
-      vel: [thetaDeg],
-      acc: [omega],
+      channels: { angle: [thetaDeg], omega: [omega], phase: [thetaDeg, omega] },
+    };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    const { theta, omega } = this.phys;
+    return {
+      '摆角 (deg)': (theta * 180) / Math.PI,
+      '角速度 (rad/s)': omega,
+      '机械能 E (J)': this.mechanicalEnergy(theta, omega),
+    };
+  }
+
+  /**
+   * 角加速度 (含阻尼)
+   */
+  private angularAcceleration(theta: number, omega: number): number {
+    const { length, mass, g, damping } = this.params;
+    return Physics.pendulumAngularAcceleration(g, length, theta, damping, mass, omega);
+  }
+
+  /**
+   * 机械能 E = ½m(Lω)² + mgL(1 - cosθ)
+   */
+  private mechanicalEnergy(theta: number, omega: number): number {
+    const { length, mass, g } = this.params;
+    return 0.5 * mass * (length * omega) ** 2 + mass * g * length * (1 - Math.cos(theta));
+  }
+
+  getEnergyBreakdown(): EnergyBreakdown {
+    const { length, mass, g } = this.params;
+    const { theta, omega } = this.phys;
+    return {
+      kinetic: 0.5 * mass * (length * omega) ** 2,
+      gravitational: mass * g * length * (1 - Math.cos(theta)),
+      dissipated: this.dissipated,
+      unit: 'J',
     };
   }
 
+  /**
+   * 按当前设置让幽灵从主模拟的当前状态重新出发
+   */
+  private resetGhost(): void {
+    this.ghost.setMethod(this.params.ghostIntegrator);
+    this.ghost.reset({ pos: { theta: this.phys.theta }, vel: { theta: this.phys.omega } });
+  }
+
   getRecordingDuration(): number {
     const { length, g } = this.params;
     // T = 2 * pi * sqrt(L / g)
@@ -258,22 +528,48 @@ export class SimplePendulumScene extends Scene {
   update(dt: number, t: number): void {
     const { length, mass, g, damping } = this.params;
 
+    // 拖动期间摆球停在指针处
+    if (this.interaction.isActive('bob')) {
+      this.prevPhys = { ...this.phys };
+      return;
+    }
+
     // 保存当前状态为上一帧状态
     this.prevPhys = { ...this.phys };
 
-    // 定义导数函数 (state, t) => derivatives
-    // state: { theta, omega }
-    const derivatives = (state: PhysicsState, time: number) => {
-      const { theta, omega } = state;
-      const alpha = Physics.pendulumAngularAcceleration(g, length, theta, damping, mass, omega);
-      return {
-        theta: omega, // d(theta)/dt = omega
-        omega: alpha, // d(omega)/dt = alpha
+    if (this.params.integrator === 'rk4') {
+      // 定义导数函数 (state, t) => derivatives
+      // state: { theta, omega }
+      const derivatives = (state: PhysicsState, time: number) => {
+        const { theta, omega } = state;
+        const alpha = Physics.pendulumAngularAcceleration(g, length, theta, damping, mass, omega);
+        return {
+          theta: omega, // d(theta)/dt = omega
+          omega: alpha, // d(omega)/dt = alpha
+        };
       };
-    };
 
-    // 使用 RK4 积分器更新状态
-    this.phys = Integrator.rk4(this.phys, t, dt, derivatives);
+      // 使用 RK4 积分器更新状态
+      this.phys = Integrator.rk4(this.phys, t, dt, derivatives);
+    } else {
+      // 其他方法：按相空间状态 { pos: θ, vel: ω } 推进
+      const next = Integrator.stepSecondOrder(
+        this.params.integrator,
+        { pos: { theta: this.phys.theta }, vel: { theta: this.phys.omega } },
+        t,
+        dt,
+        (pos, vel) => ({
+          theta: this.angularAcceleration(pos.theta as number, vel.theta as number),
+        })
+      );
+      this.phys = { theta: next.pos.theta as number, omega: next.vel.theta as number };
+    }
+
+    this.ghost.step(t, dt);
+
+    // 阻尼力矩 -cL²ω 的功率为 cL²ω²，按梯形公式累计耗散能量
+    const omegaSq = (this.prevPhys.omega ** 2 + this.phys.omega ** 2) / 2;
+    this.dissipated += damping * length * length * omegaSq * dt;
 
     // 更新用于显示的辅助状态
     // 注意：RK4 返回的是新状态，我们需要重新计算 alpha 用于显示或其他逻辑（如果需要）
@@ -332,6 +628,21 @@ export class SimplePendulumScene extends Scene {
     // 3. 绘制悬挂点
     drawDot(ctx, screenPivot.x, screenPivot.y, mainColor, 4);
 
+    // 幽灵对照摆 (半透明，不插值)
+    if (this.ghost.state) {
+      const ghostTheta = this.ghost.state.pos.theta as number;
+      const screenGhost = this.viewport.worldToScreen(
+        length * Math.sin(ghostTheta),
+        -length * Math.cos(ghostTheta)
+      );
+      ctx.save();
+      ctx.globalAlpha = 0.45;
+      const ghostColor = THEME.colors.objects.ghost;
+      drawLine(ctx, screenPivot.x, screenPivot.y, screenGhost.x, screenGhost.y, ghostColor, 2);
+      drawDot(ctx, screenGhost.x, screenGhost.y, ghostColor, THEME.sizes.ballRadius);
+      ctx.restore();
+    }
+
     // 4. 绘制摆球
     const ballRadius = THEME.sizes.ballRadius;
     drawDot(ctx, screenBall.x, screenBall.y, THEME.colors.objects.ball.light, ballRadius);
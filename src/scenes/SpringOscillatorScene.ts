@@ -1,9 +1,25 @@
-import { Scene } from '../core/Scene.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  EnergyBreakdown,
+  SpectrumReference,
+} from '../core/Scene.ts';
 import { drawDot, drawVector } from '../utils/draw.ts';
 import { drawSpring } from '../utils/graphics.ts';
 import { THEME } from '../config.ts';
 import { Physics } from '../utils/physics.ts';
-import { Integrator } from '../core/Integrator.ts';
+import {
+  Integrator,
+  StateObject,
+  SecondOrderMethod,
+  INTEGRATOR_LABELS,
+  getIntegratorOptions,
+} from '../core/Integrator.ts';
+import { EnergyDriftMonitor } from '../core/EnergyDriftMonitor.ts';
+import { GhostSimulation } from '../core/GhostSimulation.ts';
 
 /**
  * 场景名称: 弹簧振子 (Spring Oscillator)
@@ -23,6 +39,9 @@ interface SpringOscillatorParams {
   showFriction: boolean;
   showVel: boolean;
   showGravity: boolean;
+  integrator: SecondOrderMethod;
+  ghostIntegrator: SecondOrderMethod | 'none';
+  compareEnergy: boolean;
   bgColor: string;
 }
 
@@ -41,6 +60,16 @@ interface State {
   omega: number;
 }
 
+// 场景支持的积分方法
+const SPRING_METHODS: SecondOrderMethod[] = [
+  'euler',
+  'semiImplicit',
+  'verlet',
+  'leapfrog',
+  'yoshida4',
+  'rk4',
+];
+
 export class SpringOscillatorScene extends Scene {
   params: SpringOscillatorParams;
   phys: PhysicsState;
@@ -51,6 +80,10 @@ export class SpringOscillatorScene extends Scene {
   equilibriumY: number;
   groundY: number;
   state?: State;
+  energyDrift: EnergyDriftMonitor;
+  // 阻尼累计耗散的能量
+  dissipated: number;
+  ghost: GhostSimulation;
   constructor(canvas: HTMLCanvasElement) {
     super(canvas);
 
@@ -67,6 +100,9 @@ export class SpringOscillatorScene extends Scene {
       showFriction: true, // 显示摩擦力/阻尼力
       showVel: true,
       showGravity: true, // 显示重力
+      integrator: 'semiImplicit', // 见 INTEGRATOR_LABELS
+      ghostIntegrator: 'none', // 幽灵对照使用的方法
+      compareEnergy: false, // 图表显示各积分方法的能量漂移对比
       bgColor: sessionStorage.getItem('sceneBgColor') || THEME.colors.background.default,
     };
 
@@ -78,6 +114,7 @@ export class SpringOscillatorScene extends Scene {
 
     // 上一帧的物理状态 (用于插值)
     this.prevPhys = { ...this.phys };
+    this.dissipated = 0;
 
     // 布局参数
     this.wallX = 50;
@@ -85,6 +122,23 @@ export class SpringOscillatorScene extends Scene {
     this.equilibriumX = 0; // 在 resize 中计算
     this.equilibriumY = 0; // 在 resize 中计算
     this.groundY = 0; // 在 resize 中计算
+
+    // 能量漂移对比 (各方法从同一初始状态并行推进)
+    this.energyDrift = new EnergyDriftMonitor(
+      ['semiImplicit', 'verlet', 'leapfrog', 'yoshida4'],
+      (pos: StateObject, vel: StateObject) => ({
+        x: this.springAcceleration(pos.x as number, vel.x as number),
+      }),
+      ({ pos, vel }) => this.mechanicalEnergy(pos.x as number, vel.x as number)
+    );
+
+    // 幽灵对照 (另一种积分方法，从同一状态出发)
+    this.ghost = new GhostSimulation(
+      (pos: StateObject, vel: StateObject) => ({
+        x: this.springAcceleration(pos.x as number, vel.x as number),
+      }),
+      ({ pos, vel }) => this.mechanicalEnergy(pos.x as number, vel.x as number)
+    );
   }
 
   resetSimulation(): void {
@@ -92,10 +146,35 @@ export class SpringOscillatorScene extends Scene {
     this.phys.x = this.params.amplitude;
     this.phys.v = 0;
     this.prevPhys = { ...this.phys };
+    this.dissipated = 0;
+    this.energyDrift.reset({ pos: { x: this.phys.x }, vel: { x: this.phys.v } });
+    this.resetGhost();
 
     // 清除图表数据
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return this.cloneState({
+      phys: this.phys,
+      state: this.state ?? null,
+      energyDrift: this.energyDrift.getState(),
+      ghost: this.ghost.state,
+      dissipated: this.dissipated,
+    });
+  }
+
+  setState(state: SceneState): void {
+    this.phys = this.cloneState(state.phys);
+    this.prevPhys = { ...this.phys };
+    this.dissipated = state.dissipated ?? 0;
+    if (state.state) this.state = this.cloneState(state.state);
+    this.energyDrift.setState(state.energyDrift);
+    if (this.ghost.method && state.ghost) {
+      this.ghost.state = this.cloneState(state.ghost);
+    } else {
+      this.resetGhost();
+    }
   }
 
   setup(): void {
@@ -116,6 +195,35 @@ export class SpringOscillatorScene extends Scene {
     this.groundY = h * 0.6; // 水平模式地面位置
   }
 
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    // 临界阻尼 c = 2√(mk)：m = 0.5, k = 10 时 c ≈ 4.47
+    return [
+      {
+        name: '无阻尼',
+        description: '机械能守恒的简谐振动',
+        params: { mass: 1, stiffness: 20, damping: 0 },
+      },
+      {
+        name: '欠阻尼',
+        description: '振幅按指数衰减的振动',
+        params: { mass: 1, stiffness: 20, damping: 1.0 },
+      },
+      {
+        name: '临界阻尼',
+        description: 'c = 2√(mk)，最快回到平衡位置且不越过',
+        params: { mass: 0.5, stiffness: 10, damping: 4.47 },
+      },
+      {
+        name: '过阻尼',
+        description: 'c > 2√(mk)，缓慢回到平衡位置',
+        params: { mass: 0.5, stiffness: 10, damping: 5.0 },
+      },
+    ];
+  }
+
   getControlConfig(): any[] {
     return [
       {
@@ -192,6 +300,36 @@ export class SpringOscillatorScene extends Scene {
         description: '重力加速度 (仅竖直模式)。',
         resetOnChange: false,
       },
+      {
+        type: 'select',
+        key: 'integrator',
+        label: '积分方法',
+        options: getIntegratorOptions(SPRING_METHODS),
+        description: '数值积分方法。无阻尼时辛方法的能量误差有界、不随时间累积。',
+        onChange: () => this.emit('chart-config-change'),
+      },
+      {
+        type: 'select',
+        key: 'ghostIntegrator',
+        label: '幽灵对照',
+        options: [{ label: '关闭', value: 'none' }, ...getIntegratorOptions(SPRING_METHODS)],
+        description: '用另一种积分方法从当前状态并行模拟，半透明绘制，图表对比两者的机械能。',
+        onChange: () => {
+          this.resetGhost();
+          this.emit('chart-config-change');
+        },
+      },
+      {
+        type: 'boolean',
+        key: 'compareEnergy',
+        label: '对比能量漂移',
+        description:
+          '第二张图表改为显示各积分方法的相对能量变化 ΔE/|E₀| (阻尼设为 0 时即为数值漂移)。',
+        onChange: () => {
+          this.energyDrift.reset({ pos: { x: this.phys.x }, vel: { x: this.phys.v } });
+          this.emit('chart-config-change');
+        },
+      },
       {
         type: 'range',
         key: 'vectorScale',
@@ -282,23 +420,113 @@ export class SpringOscillatorScene extends Scene {
     return formulas;
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
-        label: '位移 (px)',
-        series: ['位移'],
-        colors: [THEME.colors.objects.referenceLine],
-      },
-      acc: {
-        label: '速度 (px/s)',
+  getChartConfig(): ChartPanelConfig[] {
+    const displacement: ChartPanelConfig = {
+      id: 'displacement',
+      label: '位移',
+      unit: 'px',
+      series: ['位移'],
+      colors: [THEME.colors.objects.referenceLine],
+    };
+    const phase: ChartPanelConfig = {
+      id: 'phase',
+      label: '速度 v',
+      unit: 'px/s',
+      series: ['相轨迹'],
+      colors: [THEME.colors.vectors.velocity],
+      mode: 'xy',
+      xLabel: '位移 x',
+      xUnit: 'px',
+    };
+    const spectrum: ChartPanelConfig = {
+      id: 'spectrum',
+      label: '位移频谱',
+      series: ['位移'],
+      colors: [THEME.colors.objects.referenceLine],
+      mode: 'spectrum',
+      source: 'displacement',
+    };
+    if (this.params.compareEnergy) {
+      return [
+        displacement,
+        {
+          id: 'drift',
+          label: '能量漂移 ΔE/|E₀|',
+          series: this.energyDrift.getSeriesNames(),
+          colors: THEME.colors.chart.series,
+        },
+        phase,
+        spectrum,
+      ];
+    }
+    if (this.ghost.isActive()) {
+      return [
+        displacement,
+        {
+          id: 'energy',
+          label: '机械能 E',
+          unit: 'kg·px²/s²',
+          series: [INTEGRATOR_LABELS[this.params.integrator], this.ghost.getLabel()],
+          colors: [THEME.colors.vectors.velocity, THEME.colors.objects.ghost],
+        },
+        phase,
+        spectrum,
+      ];
+    }
+    return [
+      displacement,
+      {
+        id: 'velocity',
+        label: '速度',
+        unit: 'px/s',
         series: ['速度'],
         colors: [THEME.colors.vectors.velocity],
       },
-    };
+      phase,
+      spectrum,
+    ];
+  }
+
+  /**
+   * 理论频率：固有频率 ω₀/2π，有阻尼时另给出阻尼振动频率 ω_d/2π
+   */
+  getSpectrumReferences(): SpectrumReference[] {
+    const { mass, stiffness, damping } = this.params;
+    const references: SpectrumReference[] = [
+      {
+        label: '固有频率',
+        frequency: Physics.springNaturalFrequency(stiffness, mass) / (2 * Math.PI),
+      },
+    ];
+    const omegaD = Physics.dampedNaturalFrequency(stiffness, mass, damping);
+    if (damping > 0 && omegaD > 0) {
+      references.push({ label: '阻尼频率', frequency: omegaD / (2 * Math.PI) });
+    }
+    return references;
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData | null {
     const { x, v } = this.phys;
+
+    if (this.params.compareEnergy) {
+      return {
+        t: t,
+        channels: { displacement: [x], drift: this.energyDrift.getDrifts(), phase: [x, v] },
+      };
+    }
+
+    const ghostEnergy = this.ghost.getEnergy();
+    if (ghostEnergy !== null) {
+      return {
+        t: t,
+        channels: {
+          displacement: [x],
+          energy: [this.mechanicalEnergy(x, v), ghostEnergy],
+          phase: [x, v],
+        },
+      };
+    }
+
     // 当速度和位移都非常小时，停止更新图表
     const isResting = Math.abs(x) < 0.1 && Math.abs(v) < 0.1;
 
@@ -306,11 +534,75 @@ export class SpringOscillatorScene extends Scene {
 
     return {
       t: t,
-      vel: [x],
-      acc: [v],
+      channels: { displacement: [x], velocity: [v], phase: [x, v] },
+    };
+  }
+
+  getLogChannels(t: number): Record<string, number> {
+    const { x, v } = this.phys;
+    return {
+      '位移 (px)': x,
+      '速度 (px/s)': v,
+      '机械能 E': this.mechanicalEnergy(x, v),
+    };
+  }
+
+  /**
+   * 弹簧振子加速度 a = (-kx - cv) / m (x 相对平衡位置)
+   */
+  private springAcceleration(pos: number, vel: number): number {
+    const { mass, stiffness, damping } = this.params;
+    const F = Physics.springForce(stiffness, pos) + Physics.dampingForce(damping, vel);
+    return Physics.acceleration(F, mass);
+  }
+
+  /**
+   * 机械能 E = ½mv² + ½kx² (x 相对平衡位置，竖直模式下已包含重力势能的变化)
+   */
+  private mechanicalEnergy(pos: number, vel: number): number {
+    const { mass, stiffness } = this.params;
+    return 0.5 * mass * vel * vel + 0.5 * stiffness * pos * pos;
+  }
+
+  /**
+   * 能量分解 (竖直模式下 x 相对平衡位置，重力势能的变化已并入弹性势能项)
+   * 本场景的位移以像素计 (没有像素与米的换算)，能量单位为 kg·px²/s² 而不是 J。
+   */
+  getEnergyBreakdown(): EnergyBreakdown {
+    const { mass, stiffness } = this.params;
+    const { x, v } = this.phys;
+    return {
+      kinetic: 0.5 * mass * v * v,
+      elastic: 0.5 * stiffness * x * x,
+      dissipated: this.dissipated,
+      unit: 'kg·px²/s²',
     };
   }
 
+  /**
+   * 按当前设置让幽灵从主模拟的当前状态重新出发
+   */
+  private resetGhost(): void {
+    this.ghost.setMethod(this.params.ghostIntegrator);
+    this.ghost.reset({ pos: { x: this.phys.x }, vel: { x: this.phys.v } });
+  }
+
+  /**
+   * 绘制幽灵小球 (半透明)
+   * @param toScreen 位移 x 到屏幕坐标的映射 (区分水平/竖直模式)
+   */
+  private renderGhost(
+    ctx: CanvasRenderingContext2D,
+    toScreen: (x: number) => { x: number; y: number }
+  ): void {
+    if (!this.ghost.state) return;
+    const p = toScreen(this.ghost.state.pos.x as number);
+    ctx.save();
+    ctx.globalAlpha = 0.45;
+    drawDot(ctx, p.x, p.y, THEME.colors.objects.ghost, THEME.sizes.ballRadius);
+    ctx.restore();
+  }
+
   getRecordingDuration(): number {
     const { mass, stiffness } = this.params;
     // T = 2 * pi * sqrt(m / k)
@@ -331,34 +623,44 @@ export class SpringOscillatorScene extends Scene {
     // 保存当前状态为上一帧状态
     this.prevPhys = { ...this.phys };
 
-    // 定义受力函数 (用于积分器)
-    const forceFn = (pos: number, vel: number, t: number) => {
-      // F_spring = -k * x
-      const F_spring = Physics.springForce(stiffness, pos);
-      // F_damping = -c * v
-      const F_damping = Physics.dampingForce(damping, vel);
-      return F_spring + F_damping;
-    };
+    if (this.params.integrator === 'semiImplicit') {
+      // 定义加速度函数 (用于半隐式欧拉)
+      const accelerationFunc = (pos: number, vel: number, t: number) =>
+        this.springAcceleration(pos, vel);
+
+      // 使用半隐式欧拉积分器更新状态
+      // 注意：this.phys 中的 x 和 v 是标量
+      const newState = Integrator.semiImplicitEuler(
+        this.phys.x,
+        this.phys.v,
+        t,
+        dt,
+        accelerationFunc
+      );
 
-    // 定义加速度函数 (用于半隐式欧拉)
-    const accelerationFunc = (pos: number, vel: number, t: number) => {
-      const force = forceFn(pos, vel, t);
-      return Physics.acceleration(force, mass);
-    };
+      // 更新物理状态
+      this.phys.x = newState.pos;
+      this.phys.v = newState.vel;
+    } else {
+      // 其他方法：以单分量状态 { x } 推进
+      const next = Integrator.stepSecondOrder(
+        this.params.integrator,
+        { pos: { x: this.phys.x }, vel: { x: this.phys.v } },
+        t,
+        dt,
+        (pos, vel) => ({ x: this.springAcceleration(pos.x as number, vel.x as number) })
+      );
+      this.phys.x = next.pos.x as number;
+      this.phys.v = next.vel.x as number;
+    }
 
-    // 使用半隐式欧拉积分器更新状态
-    // 注意：this.phys 中的 x 和 v 是标量
-    const newState = Integrator.semiImplicitEuler(
-      this.phys.x,
-      this.phys.v,
-      t,
-      dt,
-      accelerationFunc
-    );
+    if (this.params.compareEnergy) {
+      this.energyDrift.step(t, dt);
+    }
+    this.ghost.step(t, dt);
 
-    // 更新物理状态
-    this.phys.x = newState.pos;
-    this.phys.v = newState.vel;
+    // 阻尼力 -cv 的功率为 cv²，按梯形公式累计耗散能量
+    this.dissipated += (damping * (this.prevPhys.v ** 2 + this.phys.v ** 2) * dt) / 2;
 
     // 为了渲染和调试，重新计算力 (或者让积分器返回力，但标准接口不返回)
     const F_spring = Physics.springForce(stiffness, this.phys.x);
@@ -473,6 +775,9 @@ export class SpringOscillatorScene extends Scene {
     // 2. 绘制弹簧
     drawSpring(ctx, wallX, groundY, ballX - ballRadius, groundY, 20, 10, mainColor);
 
+    // 幽灵对照小球
+    this.renderGhost(ctx, gx => ({ x: equilibriumX + gx, y: groundY }));
+
     // 3. 绘制小球
     drawDot(ctx, ballX, ballY, THEME.colors.objects.ball.light, ballRadius);
     // 小球轮廓
@@ -602,6 +907,9 @@ export class SpringOscillatorScene extends Scene {
     // 从天花板中心到小球顶部
     drawSpring(ctx, equilibriumX, ceilingY, ballX, ballY - ballRadius, 20, 10, mainColor);
 
+    // 幽灵对照小球
+    this.renderGhost(ctx, gx => ({ x: equilibriumX, y: equilibriumY + gx }));
+
     // 3. 绘制小球
     drawDot(ctx, ballX, ballY, THEME.colors.objects.ball.light, ballRadius);
     // 小球轮廓
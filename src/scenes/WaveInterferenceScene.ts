@@ -1,4 +1,11 @@
-import { Scene } from '../core/Scene.ts';
+import {
+  Scene,
+  SceneState,
+  ScenePreset,
+  ChartPanelConfig,
+  MonitorData,
+  SpectrumReference,
+} from '../core/Scene.ts';
 import { drawDot } from '../utils/draw.ts';
 import { THEME } from '../config.ts';
 import description from '../content/WaveInterference.md?raw';
@@ -91,8 +98,38 @@ export class WaveInterferenceScene extends Scene {
 
   resetSimulation(): void {
     this.time = 0;
-    if (window.velChart) window.velChart.clear();
-    if (window.accChart) window.accChart.clear();
+    if (window.charts) window.charts.clear();
+  }
+
+  getState(): SceneState {
+    return { time: this.time };
+  }
+
+  setState(state: SceneState): void {
+    this.time = state.time;
+  }
+
+  /**
+   * 内置参数预设
+   */
+  getPresets(): ScenePreset[] {
+    return [
+      {
+        name: '相干干涉',
+        description: '同频波源，出现稳定的加强与减弱区域',
+        params: { f1: 1, f2: 1, d: 150 },
+      },
+      {
+        name: '拍现象',
+        description: '频率略有差异，干涉图样随时间移动',
+        params: { f1: 1, f2: 1.2, d: 150 },
+      },
+      {
+        name: '单波源',
+        description: '两波源重合，只有同心圆波',
+        params: { f1: 1, f2: 1, d: 0 },
+      },
+    ];
   }
 
   getControlConfig(): any[] {
@@ -193,17 +230,38 @@ export class WaveInterferenceScene extends Scene {
     ];
   }
 
-  getChartConfig(): any {
-    return {
-      vel: {
+  getChartConfig(): ChartPanelConfig[] {
+    return [
+      {
+        id: 'amplitude',
         label: '中心点振幅',
         series: ['Amplitude'],
         colors: ['#00ff00'],
       },
-    };
+      {
+        id: 'spectrum',
+        label: '中心点振幅频谱',
+        series: ['Amplitude'],
+        colors: ['#00ff00'],
+        mode: 'spectrum',
+        source: 'amplitude',
+      },
+    ];
+  }
+
+  /**
+   * 两个波源的频率 (频率不同时中心点出现拍，频谱有两个峰)
+   */
+  getSpectrumReferences(): SpectrumReference[] {
+    const { f1, f2 } = this.params;
+    if (f1 === f2) return [{ label: '波源频率', frequency: f1 }];
+    return [
+      { label: '波源 1', frequency: f1 },
+      { label: '波源 2', frequency: f2 },
+    ];
   }
 
-  getMonitorData(t: number): any {
+  getMonitorData(t: number): MonitorData {
     // 计算中心点的振幅
     const { f1, f2, d, v, A } = this.params;
     const omega1 = 2 * Math.PI * f1;
@@ -219,8 +277,7 @@ export class WaveInterferenceScene extends Scene {
 
     return {
       t: t,
-      vel: [y1 + y2],
-      acc: [],
+      channels: { amplitude: [y1 + y2] },
     };
   }
 
@@ -0,0 +1,101 @@
+/**
+ * 场景注册入口
+ * 集中注册所有可用场景及其首页元数据。
+ * 浏览器页面 (main.ts) 与无头模式 (HeadlessRunner) 共用同一份注册表。
+ */
+import { sceneRegistry } from '../core/SceneRegistry';
+
+import { CircularScene } from './CircularScene';
+import { SHMScene } from './SHMScene';
+import { FreeFallScene } from './FreeFallScene';
+import { SpringOscillatorScene } from './SpringOscillatorScene';
+import { SimplePendulumScene } from './SimplePendulumScene';
+import { ElasticCollisionScene } from './ElasticCollisionScene';
+import { DoublePendulumScene } from './DoublePendulumScene';
+import { PlanetaryMotionScene } from './PlanetaryMotionScene';
+import { ProjectileMotionScene } from './ProjectileMotionScene';
+import { WaveInterferenceScene } from './WaveInterferenceScene';
+import { OpticsLensScene } from './OpticsLensScene';
+import { RefractionScene } from './RefractionScene';
+import { CircuitScene } from './CircuitScene';
+import { PlanetaryMotionScene3D } from './PlanetaryMotionScene3D';
+
+// 注册场景
+sceneRegistry.register('graphics-demo', null, {
+  label: '图形组件库',
+  description: '展示物理引擎中可复用的图形组件 (Stick Figure, Ball, etc.)。',
+  thumbnail: '/thumbnails/graphicLib.jpg',
+});
+sceneRegistry.register('pendulum', SimplePendulumScene, {
+  label: '单摆',
+  description: '经典的单摆运动，展示周期与摆长的关系。',
+  thumbnail: '/thumbnails/pendulum.gif',
+});
+sceneRegistry.register('circular', CircularScene, {
+  label: '匀速圆周运动',
+  description: '展示向心力、线速度与角速度的关系。',
+  thumbnail: '/thumbnails/circular.gif',
+});
+sceneRegistry.register('shm', SHMScene, {
+  label: '简谐运动',
+  description: '弹簧振子与参考圆的对比，理解正弦运动。',
+  thumbnail: '/thumbnails/shm.gif',
+});
+sceneRegistry.register('freefall', FreeFallScene, {
+  label: '自由落体',
+  description: '物体在重力作用下的匀加速直线运动。',
+  thumbnail: '/thumbnails/freefall.gif',
+});
+sceneRegistry.register('spring', SpringOscillatorScene, {
+  label: '弹簧振子',
+  description: '阻尼振动与受迫振动的模拟。',
+  thumbnail: '/thumbnails/spring.gif',
+});
+sceneRegistry.register('collision', ElasticCollisionScene, {
+  label: '弹性碰撞',
+  description: '二维平面上的动量守恒与动能守恒。',
+  thumbnail: '/thumbnails/collision.gif',
+});
+sceneRegistry.register('double-pendulum', DoublePendulumScene, {
+  label: '双摆',
+  description: '展示混沌现象，对初始条件极其敏感。',
+  thumbnail: '/thumbnails/double-pendulum.gif',
+});
+sceneRegistry.register('planetary', PlanetaryMotionScene, {
+  label: '天体运动 (2D)',
+  description: '模拟行星绕恒星的运动，展示万有引力定律与开普勒定律。',
+  thumbnail: '/thumbnails/planetary.gif',
+});
+sceneRegistry.register('planetary-3d', PlanetaryMotionScene3D, {
+  label: '天体运动 (3D)',
+  description: '3D 版本的天体运动，展示空间中的轨道运动和引力效果。',
+  thumbnail: '/thumbnails/planetary.gif',
+  renderer: 'threejs', // 指定需要 Three.js 渲染器
+});
+sceneRegistry.register('projectile', ProjectileMotionScene, {
+  label: '平抛/斜抛',
+  description: '抛体运动的轨迹与速度分解。',
+  thumbnail: '/thumbnails/projectile.gif',
+});
+sceneRegistry.register('wave', WaveInterferenceScene, {
+  label: '波的干涉',
+  description: '双波源干涉图样的实时模拟。',
+  thumbnail: '/thumbnails/wave.gif',
+});
+sceneRegistry.register('optics-lens', OpticsLensScene, {
+  label: '透镜成像',
+  description: '凸透镜与凹透镜的几何成像规律演示。',
+  thumbnail: '/thumbnails/optics-lens.gif',
+});
+sceneRegistry.register('refraction', RefractionScene, {
+  label: '光的折射 (视深)',
+  description: '为什么水里的鱼看起来比实际浅？',
+  thumbnail: '/thumbnails/refraction.gif',
+});
+sceneRegistry.register('circuit', CircuitScene, {
+  label: '直流电路实验室',
+  description: '串联、并联与混合电路的电流与电压模拟。',
+  thumbnail: '/thumbnails/circuit.gif',
+});
+
+export { sceneRegistry };
@@ -0,0 +1,66 @@
+/**
+ * download.ts
+ * 浏览器文件下载工具：把 Blob 或文本保存为本地文件
+ */
+
+// 触发下载后释放对象 URL 的延迟 (毫秒)
+const REVOKE_DELAY = 1000;
+
+/**
+ * 触发浏览器下载 Blob
+ * @param {Blob} blob - 文件内容
+ * @param {string} filename - 文件名
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  // 部分浏览器异步开始下载，立即释放 URL 会导致下载失败或得到空文件
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, REVOKE_DELAY);
+}
+
+/**
+ * 触发浏览器下载文本文件
+ * @param {string} text - 文本内容
+ * @param {string} filename - 文件名
+ * @param {string} mimeType - MIME 类型
+ */
+export function downloadText(
+  text: string,
+  filename: string,
+  mimeType: string = 'text/plain'
+): void {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+}
+
+/**
+ * 生成带时间戳的安全文件名，例如 "速度-2024-01-01T12-00-00.csv"
+ * @param {string} base - 文件名主体
+ * @param {string} ext - 扩展名 (不含点)
+ */
+export function timestampedFilename(base: string, ext: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  const safe = base.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '') || 'data';
+  return `${safe}-${stamp}.${ext}`;
+}
+
+/**
+ * 生成 CSV 文本 (RFC 4180：含逗号、引号或换行的单元格加双引号)
+ * 开头带 UTF-8 BOM，便于 Excel 正确识别中文表头。
+ * @param {string[]} header - 表头
+ * @param {Array<Array<string | number>>} rows - 数据行
+ */
+export function buildCSV(header: string[], rows: Array<Array<string | number>>): string {
+  const escape = (cell: string | number) => {
+    const text = typeof cell === 'number' ? (isFinite(cell) ? String(cell) : '') : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [header, ...rows].map(row => row.map(escape).join(','));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
@@ -154,3 +154,18 @@ export function drawLine(ctx: CanvasRenderingContext2D, x1: number, y1: number,
   ctx.stroke();
   ctx.restore();
 }
+
+/**
+ * 在画布左上角等位置绘制多行说明文字 (例如积分器状态)
+ */
+export function drawTextLines(ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, color: string = THEME.colors.ui.textSub, lineHeight: number = 16): void {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.font = THEME.fonts.annotation;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x, y + i * lineHeight);
+  });
+  ctx.restore();
+}
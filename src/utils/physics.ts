@@ -108,6 +108,19 @@ export const Physics = {
     return Math.sqrt(k / m);
   },
 
+  /**
+   * 阻尼振子的振动角频率
+   * omega_d = sqrt(k / m - (c / 2m)^2)
+   * @param {number} k - 劲度系数
+   * @param {number} m - 质量
+   * @param {number} c - 阻尼系数
+   * @returns {number} 角频率 (临界阻尼或过阻尼时不振动，返回 0)
+   */
+  dampedNaturalFrequency(k: number, m: number, c: number): number {
+    const gamma = c / (2 * m);
+    return Math.sqrt(Math.max(k / m - gamma * gamma, 0));
+  },
+
   /**
    * 弹簧静止伸长量 (竖直悬挂)
    * delta_l = m * g / k
@@ -178,6 +191,21 @@ export const Physics = {
     };
   },
 
+  /**
+   * 双摆小角度简正模的角频率
+   * m1·L1·L2·ω⁴ - (m1+m2)·g·(L1+L2)·ω² + (m1+m2)·g² = 0
+   * @param {Object} params - { m1, m2, L1, L2, g }
+   * @returns {number[]} [低频模 (同相), 高频模 (反相)]
+   */
+  doublePendulumNormalFrequencies(params: DoublePendulumParams): number[] {
+    const { m1, m2, L1, L2, g } = params;
+    const a = m1 * L1 * L2;
+    const b = (m1 + m2) * g * (L1 + L2);
+    const c = (m1 + m2) * g * g;
+    const root = Math.sqrt(b * b - 4 * a * c);
+    return [Math.sqrt((b - root) / (2 * a)), Math.sqrt((b + root) / (2 * a))];
+  },
+
   /**
    * 万有引力 (Gravitational Force Magnitude)
    * F = G * M * m / r^2
@@ -0,0 +1,125 @@
+/**
+ * rasterize.ts
+ * 把页面元素 (如 KaTeX 公式) 转换为画布图像：内联样式表与字体后经 SVG foreignObject 绘制
+ */
+
+// 已内联的字体 (URL -> data URL)，避免每次导出重复下载
+const fontCache = new Map<string, Promise<string | null>>();
+
+/**
+ * 下载字体并转换为 data URL
+ */
+function fetchAsDataURL(url: string): Promise<string | null> {
+  let cached = fontCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then(res => (res.ok ? res.blob() : null))
+      .then(
+        blob =>
+          blob &&
+          new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+          })
+      )
+      .catch(() => null);
+    fontCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * 把 @font-face 规则的字体地址替换为 data URL (SVG 图像中无法加载外部资源)
+ * 只保留第一个字体源 (KaTeX 优先列出 woff2)。
+ */
+async function inlineFontFace(rule: CSSFontFaceRule, baseHref: string): Promise<string> {
+  const src = rule.style.getPropertyValue('src');
+  const match = src.match(/url\(\s*["']?([^"')]+)["']?\s*\)/);
+  if (!match) return rule.cssText;
+
+  const dataURL = await fetchAsDataURL(new URL(match[1]!, baseHref).href);
+  if (!dataURL) return rule.cssText;
+
+  const descriptors = ['font-family', 'font-style', 'font-weight']
+    .map(name => {
+      const value = rule.style.getPropertyValue(name);
+      return value ? `${name}: ${value};` : '';
+    })
+    .join(' ');
+  return `@font-face { ${descriptors} src: url("${dataURL}"); }`;
+}
+
+/**
+ * 收集页面中可读取的样式表 (跨域且未开启 CORS 的样式表会被跳过)
+ */
+async function collectStyles(): Promise<string> {
+  const parts: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch (e) {
+      continue;
+    }
+    const baseHref = sheet.href || document.baseURI;
+    for (const rule of Array.from(rules)) {
+      parts.push(
+        rule instanceof CSSFontFaceRule ? await inlineFontFace(rule, baseHref) : rule.cssText
+      );
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * 把元素的内容绘制为画布 (不含元素自身的边框与标题)
+ * @param {HTMLElement} element - 要转换的元素
+ * @param {number} pixelRatio - 像素比 (大于 1 时得到更清晰的图像)
+ * @returns {Promise<HTMLCanvasElement | null>} 元素不可见或浏览器不支持时返回 null
+ */
+export async function rasterizeElement(
+  element: HTMLElement,
+  pixelRatio: number = 1
+): Promise<HTMLCanvasElement | null> {
+  const width = Math.ceil(element.clientWidth);
+  const height = Math.ceil(element.scrollHeight);
+  if (width === 0 || height === 0) return null;
+
+  const computed = getComputedStyle(element);
+  const css = await collectStyles();
+
+  const wrapper = document.createElement('div');
+  wrapper.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+  wrapper.style.width = `${width}px`;
+  wrapper.style.color = computed.color;
+  wrapper.style.fontFamily = computed.fontFamily;
+  wrapper.style.fontSize = computed.fontSize;
+  wrapper.style.padding = computed.padding;
+  wrapper.style.boxSizing = 'border-box';
+  const style = document.createElement('style');
+  style.textContent = css;
+  wrapper.appendChild(style);
+  Array.from(element.childNodes).forEach(node => wrapper.appendChild(node.cloneNode(true)));
+
+  const xhtml = new XMLSerializer().serializeToString(wrapper);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject width="100%" height="100%">${xhtml}</foreignObject></svg>`;
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  try {
+    await image.decode();
+  } catch (e) {
+    console.warn('Failed to rasterize element:', e);
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
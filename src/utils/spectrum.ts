@@ -0,0 +1,162 @@
+/**
+ * spectrum.ts
+ * 频谱分析：把非均匀采样的时间序列重采样后做 FFT，给出幅度谱与主峰频率
+ */
+
+// 类型定义
+export interface SpectrumPeak {
+  frequency: number; // Hz
+  magnitude: number;
+}
+
+export interface SpectrumResult {
+  frequencies: number[]; // Hz
+  magnitudes: number[]; // 幅度谱 (与原信号振幅同量纲)
+  resolution: number; // 频率分辨率 (Hz)
+  peaks: SpectrumPeak[]; // 按幅度降序
+}
+
+// FFT 点数上限
+const MAX_POINTS = 4096;
+// 至少需要的采样点数
+const MIN_POINTS = 64;
+
+export const Spectrum = {
+  /**
+   * 原地基 2 快速傅里叶变换 (长度必须是 2 的幂)
+   * @param {number[]} re - 实部
+   * @param {number[]} im - 虚部
+   */
+  fft(re: number[], im: number[]): void {
+    const n = re.length;
+
+    // 位反转置换
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j]!, re[i]!];
+        [im[i], im[j]] = [im[j]!, im[i]!];
+      }
+    }
+
+    // 蝶形运算
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      const wRe = Math.cos(angle);
+      const wIm = Math.sin(angle);
+      for (let start = 0; start < n; start += size) {
+        let curRe = 1;
+        let curIm = 0;
+        for (let k = 0; k < size / 2; k++) {
+          const a = start + k;
+          const b = a + size / 2;
+          const tRe = re[b]! * curRe - im[b]! * curIm;
+          const tIm = re[b]! * curIm + im[b]! * curRe;
+          re[b] = re[a]! - tRe;
+          im[b] = im[a]! - tIm;
+          re[a] = re[a]! + tRe;
+          im[a] = im[a]! + tIm;
+          const nextRe = curRe * wRe - curIm * wIm;
+          curIm = curRe * wIm + curIm * wRe;
+          curRe = nextRe;
+        }
+      }
+    }
+  },
+
+  /**
+   * 线性插值重采样到均匀时间网格 (图表数据按渲染帧记录，时间间隔不固定)
+   * @param {number[]} times - 升序时间
+   * @param {number[]} values - 对应数值
+   * @param {number} n - 输出点数
+   * @returns {number[]} [t0, t_end] 上均匀分布的 n 个采样值
+   */
+  resample(times: number[], values: number[], n: number): number[] {
+    const t0 = times[0]!;
+    const dt = (times[times.length - 1]! - t0) / (n - 1);
+    const out: number[] = [];
+    let j = 0;
+    for (let i = 0; i < n; i++) {
+      const t = t0 + i * dt;
+      while (j < times.length - 2 && times[j + 1]! < t) j++;
+      const span = times[j + 1]! - times[j]!;
+      const frac = span > 0 ? (t - times[j]!) / span : 0;
+      out.push(values[j]! + (values[j + 1]! - values[j]!) * Math.min(Math.max(frac, 0), 1));
+    }
+    return out;
+  },
+
+  /**
+   * 计算幅度谱：去均值、加汉宁窗后做 FFT
+   * @param {number[]} times - 升序时间 (s)
+   * @param {number[]} values - 信号
+   * @param {number} peakCount - 返回的主峰数量
+   * @returns {SpectrumResult | null} 数据太少时返回 null
+   */
+  analyze(times: number[], values: number[], peakCount: number = 3): SpectrumResult | null {
+    if (times.length < MIN_POINTS) return null;
+    const duration = times[times.length - 1]! - times[0]!;
+    if (duration <= 0) return null;
+
+    // 点数取不小于原始点数的 2 的幂
+    let n = MIN_POINTS;
+    while (n < times.length && n < MAX_POINTS) n <<= 1;
+
+    const samples = Spectrum.resample(times, values, n);
+    const mean = samples.reduce((sum, v) => sum + v, 0) / n;
+
+    // 汉宁窗，幅度按窗函数的和归一化
+    const re: number[] = [];
+    const im: number[] = new Array(n).fill(0);
+    let windowSum = 0;
+    for (let i = 0; i < n; i++) {
+      const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+      windowSum += w;
+      re.push((samples[i]! - mean) * w);
+    }
+    Spectrum.fft(re, im);
+
+    const sampleInterval = duration / (n - 1);
+    const resolution = 1 / (n * sampleInterval);
+    const frequencies: number[] = [];
+    const magnitudes: number[] = [];
+    for (let k = 0; k <= n / 2; k++) {
+      frequencies.push(k * resolution);
+      magnitudes.push((2 * Math.hypot(re[k]!, im[k]!)) / windowSum);
+    }
+
+    return {
+      frequencies,
+      magnitudes,
+      resolution,
+      peaks: Spectrum.findPeaks(magnitudes, resolution, peakCount),
+    };
+  },
+
+  /**
+   * 查找幅度谱中的局部极大值 (忽略低于最大值 10% 的峰)，用抛物线插值细化峰值频率
+   * @param {number[]} magnitudes - 幅度谱
+   * @param {number} resolution - 频率分辨率 (Hz)
+   * @param {number} count - 返回的峰数量
+   */
+  findPeaks(magnitudes: number[], resolution: number, count: number): SpectrumPeak[] {
+    const max = Math.max(...magnitudes.slice(1));
+    const peaks: SpectrumPeak[] = [];
+    for (let k = 1; k < magnitudes.length - 1; k++) {
+      const a = magnitudes[k - 1]!;
+      const b = magnitudes[k]!;
+      const c = magnitudes[k + 1]!;
+      if (b < a || b < c || b < max * 0.1) continue;
+
+      const denominator = a - 2 * b + c;
+      const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+      peaks.push({
+        frequency: (k + offset) * resolution,
+        magnitude: b - 0.25 * (a - c) * offset,
+      });
+    }
+    return peaks.sort((p, q) => q.magnitude - p.magnitude).slice(0, count);
+  },
+};
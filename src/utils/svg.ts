@@ -0,0 +1,550 @@
+/**
+ * svg.ts
+ * SVG 绘图上下文：实现场景用到的 Canvas 2D 接口，把绘制命令转换为 SVG 元素 (矢量导出)
+ */
+
+// 类型定义
+type Matrix = [number, number, number, number, number, number]; // a b c d e f (与 Canvas 相同)
+
+interface SvgState {
+  transform: Matrix;
+  fillStyle: string | SvgGradient;
+  strokeStyle: string | SvgGradient;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  lineDash: number[];
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  groups: number; // 该状态下已打开的 <g> (裁剪) 数量
+}
+
+interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+// 每段三次贝塞尔曲线近似的最大圆弧角度
+const MAX_ARC_SEGMENT = Math.PI / 2;
+
+/**
+ * 数值格式化：保留两位小数并去掉多余的 0
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * XML 转义
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 矩阵乘法 m × n (先应用 n 再应用 m)
+ */
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/**
+ * 渐变 (createLinearGradient / createRadialGradient 的返回值)
+ * 坐标为创建时的局部坐标，使用时以当前变换作为 gradientTransform 写入 <defs>。
+ */
+export class SvgGradient {
+  readonly type: 'linear' | 'radial';
+  readonly coords: number[];
+  readonly stops: GradientStop[];
+
+  constructor(type: 'linear' | 'radial', coords: number[]) {
+    this.type = type;
+    this.coords = coords;
+    this.stops = [];
+  }
+
+  addColorStop(offset: number, color: string): void {
+    this.stops.push({ offset, color });
+  }
+}
+
+/**
+ * SVG 绘图上下文
+ * 路径在添加时即按当前变换转换为输出坐标 (与 Canvas 的行为一致)，圆弧与椭圆用三次贝塞尔曲线近似，
+ * 因此旋转与缩放下的图形与画布绘制完全对应；线宽按变换的缩放比例换算。
+ * 不支持的接口 (像素读写、阴影等) 被忽略；clearRect 只在清除整个画面时丢弃已绘制的内容。
+ * 用法：new SvgContext(w, h) 后作为 CanvasRenderingContext2D 传给 scene.render()，再调用 toString()。
+ */
+export class SvgContext {
+  readonly width: number;
+  readonly height: number;
+  private background: string | null;
+  private elements: string[];
+  private defs: string[];
+  private nextId: number;
+  private path: string[];
+  private state: SvgState;
+  private stack: SvgState[];
+  // 文字宽度测量用的画布上下文
+  private measureCtx: CanvasRenderingContext2D | null;
+  imageSmoothingEnabled: boolean;
+
+  /**
+   * @param {number} width - 画面宽度 (逻辑像素)
+   * @param {number} height - 画面高度 (逻辑像素)
+   * @param {string | null} background - 背景色 (不受 clearRect 影响)
+   */
+  constructor(width: number, height: number, background: string | null = null) {
+    this.width = width;
+    this.height = height;
+    this.background = background;
+    this.elements = [];
+    this.defs = [];
+    this.nextId = 0;
+    this.path = [];
+    this.stack = [];
+    this.measureCtx = null;
+    this.imageSmoothingEnabled = true;
+    this.state = {
+      transform: [1, 0, 0, 1, 0, 0],
+      fillStyle: '#000000',
+      strokeStyle: '#000000',
+      lineWidth: 1,
+      lineCap: 'butt',
+      lineJoin: 'miter',
+      lineDash: [],
+      globalAlpha: 1,
+      font: '10px sans-serif',
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      groups: 0,
+    };
+  }
+
+  // ========== 绘图状态 ==========
+
+  get fillStyle(): string | SvgGradient {
+    return this.state.fillStyle;
+  }
+  set fillStyle(value: string | SvgGradient) {
+    this.state.fillStyle = value;
+  }
+  get strokeStyle(): string | SvgGradient {
+    return this.state.strokeStyle;
+  }
+  set strokeStyle(value: string | SvgGradient) {
+    this.state.strokeStyle = value;
+  }
+  get lineWidth(): number {
+    return this.state.lineWidth;
+  }
+  set lineWidth(value: number) {
+    if (value > 0 && isFinite(value)) this.state.lineWidth = value;
+  }
+  get lineCap(): CanvasLineCap {
+    return this.state.lineCap;
+  }
+  set lineCap(value: CanvasLineCap) {
+    this.state.lineCap = value;
+  }
+  get lineJoin(): CanvasLineJoin {
+    return this.state.lineJoin;
+  }
+  set lineJoin(value: CanvasLineJoin) {
+    this.state.lineJoin = value;
+  }
+  get globalAlpha(): number {
+    return this.state.globalAlpha;
+  }
+  set globalAlpha(value: number) {
+    if (value >= 0 && value <= 1) this.state.globalAlpha = value;
+  }
+  get font(): string {
+    return this.state.font;
+  }
+  set font(value: string) {
+    this.state.font = value;
+  }
+  get textAlign(): CanvasTextAlign {
+    return this.state.textAlign;
+  }
+  set textAlign(value: CanvasTextAlign) {
+    this.state.textAlign = value;
+  }
+  get textBaseline(): CanvasTextBaseline {
+    return this.state.textBaseline;
+  }
+  set textBaseline(value: CanvasTextBaseline) {
+    this.state.textBaseline = value;
+  }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = segments.slice();
+  }
+
+  getLineDash(): number[] {
+    return this.state.lineDash.slice();
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state, lineDash: this.state.lineDash.slice(), groups: 0 });
+    this.state.groups = 0;
+  }
+
+  restore(): void {
+    const previous = this.stack.pop();
+    if (!previous) return;
+    // 关闭该层 save() 之后打开的裁剪分组
+    for (let i = 0; i < this.state.groups; i++) this.elements.push('</g>');
+    this.state = previous;
+  }
+
+  // ========== 变换 ==========
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  resetTransform(): void {
+    this.state.transform = [1, 0, 0, 1, 0, 0];
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = multiply(this.state.transform, [a, b, c, d, e, f]);
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  // ========== 路径 ==========
+
+  beginPath(): void {
+    this.path = [];
+  }
+
+  closePath(): void {
+    if (this.path.length > 0) this.path.push('Z');
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${this.point(x, y)}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    // 空路径上的 lineTo 等同于 moveTo
+    this.path.push(`${this.path.length > 0 ? 'L' : 'M'}${this.point(x, y)}`);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.path.push(`Q${this.point(cpx, cpy)} ${this.point(x, y)}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    this.path.push(`C${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)}`);
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + w, y);
+    this.lineTo(x + w, y + h);
+    this.lineTo(x, y + h);
+    this.closePath();
+  }
+
+  roundRect(x: number, y: number, w: number, h: number, radii: number | number[] = 0): void {
+    const r = Math.min(
+      Array.isArray(radii) ? radii[0] || 0 : radii,
+      Math.abs(w) / 2,
+      Math.abs(h) / 2
+    );
+    if (r <= 0) {
+      this.rect(x, y, w, h);
+      return;
+    }
+    this.moveTo(x + r, y);
+    this.arc(x + w - r, y + r, r, -Math.PI / 2, 0);
+    this.arc(x + w - r, y + h - r, r, 0, Math.PI / 2);
+    this.arc(x + r, y + h - r, r, Math.PI / 2, Math.PI);
+    this.arc(x + r, y + r, r, Math.PI, Math.PI * 1.5);
+    this.closePath();
+  }
+
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false
+  ): void {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false
+  ): void {
+    // 与 Canvas 相同的角度规范化：扫过的角度不超过一整圈
+    let sweep = endAngle - startAngle;
+    const full = Math.PI * 2;
+    if (!counterclockwise && sweep >= full) sweep = full;
+    else if (counterclockwise && -sweep >= full) sweep = -full;
+    else if (!counterclockwise) sweep = ((sweep % full) + full) % full;
+    else sweep = -(((-sweep % full) + full) % full);
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const at = (angle: number, dx: number = 0, dy: number = 0) => {
+      const px = radiusX * Math.cos(angle) + dx;
+      const py = radiusY * Math.sin(angle) + dy;
+      return this.point(x + px * cos - py * sin, y + px * sin + py * cos);
+    };
+
+    // 起点与当前路径相连 (与 Canvas 一致)
+    this.path.push(`${this.path.length > 0 ? 'L' : 'M'}${at(startAngle)}`);
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / MAX_ARC_SEGMENT - 1e-9));
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    for (let i = 0; i < segments; i++) {
+      const a0 = startAngle + delta * i;
+      const a1 = a0 + delta;
+      const cp1 = at(a0, -k * radiusX * Math.sin(a0), k * radiusY * Math.cos(a0));
+      const cp2 = at(a1, k * radiusX * Math.sin(a1), -k * radiusY * Math.cos(a1));
+      this.path.push(`C${cp1} ${cp2} ${at(a1)}`);
+    }
+  }
+
+  fill(): void {
+    if (this.path.length === 0) return;
+    this.elements.push(`<path d="${this.path.join(' ')}"${this.fillAttrs()}/>`);
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+    this.elements.push(`<path d="${this.path.join(' ')}" fill="none"${this.strokeAttrs()}/>`);
+  }
+
+  clip(): void {
+    if (this.path.length === 0) return;
+    const id = `clip${this.nextId++}`;
+    this.defs.push(`<clipPath id="${id}"><path d="${this.path.join(' ')}"/></clipPath>`);
+    this.elements.push(`<g clip-path="url(#${id})">`);
+    this.state.groups++;
+  }
+
+  // ========== 矩形 ==========
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, w, h);
+    this.fill();
+    this.path = path;
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number): void {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, w, h);
+    this.stroke();
+    this.path = path;
+  }
+
+  clearRect(x: number, y: number, w: number, h: number): void {
+    // SVG 无法擦除已绘制的元素，只处理清除整个画面的情况 (且不在裁剪分组内)
+    const [a, b, c, d, e, f] = this.state.transform;
+    const x0 = a * x + c * y + e;
+    const y0 = b * x + d * y + f;
+    const x1 = a * (x + w) + c * (y + h) + e;
+    const y1 = b * (x + w) + d * (y + h) + f;
+    const covers =
+      Math.min(x0, x1) <= 0 &&
+      Math.min(y0, y1) <= 0 &&
+      Math.max(x0, x1) >= this.width &&
+      Math.max(y0, y1) >= this.height;
+    const nested = this.state.groups > 0 || this.stack.some(s => s.groups > 0);
+    if (covers && !nested) this.elements = [];
+  }
+
+  // ========== 文字与图像 ==========
+
+  fillText(text: string, x: number, y: number): void {
+    this.elements.push(this.textElement(text, x, y, this.fillAttrs()));
+  }
+
+  strokeText(text: string, x: number, y: number): void {
+    this.elements.push(this.textElement(text, x, y, ` fill="none"${this.strokeAttrs()}`));
+  }
+
+  measureText(text: string): TextMetrics {
+    if (!this.measureCtx) this.measureCtx = document.createElement('canvas').getContext('2d');
+    if (!this.measureCtx) return { width: text.length * 6 } as TextMetrics;
+    this.measureCtx.font = this.state.font;
+    return this.measureCtx.measureText(text);
+  }
+
+  drawImage(image: CanvasImageSource, dx: number, dy: number, dw?: number, dh?: number): void {
+    // 画布内容以 PNG 嵌入 (例如波的干涉场景的像素场)
+    if (!(image instanceof HTMLCanvasElement)) return;
+    const width = dw === undefined ? image.width : dw;
+    const height = dh === undefined ? image.height : dh;
+    this.elements.push(
+      `<image x="${num(dx)}" y="${num(dy)}" width="${num(width)}" height="${num(height)}"` +
+        ` preserveAspectRatio="none" transform="${this.matrixAttr()}"${this.opacityAttr()}` +
+        ` href="${image.toDataURL('image/png')}"/>`
+    );
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): SvgGradient {
+    return new SvgGradient('linear', [x0, y0, x1, y1]);
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): SvgGradient {
+    return new SvgGradient('radial', [x0, y0, r0, x1, y1, r1]);
+  }
+
+  /**
+   * 生成完整的 SVG 文档
+   */
+  toString(): string {
+    const body = this.elements.slice();
+    // 补全未配对 restore() 的裁剪分组
+    const open = this.state.groups + this.stack.reduce((sum, s) => sum + s.groups, 0);
+    for (let i = 0; i < open; i++) body.push('</g>');
+
+    const background = this.background
+      ? `<rect width="100%" height="100%" fill="${escapeXml(this.background)}"/>`
+      : '';
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"` +
+        ` width="${num(this.width)}" height="${num(this.height)}"` +
+        ` viewBox="0 0 ${num(this.width)} ${num(this.height)}">`,
+      this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '',
+      background,
+      ...body,
+      '</svg>',
+    ]
+      .filter(line => line)
+      .join('\n');
+  }
+
+  // ========== 内部工具 ==========
+
+  /**
+   * 局部坐标转换为输出坐标
+   */
+  private point(x: number, y: number): string {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return `${num(a * x + c * y + e)},${num(b * x + d * y + f)}`;
+  }
+
+  private matrixAttr(): string {
+    return `matrix(${this.state.transform.map(num).join(' ')})`;
+  }
+
+  private opacityAttr(): string {
+    return this.state.globalAlpha < 1 ? ` opacity="${num(this.state.globalAlpha)}"` : '';
+  }
+
+  private fillAttrs(): string {
+    return ` fill="${this.paint(this.state.fillStyle)}"${this.opacityAttr()}`;
+  }
+
+  private strokeAttrs(): string {
+    const s = this.state;
+    // 线宽随变换缩放 (按面积比例取平均缩放)
+    const [a, b, c, d] = s.transform;
+    const scale = Math.sqrt(Math.abs(a * d - b * c)) || 1;
+    let attrs =
+      ` stroke="${this.paint(s.strokeStyle)}" stroke-width="${num(s.lineWidth * scale)}"` +
+      ` stroke-linecap="${s.lineCap}" stroke-linejoin="${s.lineJoin}"`;
+    if (s.lineDash.length > 0) {
+      attrs += ` stroke-dasharray="${s.lineDash.map(v => num(v * scale)).join(' ')}"`;
+    }
+    return attrs + this.opacityAttr();
+  }
+
+  /**
+   * 颜色或渐变 (渐变写入 <defs> 并返回引用)
+   */
+  private paint(style: string | SvgGradient): string {
+    if (!(style instanceof SvgGradient)) return escapeXml(String(style));
+
+    const id = `grad${this.nextId++}`;
+    const c = style.coords.map(num);
+    const stops = style.stops
+      .map(stop => `<stop offset="${num(stop.offset)}" stop-color="${escapeXml(stop.color)}"/>`)
+      .join('');
+    const common = `id="${id}" gradientUnits="userSpaceOnUse" gradientTransform="${this.matrixAttr()}"`;
+    this.defs.push(
+      style.type === 'linear'
+        ? `<linearGradient ${common} x1="${c[0]}" y1="${c[1]}" x2="${c[2]}" y2="${c[3]}">${stops}</linearGradient>`
+        : `<radialGradient ${common} fx="${c[0]}" fy="${c[1]}" fr="${c[2]}" cx="${c[3]}" cy="${c[4]}" r="${c[5]}">${stops}</radialGradient>`
+    );
+    return `url(#${id})`;
+  }
+
+  /**
+   * 文字元素：位置按当前变换写入 transform，对齐方式转换为 text-anchor / dominant-baseline
+   */
+  private textElement(text: string, x: number, y: number, paintAttrs: string): string {
+    const s = this.state;
+    const anchor =
+      s.textAlign === 'center'
+        ? 'middle'
+        : s.textAlign === 'right' || s.textAlign === 'end'
+          ? 'end'
+          : 'start';
+    const baseline =
+      s.textBaseline === 'middle'
+        ? 'central'
+        : s.textBaseline === 'top' || s.textBaseline === 'hanging'
+          ? 'text-before-edge'
+          : s.textBaseline === 'bottom' || s.textBaseline === 'ideographic'
+            ? 'text-after-edge'
+            : 'auto';
+    return (
+      `<text x="${num(x)}" y="${num(y)}" transform="${this.matrixAttr()}"` +
+      ` style="font: ${escapeXml(s.font)}" text-anchor="${anchor}" dominant-baseline="${baseline}"` +
+      `${paintAttrs}>${escapeXml(text)}</text>`
+    );
+  }
+}